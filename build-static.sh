@@ -9,6 +9,8 @@ export PATH="./node_modules/.bin:$PATH"
 
 # Set production environment
 export NODE_ENV=production
+# No backend: the client skips sign-in and cannot reach Google Sheets
+export VITE_STATIC_BUILD=true
 
 # Clean previous builds
 rm -rf dist
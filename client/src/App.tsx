@@ -14,7 +14,11 @@ import Analytics from "@/pages/analytics";
 import Strategies from "@/pages/strategies";
 import PsychologyEnhanced from "@/pages/psychology-enhanced";
 import Settings from "@/pages/settings";
+import Trash from "@/pages/trash";
 import NotFound from "@/pages/not-found";
+import AuthPage from "@/pages/auth";
+import { useAuth } from "@/hooks/use-auth";
+import { isStaticBuild } from "@/lib/google-sheets";
 
 function Router() {
   return (
@@ -27,24 +31,46 @@ function Router() {
         <Route path="/strategies" component={Strategies} />
         <Route path="/psychology" component={PsychologyEnhanced} />
         <Route path="/settings" component={Settings} />
+        <Route path="/trash" component={Trash} />
         <Route component={NotFound} />
       </Switch>
     </AnimatePresence>
   );
 }
 
+function Layout() {
+  return (
+    <div className="min-h-screen bg-background text-foreground transition-colors duration-300">
+      <Header />
+      <main className="pb-20 md:pb-8">
+        <Router />
+      </main>
+      <MobileNav />
+    </div>
+  );
+}
+
+// Everything but the sign-in page needs a session
+function AuthenticatedLayout() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+      </div>
+    );
+  }
+
+  return user ? <Layout /> : <AuthPage />;
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <AppProvider>
         <TooltipProvider>
-          <div className="min-h-screen bg-background text-foreground transition-colors duration-300">
-            <Header />
-            <main className="pb-20 md:pb-8">
-              <Router />
-            </main>
-            <MobileNav />
-          </div>
+          {isStaticBuild ? <Layout /> : <AuthenticatedLayout />}
           <Toaster />
         </TooltipProvider>
       </AppProvider>
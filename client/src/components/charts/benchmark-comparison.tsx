@@ -0,0 +1,100 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatPercentage } from "@/lib/calculations";
+import { useAppContext } from "@/contexts/app-context";
+import { useRiskSettings } from "@/hooks/use-risk-settings";
+import { compareToBenchmark } from "@shared/benchmark";
+import type { Benchmark, Trade } from "@shared/schema";
+
+interface BenchmarkComparisonProps {
+  trades: Trade[];
+  benchmarks: Benchmark[];
+  benchmark: Benchmark | null;
+  onBenchmarkChange: (symbol: string) => void; // "none" turns the comparison off
+}
+
+// Correlation, beta and excess return of closed trades against an imported index series
+export default function BenchmarkComparison({ trades, benchmarks, benchmark, onBenchmarkChange }: BenchmarkComparisonProps) {
+  const { pnlMode } = useAppContext();
+  const { config } = useRiskSettings();
+  const comparison = benchmark
+    ? compareToBenchmark(trades, benchmark.closes, config.accountCapital, pnlMode)
+    : null;
+
+  const formatSigned = (value: number | null) => value === null ? "—" : `${value >= 0 ? "+" : ""}${formatPercentage(value)}`;
+  const tone = (value: number | null) => value === null ? "" : value >= 0 ? "text-profit" : "text-loss";
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Benchmark Comparison</CardTitle>
+          {benchmarks.length > 0 && (
+            <Select value={benchmark?.symbol ?? "none"} onValueChange={onBenchmarkChange}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No benchmark</SelectItem>
+                {benchmarks.map(({ symbol }) => (
+                  <SelectItem key={symbol} value={symbol}>{symbol}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {benchmarks.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>No benchmark data yet</p>
+            <p className="text-sm">Import daily NIFTY or BANKNIFTY closes in Settings to compare your returns</p>
+          </div>
+        ) : !benchmark || !comparison ? (
+          <p className="text-sm text-gray-500">Pick a benchmark to compare against.</p>
+        ) : comparison.days === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>{benchmark.symbol} has no closes for the dates of these trades</p>
+            <p className="text-sm">Import closes covering this period in Settings</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-center">
+              <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <p className="text-sm text-gray-600 dark:text-gray-400">Correlation</p>
+                <p className="text-lg font-bold">{comparison.correlation?.toFixed(2) ?? "—"}</p>
+              </div>
+              <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <p className="text-sm text-gray-600 dark:text-gray-400">Beta</p>
+                <p className="text-lg font-bold">{comparison.beta?.toFixed(2) ?? "—"}</p>
+              </div>
+              <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <p className="text-sm text-gray-600 dark:text-gray-400">Your Return</p>
+                <p className={`text-lg font-bold ${tone(comparison.portfolioReturn)}`}>{formatSigned(comparison.portfolioReturn)}</p>
+              </div>
+              <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <p className="text-sm text-gray-600 dark:text-gray-400">{benchmark.symbol} Return</p>
+                <p className={`text-lg font-bold ${tone(comparison.benchmarkReturn)}`}>{formatSigned(comparison.benchmarkReturn)}</p>
+              </div>
+              <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <p className="text-sm text-gray-600 dark:text-gray-400">Excess Return</p>
+                <p className={`text-lg font-bold ${tone(comparison.excessReturn)}`}>{formatSigned(comparison.excessReturn)}</p>
+              </div>
+            </div>
+
+            <div className="text-xs text-gray-500 space-y-1">
+              <p>
+                Over {comparison.days} {benchmark.symbol} session{comparison.days === 1 ? "" : "s"} and {comparison.trades} closed trade{comparison.trades === 1 ? "" : "s"}.
+                {comparison.uncoveredTrades > 0 &&
+                  ` ${comparison.uncoveredTrades} trade${comparison.uncoveredTrades === 1 ? " falls" : "s fall"} outside the imported closes and ${comparison.uncoveredTrades === 1 ? "is" : "are"} left out.`}
+              </p>
+              {config.accountCapital <= 0 && (
+                <p>Set your account capital in Settings → Account & Risk to turn P&L into returns for beta and excess return.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,13 +1,18 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
-import { Trade } from "@shared/schema";
-import { formatCurrency } from "@/lib/calculations";
+import { Benchmark, Trade } from "@shared/schema";
+import { formatCurrency, formatPercentage, getTradePnL } from "@/lib/calculations";
+import { useAppContext } from "@/contexts/app-context";
+import { getBenchmarkReturn } from "@shared/benchmark";
 
 interface EquityCurveProps {
   trades: Trade[];
+  benchmark?: Benchmark | null; // Overlaid as its % return since the first trade, on its own axis
 }
 
-export default function EquityCurve({ trades }: EquityCurveProps) {
+export default function EquityCurve({ trades, benchmark }: EquityCurveProps) {
+  const { pnlMode } = useAppContext();
+
   // Sort trades by date and calculate cumulative P&L
   const sortedTrades = [...trades].sort((a, b) => 
     new Date(a.tradeDate).getTime() - new Date(b.tradeDate).getTime()
@@ -15,8 +20,9 @@ export default function EquityCurve({ trades }: EquityCurveProps) {
 
   let cumulativePnL = 0;
   const equityData = sortedTrades.map((trade, index) => {
-    cumulativePnL += parseFloat(trade.profitLoss?.toString() || "0");
+    cumulativePnL += getTradePnL(trade, pnlMode);
     return {
+      benchmarkReturn: benchmark ? getBenchmarkReturn(benchmark.closes, sortedTrades[0].tradeDate, trade.tradeDate) : null,
       date: new Date(trade.tradeDate).toLocaleDateString("en-US", { 
         month: "short", 
         day: "numeric" 
@@ -38,6 +44,13 @@ export default function EquityCurve({ trades }: EquityCurveProps) {
               {formatCurrency(data.equity)}
             </span>
           </p>
+          {benchmark && data.benchmarkReturn !== null && (
+            <p className="text-sm">
+              {benchmark.symbol}: <span className={data.benchmarkReturn >= 0 ? 'text-profit' : 'text-loss'}>
+                {formatPercentage(data.benchmarkReturn)}
+              </span>
+            </p>
+          )}
         </div>
       );
     }
@@ -52,7 +65,15 @@ export default function EquityCurve({ trades }: EquityCurveProps) {
     <Card>
       <CardHeader>
         <div className="flex items-center justify-between">
-          <CardTitle>Equity Curve</CardTitle>
+          <div>
+            <CardTitle>Equity Curve</CardTitle>
+            {benchmark && (
+              <p className="text-sm text-gray-600 mt-1">
+                <span className="inline-block w-3 h-0.5 mr-1 align-middle" style={{ backgroundColor: "hsl(25, 95%, 53%)" }} />
+                {benchmark.symbol} return, right axis
+              </p>
+            )}
+          </div>
           <div className="text-right">
             <p className="text-sm text-gray-600">Current Equity</p>
             <p className={`text-lg font-bold ${currentEquity >= 0 ? 'text-profit' : 'text-loss'}`}>
@@ -86,6 +107,16 @@ export default function EquityCurve({ trades }: EquityCurveProps) {
                   tickLine={false}
                   tickFormatter={(value) => `₹${(value / 1000).toFixed(0)}k`}
                 />
+                {benchmark && (
+                  <YAxis
+                    yAxisId="benchmark"
+                    orientation="right"
+                    stroke="#6b7280"
+                    fontSize={12}
+                    tickLine={false}
+                    tickFormatter={(value) => `${value.toFixed(0)}%`}
+                  />
+                )}
                 <Tooltip content={<CustomTooltip />} />
                 <Line
                   type="monotone"
@@ -95,6 +126,18 @@ export default function EquityCurve({ trades }: EquityCurveProps) {
                   dot={{ fill: "hsl(221, 83%, 53%)", strokeWidth: 2, r: 4 }}
                   activeDot={{ r: 6, stroke: "hsl(221, 83%, 53%)", strokeWidth: 2 }}
                 />
+                {benchmark && (
+                  <Line
+                    yAxisId="benchmark"
+                    type="monotone"
+                    dataKey="benchmarkReturn"
+                    name={benchmark.symbol}
+                    stroke="hsl(25, 95%, 53%)"
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                  />
+                )}
                 {/* Add a zero line */}
                 <Line
                   type="monotone"
@@ -0,0 +1,38 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAppContext } from "@/contexts/app-context";
+import { compareHoldingTimes, formatDuration } from "@shared/timing";
+import type { Trade } from "@shared/schema";
+
+// How long winners were held against losers; holding losers longer is the usual leak
+export default function HoldingTimeChart({ trades }: { trades: Trade[] }) {
+  const { pnlMode } = useAppContext();
+  const { winners, losers } = compareHoldingTimes(trades, pnlMode);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Average Holding Time</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {winners.trades + losers.trades === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>No closed trades with both an entry and an exit time yet</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-4">
+            {([
+              ["Winners", winners, "bg-green-50 dark:bg-green-900/20", "text-profit"],
+              ["Losers", losers, "bg-red-50 dark:bg-red-900/20", "text-loss"],
+            ] as const).map(([label, stats, background, tone]) => (
+              <div key={label} className={`p-4 rounded-lg space-y-1 ${background}`}>
+                <p className="text-sm font-medium text-gray-700 dark:text-gray-300">{label}</p>
+                <p className={`text-2xl font-bold ${tone}`}>{formatDuration(stats.avgMinutes)}</p>
+                <p className="text-sm text-gray-600 dark:text-gray-400">{stats.trades} trades</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
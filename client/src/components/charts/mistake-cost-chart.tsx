@@ -0,0 +1,152 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from "recharts";
+import { formatCurrency, formatPercentage, getTradePnL, groupTradesByMistake } from "@/lib/calculations";
+import { useAppContext } from "@/contexts/app-context";
+import { useMistakeCategories } from "@/hooks/use-mistake-categories";
+import { getMistakeLabel } from "@shared/mistakes";
+import type { Trade } from "@shared/schema";
+
+const COLORS = [
+  "hsl(0, 84%, 60%)",
+  "hsl(25, 95%, 53%)",
+  "hsl(45, 93%, 47%)",
+  "hsl(280, 65%, 60%)",
+  "hsl(221, 83%, 53%)",
+  "hsl(160, 60%, 45%)",
+];
+
+// A mistake's cost is what its losing trades lost; winners that carried it don't offset that
+export default function MistakeCostChart({ trades }: { trades: Trade[] }) {
+  const { pnlMode } = useAppContext();
+  const { categories } = useMistakeCategories();
+  const getPnL = (trade: Trade) => getTradePnL(trade, pnlMode);
+  const getCost = (mistakeTrades: Trade[]) =>
+    mistakeTrades.reduce((sum, trade) => sum + Math.max(0, -getPnL(trade)), 0);
+
+  const mistakeGroups = groupTradesByMistake(trades);
+  const mistakeData = Object.entries(mistakeGroups)
+    .map(([id, mistakeTrades], index) => ({
+      id,
+      mistake: getMistakeLabel(categories, id),
+      trades: mistakeTrades.length,
+      frequency: (mistakeTrades.length / trades.length) * 100,
+      cost: getCost(mistakeTrades),
+      pnl: mistakeTrades.reduce((sum, trade) => sum + getPnL(trade), 0),
+      color: COLORS[index % COLORS.length],
+    }))
+    .sort((a, b) => b.cost - a.cost);
+
+  const totalCost = getCost(trades.filter(trade => trade.mistakes?.length));
+
+  // One bar per month, stacked by mistake
+  const monthlyGroups = trades.reduce((acc, trade) => {
+    const month = trade.tradeDate.slice(0, 7);
+    if (!acc[month]) acc[month] = [];
+    acc[month].push(trade);
+    return acc;
+  }, {} as Record<string, Trade[]>);
+  const monthlyData = Object.keys(monthlyGroups)
+    .sort()
+    .map(month => {
+      const byMistake = groupTradesByMistake(monthlyGroups[month]);
+      const row: Record<string, string | number> = {
+        month: new Date(`${month}-01`).toLocaleDateString("en-US", { year: "numeric", month: "short" }),
+      };
+      mistakeData.forEach(({ id }) => {
+        row[id] = byMistake[id] ? getCost(byMistake[id]) : 0;
+        row[`${id}:count`] = byMistake[id]?.length ?? 0;
+      });
+      return row;
+    })
+    .filter(row => mistakeData.some(({ id }) => (row[`${id}:count`] as number) > 0));
+
+  const MonthTooltip = ({ active, payload, label }: any) => {
+    if (active && payload && payload.length) {
+      const row = payload[0].payload;
+      return (
+        <div className="bg-white p-3 border border-gray-200 rounded-lg shadow-lg">
+          <p className="font-medium mb-2">{label}</p>
+          <div className="space-y-1">
+            {mistakeData
+              .filter(({ id }) => row[`${id}:count`] > 0)
+              .map(({ id, mistake }) => (
+                <p key={id} className="text-sm">
+                  {mistake}: {row[`${id}:count`]}× · <span className="text-red-600">{formatCurrency(row[id])}</span>
+                </p>
+              ))}
+          </div>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  if (mistakeData.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Cost of Mistakes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="text-center py-8 text-gray-500">
+            <p>No mistakes tagged yet</p>
+            <p className="text-sm">Tick the mistakes made on a trade when logging or reviewing it</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Cost of Mistakes</CardTitle>
+            <span className="text-sm text-gray-600 dark:text-gray-400">
+              Total <span className="font-semibold text-loss">{formatCurrency(totalCost)}</span>
+            </span>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {mistakeData.map((item) => (
+            <div key={item.id} className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <div className="w-3 h-3 rounded-full" style={{ backgroundColor: item.color }} />
+                <div>
+                  <p className="text-sm font-medium text-gray-900 dark:text-gray-100">{item.mistake}</p>
+                  <p className="text-xs text-gray-500">
+                    {item.trades} trade{item.trades === 1 ? "" : "s"} · {formatPercentage(item.frequency)} of trades · Net {formatCurrency(item.pnl)}
+                  </p>
+                </div>
+              </div>
+              <span className="font-semibold text-loss">{formatCurrency(item.cost)}</span>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Mistakes Over Time</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={monthlyData}>
+                <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                <XAxis dataKey="month" />
+                <YAxis tickFormatter={(value) => formatCurrency(value)} />
+                <Tooltip content={<MonthTooltip />} />
+                <Legend />
+                {mistakeData.map(({ id, mistake, color }) => (
+                  <Bar key={id} dataKey={id} name={mistake} stackId="cost" fill={color} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatCurrency, formatPercentage } from "@/lib/calculations";
+import { useAppContext } from "@/contexts/app-context";
+import { buildHeatmap, type HeatmapCell, type HeatmapColumns } from "@shared/heatmap";
+import type { Trade } from "@shared/schema";
+
+type HeatmapMode = "pnl" | "count" | "winRate";
+
+const formatCell = (cell: HeatmapCell, mode: HeatmapMode) =>
+  mode === "pnl" ? formatCurrency(cell.totalPnL) : mode === "count" ? String(cell.trades) : formatPercentage(cell.winRate);
+
+// Shade scales with the largest value on the grid; win rate runs red below 50% and green above
+function getCellColor(cell: HeatmapCell, mode: HeatmapMode, maxPnL: number, maxTrades: number): string {
+  if (mode === "count") return `hsla(221, 83%, 53%, ${0.15 + 0.75 * (cell.trades / maxTrades)})`;
+  if (mode === "winRate") {
+    const strength = Math.abs(cell.winRate - 50) / 50;
+    return cell.winRate >= 50 ? `hsla(142, 76%, 36%, ${0.1 + 0.8 * strength})` : `hsla(0, 84%, 60%, ${0.1 + 0.8 * strength})`;
+  }
+  const strength = maxPnL > 0 ? Math.abs(cell.totalPnL) / maxPnL : 0;
+  return cell.totalPnL >= 0 ? `hsla(142, 76%, 36%, ${0.1 + 0.8 * strength})` : `hsla(0, 84%, 60%, ${0.1 + 0.8 * strength})`;
+}
+
+// Which weekdays, and which hours or months of them, closed trades made or lost money on
+export default function PerformanceHeatmap({ trades }: { trades: Trade[] }) {
+  const { pnlMode } = useAppContext();
+  const [columns, setColumns] = useState<HeatmapColumns>("hour");
+  const [mode, setMode] = useState<HeatmapMode>("pnl");
+  const heatmap = buildHeatmap(trades, columns, pnlMode);
+
+  const filled = heatmap.cells.flat().filter((cell): cell is HeatmapCell => cell !== null);
+  const maxPnL = Math.max(0, ...filled.map(cell => Math.abs(cell.totalPnL)));
+  const maxTrades = Math.max(1, ...filled.map(cell => cell.trades));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Weekday Heatmap</CardTitle>
+          <div className="flex items-center space-x-2">
+            <Select value={columns} onValueChange={(value) => setColumns(value as HeatmapColumns)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="hour">By hour (IST)</SelectItem>
+                <SelectItem value="month">By month</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={mode} onValueChange={(value) => setMode(value as HeatmapMode)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pnl">P&L</SelectItem>
+                <SelectItem value="count">Trades</SelectItem>
+                <SelectItem value="winRate">Win rate</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {heatmap.rows.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>No closed trades in this range</p>
+            {columns === "hour" && <p className="text-sm">The hourly view needs trades with an entry time</p>}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full border-separate border-spacing-1 text-xs">
+              <thead>
+                <tr>
+                  <th />
+                  {heatmap.columns.map(column => (
+                    <th key={column} className="font-medium text-gray-500 dark:text-gray-400 whitespace-nowrap px-1">
+                      {column}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {heatmap.rows.map((row, rowIndex) => (
+                  <tr key={row}>
+                    <th className="font-medium text-gray-500 dark:text-gray-400 text-left pr-2">{row}</th>
+                    {heatmap.cells[rowIndex].map((cell, columnIndex) => (
+                      <td
+                        key={heatmap.columns[columnIndex]}
+                        className={`h-10 min-w-[4rem] rounded text-center whitespace-nowrap px-1 ${
+                          cell ? "font-medium text-gray-900 dark:text-gray-100" : "bg-gray-50 dark:bg-gray-800"
+                        }`}
+                        style={cell ? { backgroundColor: getCellColor(cell, mode, maxPnL, maxTrades) } : undefined}
+                        title={cell
+                          ? `${row} ${heatmap.columns[columnIndex]}: ${cell.trades} trade${cell.trades === 1 ? "" : "s"}, ${formatPercentage(cell.winRate)} win rate, P&L ${formatCurrency(cell.totalPnL)}`
+                          : undefined}
+                      >
+                        {cell ? formatCell(cell, mode) : ""}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,71 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { Trade } from "@shared/schema";
+import { calculateExpectancyR, formatR, getRDistribution, getTradeRMultiple, getClosedTrades } from "@/lib/calculations";
+
+interface RDistributionChartProps {
+  trades: Trade[];
+}
+
+export default function RDistributionChart({ trades }: RDistributionChartProps) {
+  const chartData = getRDistribution(trades);
+  const expectancy = calculateExpectancyR(trades);
+  const closedTrades = getClosedTrades(trades);
+  const withoutStop = closedTrades.filter(trade => getTradeRMultiple(trade) === null).length;
+
+  const CustomTooltip = ({ active, payload, label }: any) => {
+    if (active && payload && payload.length) {
+      return (
+        <div className="bg-white p-3 border border-gray-200 rounded-lg shadow-lg">
+          <p className="font-medium">{label}</p>
+          <p className="text-sm">{payload[0].value} trades</p>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>R-Multiple Distribution</span>
+          <span className={`text-base ${expectancy !== null && expectancy < 0 ? "text-loss" : "text-profit"}`}>
+            Expectancy {formatR(expectancy)}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="h-80">
+          {expectancy === null ? (
+            <div className="h-full flex items-center justify-center text-center text-gray-500">
+              <div>
+                <p>No closed trades with a stop loss</p>
+                <p className="text-sm">R-multiples need a stop loss to measure risk from</p>
+              </div>
+            </div>
+          ) : (
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                <XAxis dataKey="bucket" stroke="#6b7280" fontSize={12} tickLine={false} />
+                <YAxis stroke="#6b7280" fontSize={12} tickLine={false} allowDecimals={false} />
+                <Tooltip content={<CustomTooltip />} />
+                <Bar dataKey="count" radius={[2, 2, 0, 0]}>
+                  {chartData.map((entry) => (
+                    <Cell key={entry.bucket} fill={entry.min >= 0 ? "hsl(142, 76%, 36%)" : "hsl(0, 84%, 60%)"} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+        {withoutStop > 0 && (
+          <p className="text-xs text-gray-500 mt-2">
+            {withoutStop} closed trade{withoutStop === 1 ? "" : "s"} left out for having no valid stop loss
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,81 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from "recharts";
+import { Trade } from "@shared/schema";
+import { formatCurrency, getRiskUsedSeries } from "@/lib/calculations";
+import { useRiskSettings } from "@/hooks/use-risk-settings";
+import { formatDateForDisplay } from "@/utils/date-utils";
+
+interface RiskUsedChartProps {
+  trades: Trade[];
+}
+
+export default function RiskUsedChart({ trades }: RiskUsedChartProps) {
+  const { config, budget } = useRiskSettings();
+  const chartData = getRiskUsedSeries(trades, config);
+  const overBudget = chartData.filter(point => point.overBudget).length;
+
+  const CustomTooltip = ({ active, payload }: any) => {
+    if (active && payload && payload.length) {
+      const data = payload[0].payload;
+      return (
+        <div className="bg-white p-3 border border-gray-200 rounded-lg shadow-lg">
+          <p className="font-medium">{data.stockName}</p>
+          <p className="text-sm">{formatDateForDisplay(data.date)}</p>
+          <p className="text-sm">
+            Risked <span className={data.overBudget ? "text-loss" : ""}>{formatCurrency(data.risk)}</span>
+            {data.percentOfCapital !== null && ` (${data.percentOfCapital.toFixed(2)}% of capital)`}
+          </p>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>Risk Used Per Trade</span>
+          {overBudget > 0 && (
+            <span className="text-base text-loss">{overBudget} over budget</span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="h-80">
+          {budget === null || chartData.length === 0 ? (
+            <div className="h-full flex items-center justify-center text-center text-gray-500">
+              <div>
+                <p>{budget === null ? "No risk budget set" : "No trades with a stop loss"}</p>
+                <p className="text-sm">
+                  {budget === null ? "Set account capital and risk per trade in Settings" : "Risk is measured from entry to stop loss"}
+                </p>
+              </div>
+            </div>
+          ) : (
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                <XAxis
+                  dataKey="date"
+                  stroke="#6b7280"
+                  fontSize={12}
+                  tickLine={false}
+                  tickFormatter={(date) => formatDateForDisplay(date)}
+                />
+                <YAxis stroke="#6b7280" fontSize={12} tickLine={false} tickFormatter={(value) => formatCurrency(value)} />
+                <Tooltip content={<CustomTooltip />} />
+                <ReferenceLine y={budget} stroke="hsl(0, 84%, 60%)" strokeDasharray="4 4" label={{ value: "Budget", position: "insideTopRight", fontSize: 12 }} />
+                <Bar dataKey="risk" radius={[2, 2, 0, 0]}>
+                  {chartData.map((point) => (
+                    <Cell key={point.id} fill={point.overBudget ? "hsl(0, 84%, 60%)" : "hsl(217, 91%, 60%)"} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,94 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from "recharts";
+import { formatCurrency, formatPercentage } from "@/lib/calculations";
+import { useAppContext } from "@/contexts/app-context";
+import { summarizeByTimeOfDay, type TimeBucketStats } from "@shared/timing";
+import type { Trade } from "@shared/schema";
+
+const BucketTooltip = ({ active, payload }: any) => {
+  if (active && payload && payload.length) {
+    const bucket: TimeBucketStats = payload[0].payload;
+    return (
+      <div className="bg-white p-3 border border-gray-200 rounded-lg shadow-lg">
+        <p className="font-medium">{bucket.label} IST</p>
+        <div className="space-y-1 mt-2">
+          <p className="text-sm">Trades: {bucket.trades}</p>
+          <p className="text-sm">Win rate: {formatPercentage(bucket.winRate)}</p>
+          <p className="text-sm">
+            P&L: <span className={bucket.totalPnL >= 0 ? "text-green-600" : "text-red-600"}>{formatCurrency(bucket.totalPnL)}</span>
+          </p>
+        </div>
+      </div>
+    );
+  }
+  return null;
+};
+
+// P&L by the 15 minutes a trade was entered in and win rate by the hour, in IST
+export default function TimeOfDayChart({ trades }: { trades: Trade[] }) {
+  const { pnlMode } = useAppContext();
+  const quarterHours = summarizeByTimeOfDay(trades, pnlMode, 15);
+  const hours = summarizeByTimeOfDay(trades, pnlMode, 60);
+
+  if (quarterHours.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Time of Day</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="text-center py-8 text-gray-500">
+            <p>No closed trades with an entry time yet</p>
+            <p className="text-sm">Add entry and exit times to your trades to see when you trade best</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>P&L by Entry Time (15 min)</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={quarterHours}>
+                <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                <XAxis dataKey="label" />
+                <YAxis tickFormatter={(value) => formatCurrency(value)} />
+                <Tooltip content={<BucketTooltip />} />
+                <Bar dataKey="totalPnL">
+                  {quarterHours.map((bucket) => (
+                    <Cell key={bucket.label} fill={bucket.totalPnL >= 0 ? "hsl(142, 76%, 36%)" : "hsl(0, 84%, 60%)"} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Win Rate by Hour</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={hours}>
+                <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                <XAxis dataKey="label" />
+                <YAxis domain={[0, 100]} tickFormatter={(value) => `${value}%`} />
+                <Tooltip content={<BucketTooltip />} />
+                <Bar dataKey="winRate" fill="hsl(221, 83%, 53%)" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatCurrency, formatPercentage } from "@/lib/calculations";
+import { useAppContext } from "@/contexts/app-context";
+import { useCustomFields } from "@/hooks/use-custom-fields";
+import { summarizeByGroup, type TradeGrouping } from "@shared/custom-fields";
+import type { Trade } from "@shared/schema";
+
+// P&L of closed trades grouped by tag or by the value of one custom field
+export default function TradeGroupBreakdown({ trades }: { trades: Trade[] }) {
+  const { pnlMode } = useAppContext();
+  const { fields } = useCustomFields();
+  const [groupBy, setGroupBy] = useState<TradeGrouping>("tags");
+  const groups = summarizeByGroup(trades, groupBy, pnlMode);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>P&L by {groupBy === "tags" ? "Tag" : fields.find(field => field.id === groupBy)?.label ?? "Field"}</CardTitle>
+          <Select value={groupBy} onValueChange={setGroupBy}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="tags">Tags</SelectItem>
+              {fields.map(field => (
+                <SelectItem key={field.id} value={field.id}>{field.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {groups.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No closed trades yet. Tag trades or add custom fields in Settings to compare them here.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{groupBy === "tags" ? "Tag" : "Value"}</TableHead>
+                <TableHead className="text-right">Trades</TableHead>
+                <TableHead className="text-right">Win rate</TableHead>
+                <TableHead className="text-right">Avg P&L</TableHead>
+                <TableHead className="text-right">Total P&L</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {groups.map(group => (
+                <TableRow key={group.label}>
+                  <TableCell className="font-medium">{group.label}</TableCell>
+                  <TableCell className="text-right">{group.trades}</TableCell>
+                  <TableCell className="text-right">{formatPercentage(group.winRate)}</TableCell>
+                  <TableCell className={`text-right ${group.avgPnL >= 0 ? "text-profit" : "text-loss"}`}>
+                    {formatCurrency(group.avgPnL)}
+                  </TableCell>
+                  <TableCell className={`text-right font-semibold ${group.totalPnL >= 0 ? "text-profit" : "text-loss"}`}>
+                    {formatCurrency(group.totalPnL)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { ShieldAlert } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import TradeDetailModal from "@/components/trade/trade-detail-modal";
+import { useTrades } from "@/hooks/use-trades";
+import { formatCurrency } from "@/lib/calculations";
+import { getOpenExposure, getTradeStatus } from "@shared/lifecycle";
+import { getTradeSide } from "@shared/pnl";
+
+export default function OpenPositions() {
+  const { trades, isLoading } = useTrades();
+  const [selectedTrade, setSelectedTrade] = useState<any>(null);
+  const [isDetailModalOpen, setIsDetailModalOpen] = useState(false);
+
+  const handleTradeClick = (trade: any) => {
+    setSelectedTrade(trade);
+    setIsDetailModalOpen(true);
+  };
+
+  const handleCloseDetailModal = () => {
+    setIsDetailModalOpen(false);
+    setSelectedTrade(null);
+  };
+
+  if (isLoading) return null;
+
+  const positions = trades
+    .filter(trade => getTradeStatus(trade) === "open")
+    .map(trade => ({ trade, exposure: getOpenExposure(trade) }));
+  const plannedCount = trades.filter(trade => getTradeStatus(trade) === "planned").length;
+
+  const totalValue = positions.reduce((sum, { exposure }) => sum + exposure.positionValue, 0);
+  const totalRisk = positions.reduce((sum, { exposure }) => sum + Math.max(exposure.riskToStop ?? 0, 0), 0);
+  const unprotected = positions.filter(({ exposure }) => exposure.riskToStop === null).length;
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Open Positions</CardTitle>
+            {plannedCount > 0 && (
+              <Badge variant="outline">{plannedCount} planned</Badge>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {positions.length === 0 ? (
+            <div className="text-center py-6 text-gray-500">
+              <p>No open positions</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-4 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg text-sm">
+                <div>
+                  <p className="text-gray-500 dark:text-gray-400">Exposure</p>
+                  <p className="font-bold text-gray-900 dark:text-gray-100">{formatCurrency(totalValue)}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500 dark:text-gray-400">At risk to stops</p>
+                  <p className="font-bold text-loss">{formatCurrency(totalRisk)}</p>
+                </div>
+              </div>
+
+              {unprotected > 0 && (
+                <div className="flex items-center space-x-2 text-sm text-amber-600">
+                  <ShieldAlert className="w-4 h-4" />
+                  <span>{unprotected} position{unprotected > 1 ? "s" : ""} without a stop loss</span>
+                </div>
+              )}
+
+              {positions.map(({ trade, exposure }) => (
+                <div
+                  key={trade.id}
+                  className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors cursor-pointer"
+                  onClick={() => handleTradeClick(trade)}
+                >
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <p className="font-medium text-gray-900 dark:text-gray-100">{trade.stockName}</p>
+                      {getTradeSide(trade.side) === "short" && (
+                        <Badge variant="destructive" className="text-xs">Short</Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      {exposure.openQuantity} @ ₹{parseFloat(trade.entryPrice).toFixed(2)}
+                      {trade.stopLoss && <> • SL ₹{parseFloat(trade.stopLoss).toFixed(2)}</>}
+                    </p>
+                  </div>
+                  <div className="text-right text-sm">
+                    <p className="text-gray-900 dark:text-gray-100">{formatCurrency(exposure.positionValue)}</p>
+                    <p className={exposure.riskToStop !== null && exposure.riskToStop > 0 ? "text-loss" : "text-gray-500"}>
+                      {exposure.riskToStop === null
+                        ? "No stop"
+                        : exposure.riskToStop > 0
+                          ? `Risk ${formatCurrency(exposure.riskToStop)}`
+                          : `Locked ${formatCurrency(-exposure.riskToStop)}`}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <TradeDetailModal
+        trade={selectedTrade}
+        isOpen={isDetailModalOpen}
+        onClose={handleCloseDetailModal}
+      />
+    </>
+  );
+}
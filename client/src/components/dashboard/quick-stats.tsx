@@ -2,10 +2,13 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { useTrades } from "@/hooks/use-trades";
 import { useStrategies } from "@/hooks/use-strategies";
-import { calculateTotalPnL, formatCurrency, groupTradesByStrategy } from "@/lib/calculations";
+import { calculateTotalPnL, formatCurrency, groupTradesByStrategy, applyPnLMode } from "@/lib/calculations";
+import { useAppContext } from "@/contexts/app-context";
 
 export default function QuickStats() {
-  const { trades, isLoading: tradesLoading } = useTrades();
+  const { trades: allTrades, isLoading: tradesLoading } = useTrades();
+  const { pnlMode } = useAppContext();
+  const trades = applyPnLMode(allTrades, pnlMode);
   const { strategies, isLoading: strategiesLoading } = useStrategies();
 
   if (tradesLoading || strategiesLoading) {
@@ -10,57 +10,84 @@ import { Label } from "@/components/ui/label";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { useTrades } from "@/hooks/use-trades";
+import { useTradeMutations } from "@/hooks/use-trades";
 import { useStrategies } from "@/hooks/use-strategies";
+import { useCustomFields } from "@/hooks/use-custom-fields";
+import { useAppContext } from "@/contexts/app-context";
 import { calculatePnL } from "@/lib/calculations";
 import { Link } from "wouter";
 import { Badge } from "@/components/ui/badge";
+import RuleChecklist, { getStrategyRules } from "@/components/trade/rule-checklist";
+import CustomFieldInputs, { toCustomFieldValues } from "@/components/trade/custom-field-inputs";
+import { buildRuleChecks, getComplianceScore } from "@shared/compliance";
+import { normalizeCustomFieldValues, parseTags } from "@shared/custom-fields";
 
 const quickTradeSchema = z.object({
   stockName: z.string().min(1, "Stock name is required"),
+  side: z.enum(["long", "short"]).default("long"),
   quantity: z.coerce.number().min(1, "Quantity must be at least 1"),
   entryPrice: z.coerce.number().min(0.01, "Entry price must be greater than 0"),
   exitPrice: z.coerce.number().min(0.01, "Exit price must be greater than 0"),
   setupFollowed: z.boolean().default(false),
-  whichSetup: z.string().optional(),
+  strategyId: z.string().optional(), // Strategy ID as the select holds it
+  followedRuleIds: z.array(z.string()).default([]),
+  tags: z.string().optional(), // Comma separated
+  customFields: z.record(z.union([z.string(), z.boolean()])).default({}),
 });
 
 type QuickTradeForm = z.infer<typeof quickTradeSchema>;
 
 export default function QuickTradeForm() {
-  const { addTrade, isAdding } = useTrades();
+  const { addTrade, isAdding } = useTradeMutations();
   const { strategies } = useStrategies();
+  const { fields: customFields } = useCustomFields();
+  const { accountId } = useAppContext();
   
   const form = useForm<QuickTradeForm>({
     resolver: zodResolver(quickTradeSchema),
     defaultValues: {
       stockName: "",
+      side: "long",
       quantity: 0,
       entryPrice: 0,
       exitPrice: 0,
       setupFollowed: false,
-      whichSetup: "",
+      strategyId: "",
+      followedRuleIds: [],
+      tags: "",
+      customFields: {},
     },
   });
 
+  const strategyRules = getStrategyRules(strategies, form.watch("strategyId"));
+
   const onSubmit = (data: QuickTradeForm) => {
-    const profitLoss = calculatePnL(data.entryPrice, data.exitPrice, data.quantity);
+    const profitLoss = calculatePnL(data.entryPrice, data.exitPrice, data.quantity, data.side);
+    const ruleChecks = strategyRules.length > 0 ? buildRuleChecks(strategyRules, data.followedRuleIds) : null;
+    const strategy = strategies.find(s => String(s.id) === data.strategyId);
     
     addTrade({
       tradeDate: new Date().toISOString().split('T')[0],
       stockName: data.stockName.toUpperCase(),
+      side: data.side,
       quantity: data.quantity,
       entryPrice: data.entryPrice.toString(),
       exitPrice: data.exitPrice.toString(),
       profitLoss: profitLoss.toString(),
-      setupFollowed: data.setupFollowed,
-      whichSetup: data.whichSetup || null,
+      setupFollowed: ruleChecks ? getComplianceScore(ruleChecks) === 100 : data.setupFollowed,
+      strategyId: strategy?.id ?? null,
+      whichSetup: strategy?.name ?? null,
+      ruleChecks,
       emotion: null,
+      tags: parseTags(data.tags),
+      customFields: normalizeCustomFieldValues(toCustomFieldValues(customFields, data.customFields)),
       notes: null,
       psychologyReflections: null,
       screenshotLink: null,
       stopLoss: null,
       targetPrice: null,
+      status: "closed",
+      accountId,
     });
     
     form.reset();
@@ -99,6 +126,28 @@ export default function QuickTradeForm() {
                   </FormItem>
                 )}
               />
+
+              <FormField
+                control={form.control}
+                name="side"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Side</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select side" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="long">Long</SelectItem>
+                        <SelectItem value="short">Short</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               
               <FormField
                 control={form.control}
@@ -142,30 +191,32 @@ export default function QuickTradeForm() {
                 )}
               />
               
-              <FormField
-                control={form.control}
-                name="setupFollowed"
-                render={({ field }) => (
-                  <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
-                    <FormControl>
-                      <Checkbox
-                        checked={field.value}
-                        onCheckedChange={field.onChange}
-                      />
-                    </FormControl>
-                    <div className="space-y-1 leading-none">
-                      <FormLabel>
-                        Setup Followed
-                      </FormLabel>
-                      <FormMessage />
-                    </div>
-                  </FormItem>
-                )}
-              />
+              {strategyRules.length === 0 && (
+                <FormField
+                  control={form.control}
+                  name="setupFollowed"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                        />
+                      </FormControl>
+                      <div className="space-y-1 leading-none">
+                        <FormLabel>
+                          Setup Followed
+                        </FormLabel>
+                        <FormMessage />
+                      </div>
+                    </FormItem>
+                  )}
+                />
+              )}
               
               <FormField
                 control={form.control}
-                name="whichSetup"
+                name="strategyId"
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Strategy/Setup</FormLabel>
@@ -177,7 +228,7 @@ export default function QuickTradeForm() {
                       </FormControl>
                       <SelectContent>
                         {strategies.map((strategy) => (
-                          <SelectItem key={strategy.id} value={strategy.name}>
+                          <SelectItem key={strategy.id} value={String(strategy.id)}>
                             {strategy.name}
                             <Badge 
                               variant={strategy.status === "active" ? "default" : "secondary"}
@@ -193,7 +244,39 @@ export default function QuickTradeForm() {
                   </FormItem>
                 )}
               />
+
+              <FormField
+                control={form.control}
+                name="tags"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tags</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., gap up, earnings" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="customFields"
+                render={({ field }) => (
+                  <CustomFieldInputs fields={customFields} values={field.value} onChange={field.onChange} />
+                )}
+              />
             </div>
+
+            {strategyRules.length > 0 && (
+              <FormField
+                control={form.control}
+                name="followedRuleIds"
+                render={({ field }) => (
+                  <RuleChecklist rules={strategyRules} followed={field.value} onChange={field.onChange} />
+                )}
+              />
+            )}
             
             <div className="flex flex-col sm:flex-row gap-3 pt-4">
               <Button 
@@ -5,12 +5,14 @@ import { useState } from "react";
 import TradeDetailModal from "@/components/trade/trade-detail-modal";
 import { useTrades } from "@/hooks/use-trades";
 import { useStrategies } from "@/hooks/use-strategies";
-import { formatCurrency, formatPercentage, calculatePercentage } from "@/lib/calculations";
+import { formatCurrency, formatPercentage, calculatePercentage, getTradePnL, findTradeStrategy } from "@/lib/calculations";
 import { Link } from "wouter";
 import { Badge } from "@/components/ui/badge";
+import { useAppContext } from "@/contexts/app-context";
 
 export default function RecentTrades() {
   const { trades, isLoading } = useTrades();
+  const { pnlMode } = useAppContext();
   const { strategies } = useStrategies();
   const [selectedTrade, setSelectedTrade] = useState<any>(null);
   const [isDetailModalOpen, setIsDetailModalOpen] = useState(false);
@@ -85,9 +87,9 @@ export default function RecentTrades() {
         ) : (
           <div className="space-y-3">
             {recentTrades.map((trade) => {
-              const pnl = parseFloat(trade.profitLoss?.toString() || "0");
+              const pnl = getTradePnL(trade, pnlMode);
               const percentage = trade.entryPrice && trade.exitPrice 
-                ? calculatePercentage(parseFloat(trade.entryPrice.toString()), parseFloat(trade.exitPrice.toString()))
+                ? calculatePercentage(parseFloat(trade.entryPrice.toString()), parseFloat(trade.exitPrice.toString()), trade.side)
                 : 0;
               
               const stockSymbol = trade.stockName.length > 4 
@@ -119,13 +121,13 @@ export default function RecentTrades() {
                       <div className="flex items-center justify-end mt-1">
                         <Badge 
                           variant={
-                            strategies.find(s => s.name === trade.whichSetup)?.status === "active" 
+                            findTradeStrategy(strategies, trade)?.status === "active" 
                               ? "default" 
                               : "secondary"
                           }
                           className="text-xs"
                         >
-                          {strategies.find(s => s.name === trade.whichSetup)?.status || "unknown"}
+                          {findTradeStrategy(strategies, trade)?.status || "unknown"}
                         </Badge>
                       </div>
                     )}
@@ -0,0 +1,49 @@
+import { ShieldCheck, ShieldAlert, ShieldX } from "lucide-react";
+import { useDailyRules } from "@/hooks/use-daily-rules";
+import { formatCurrency } from "@/lib/calculations";
+import { DAILY_RULE_LABELS, type DailyRuleStatus } from "@shared/guardrails";
+
+// Amber once a rule is this close to its limit
+const WARNING_RATIO = 0.8;
+
+const formatProgress = ({ rule, current, limit }: DailyRuleStatus) =>
+  rule === "dailyLoss" ? `${formatCurrency(current)} / ${formatCurrency(limit)}` : `${current} / ${limit}`;
+
+export default function RulesStatusBanner() {
+  const { status } = useDailyRules();
+
+  // Nothing to show until at least one rule is turned on in Settings
+  if (!status || status.rules.length === 0) return null;
+
+  const isBreached = status.breaches.length > 0;
+  const isWarning = !isBreached && status.rules.some(rule => rule.current >= rule.limit * WARNING_RATIO);
+
+  const tone = isBreached
+    ? "bg-red-50 border-red-200 text-red-800 dark:bg-red-900/20 dark:border-red-800 dark:text-red-300"
+    : isWarning
+      ? "bg-amber-50 border-amber-200 text-amber-800 dark:bg-amber-900/20 dark:border-amber-800 dark:text-amber-300"
+      : "bg-green-50 border-green-200 text-green-800 dark:bg-green-900/20 dark:border-green-800 dark:text-green-300";
+  const Icon = isBreached ? ShieldX : isWarning ? ShieldAlert : ShieldCheck;
+
+  return (
+    <div className={`mb-8 p-4 border rounded-lg ${tone}`}>
+      <div className="flex flex-col md:flex-row md:items-center gap-3">
+        <div className="flex items-center font-medium">
+          <Icon className="w-5 h-5 mr-2" />
+          {isBreached
+            ? "Daily rule broken. Anything you trade now is outside your rules."
+            : isWarning
+              ? "Close to a daily limit. Slow down."
+              : "Inside your daily rules"}
+        </div>
+        <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm md:ml-auto">
+          {status.rules.map((rule) => (
+            <span key={rule.rule} className={rule.breached ? "font-semibold" : ""}>
+              {DAILY_RULE_LABELS[rule.rule]}: {formatProgress(rule)}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,11 +2,14 @@ import { TrendingUp, TrendingDown, Target, Calendar } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { useTrades } from "@/hooks/use-trades";
 import { useStrategies } from "@/hooks/use-strategies";
-import { calculateTotalPnL, calculateWinRate, formatCurrency, formatPercentage } from "@/lib/calculations";
+import { calculateTotalPnL, calculateWinRate, formatCurrency, formatPercentage, applyPnLMode } from "@/lib/calculations";
 import { getTradesByDateRange } from "@/lib/calculations";
+import { useAppContext } from "@/contexts/app-context";
 
 export default function StatsCards() {
-  const { trades, isLoading } = useTrades();
+  const { trades: allTrades, isLoading } = useTrades();
+  const { pnlMode } = useAppContext();
+  const trades = applyPnLMode(allTrades, pnlMode);
   const { strategies } = useStrategies();
 
   if (isLoading) {
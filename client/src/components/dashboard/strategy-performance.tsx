@@ -6,11 +6,15 @@ import { ExternalLink } from "lucide-react";
 import { Link } from "wouter";
 import { useStrategies } from "@/hooks/use-strategies";
 import { useTrades } from "@/hooks/use-trades";
-import { calculateTotalPnL, calculateWinRate, formatCurrency, formatPercentage } from "@/lib/calculations";
+import { calculateTotalPnL, calculateWinRate, formatCurrency, formatPercentage, applyPnLMode, getStrategyTrades } from "@/lib/calculations";
+import { useAppContext } from "@/contexts/app-context";
+import type { Strategy } from "@shared/schema";
 
 export default function StrategyPerformance() {
   const { strategies, isLoading: strategiesLoading } = useStrategies();
-  const { trades, isLoading: tradesLoading } = useTrades();
+  const { trades: allTrades, isLoading: tradesLoading } = useTrades();
+  const { pnlMode } = useAppContext();
+  const trades = applyPnLMode(allTrades, pnlMode);
 
   if (strategiesLoading || tradesLoading) {
     return (
@@ -36,8 +40,8 @@ export default function StrategyPerformance() {
     );
   }
 
-  const getStrategyStats = (strategyName: string) => {
-    const strategyTrades = trades.filter(trade => trade.whichSetup === strategyName);
+  const getStrategyStats = (strategy: Strategy) => {
+    const strategyTrades = getStrategyTrades(trades, strategy);
     return {
       trades: strategyTrades.length,
       winRate: calculateWinRate(strategyTrades, strategies),
@@ -78,7 +82,7 @@ export default function StrategyPerformance() {
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {strategies.slice(0, 6).map((strategy) => {
-              const stats = getStrategyStats(strategy.name);
+              const stats = getStrategyStats(strategy);
               
               return (
                 <div
@@ -4,12 +4,15 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useTrades } from "@/hooks/use-trades";
-import { calculateTotalPnL, formatCurrency } from "@/lib/calculations";
+import { calculateTotalPnL, formatCurrency, applyPnLMode } from "@/lib/calculations";
+import { useAppContext } from "@/contexts/app-context";
 
 export default function TradingCalendar() {
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [isExpanded, setIsExpanded] = useState(false);
-  const { trades } = useTrades();
+  const { trades: allTrades } = useTrades();
+  const { pnlMode } = useAppContext();
+  const trades = applyPnLMode(allTrades, pnlMode);
 
   const year = currentMonth.getFullYear();
   const month = currentMonth.getMonth();
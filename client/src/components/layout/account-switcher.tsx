@@ -0,0 +1,31 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAppContext } from "@/contexts/app-context";
+import { useAccounts } from "@/hooks/use-accounts";
+
+const ALL_ACCOUNTS = "all";
+
+// Scopes every page and chart to one account, or aggregates them all
+export default function AccountSwitcher() {
+  const { accountId, setAccountId } = useAppContext();
+  const { accounts } = useAccounts();
+
+  // A single-account journal has nothing to switch between
+  if (accounts.length === 0) return null;
+
+  return (
+    <Select
+      value={accountId === null ? ALL_ACCOUNTS : String(accountId)}
+      onValueChange={(value) => setAccountId(value === ALL_ACCOUNTS ? null : Number(value))}
+    >
+      <SelectTrigger className="w-40 h-9" aria-label="Account">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_ACCOUNTS}>All accounts</SelectItem>
+        {accounts.map((account) => (
+          <SelectItem key={account.id} value={String(account.id)}>{account.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
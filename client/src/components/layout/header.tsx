@@ -1,7 +1,11 @@
 import { Link, useLocation } from "wouter";
-import { BarChart3 } from "lucide-react";
+import { BarChart3, LogOut, Trash2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
+import PnLModeToggle from "@/components/layout/pnl-mode-toggle";
+import AccountSwitcher from "@/components/layout/account-switcher";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
 
 const navItems = [
   { path: "/", label: "Dashboard" },
@@ -14,6 +18,7 @@ const navItems = [
 
 export default function Header() {
   const [location] = useLocation();
+  const { user, logout } = useAuth();
 
   return (
     <header className="bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 shadow-sm border-b border-border sticky top-0 z-50 transition-colors duration-300">
@@ -45,7 +50,22 @@ export default function Header() {
 
           {/* Theme Toggle and Mobile Menu */}
           <div className="flex items-center space-x-4">
+            <AccountSwitcher />
+            <PnLModeToggle />
             <ThemeToggle />
+            {user && (
+              <Button variant="ghost" size="sm" asChild title="Trash">
+                <Link href="/trash">
+                  <Trash2 className="w-4 h-4" />
+                </Link>
+              </Button>
+            )}
+            {user && (
+              <Button variant="ghost" size="sm" onClick={() => logout()} title={`Sign out ${user.username}`}>
+                <LogOut className="w-4 h-4 md:mr-2" />
+                <span className="hidden md:inline">{user.username}</span>
+              </Button>
+            )}
             <button className="md:hidden p-2 rounded-md text-muted-foreground hover:text-foreground hover:bg-accent transition-colors duration-200">
               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
@@ -0,0 +1,20 @@
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useAppContext, type PnLMode } from "@/contexts/app-context";
+
+export default function PnLModeToggle() {
+  const { pnlMode, setPnlMode } = useAppContext();
+
+  return (
+    <ToggleGroup
+      type="single"
+      size="sm"
+      variant="outline"
+      value={pnlMode}
+      onValueChange={(value) => value && setPnlMode(value as PnLMode)}
+      aria-label="P&L mode"
+    >
+      <ToggleGroupItem value="gross" title="P&L before charges">Gross</ToggleGroupItem>
+      <ToggleGroupItem value="net" title="P&L after brokerage, taxes and fees">Net</ToggleGroupItem>
+    </ToggleGroup>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { Plus, Trash2, Check, Pencil, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { useAccounts } from "@/hooks/use-accounts";
+import { useAppContext } from "@/contexts/app-context";
+
+export default function AccountsSettings() {
+  const { accounts, addAccount, updateAccount, deleteAccount, isAdding } = useAccounts();
+  const { accountId } = useAppContext();
+  const [name, setName] = useState("");
+  const [broker, setBroker] = useState("");
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editName, setEditName] = useState("");
+
+  const handleAdd = () => {
+    if (!name.trim()) return;
+    addAccount(
+      { name: name.trim(), broker: broker.trim() || null },
+      { onSuccess: () => { setName(""); setBroker(""); } },
+    );
+  };
+
+  const handleRename = (id: number) => {
+    if (!editName.trim()) return;
+    updateAccount({ id, name: editName.trim() }, { onSuccess: () => setEditingId(null) });
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle>Accounts</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Add one account per demat account, then switch between them (or view them all together) from the header.
+        </p>
+
+        {accounts.length > 0 && (
+          <div className="space-y-2">
+            {accounts.map((account) => (
+              <div key={account.id} className="flex items-center gap-2 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                {editingId === account.id ? (
+                  <>
+                    <Input value={editName} onChange={(e) => setEditName(e.target.value)} className="h-8" autoFocus />
+                    <Button size="sm" variant="ghost" onClick={() => handleRename(account.id)} aria-label="Save name">
+                      <Check className="w-4 h-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setEditingId(null)} aria-label="Cancel">
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <span className="font-medium">{account.name}</span>
+                    {account.broker && <span className="text-sm text-gray-500">{account.broker}</span>}
+                    <span className="text-xs text-gray-400">ID {account.id}</span>
+                    {account.id === accountId && <Badge variant="secondary">Selected</Badge>}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="ml-auto"
+                      onClick={() => { setEditingId(account.id); setEditName(account.name); }}
+                      aria-label="Rename account"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button size="sm" variant="ghost" aria-label="Delete account">
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete {account.name}?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Only accounts without trades can be deleted. Move or delete this account's trades first.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => deleteAccount(account.id)}>Delete</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          <Input placeholder="Account name" value={name} onChange={(e) => setName(e.target.value)} />
+          <Input placeholder="Broker (optional)" value={broker} onChange={(e) => setBroker(e.target.value)} />
+          <Button onClick={handleAdd} disabled={!name.trim() || isAdding}>
+            <Plus className="w-4 h-4 mr-2" />
+            {isAdding ? "Adding..." : "Add Account"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { Trash2, Upload } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { useBenchmarks } from "@/hooks/use-benchmarks";
+
+const SUGGESTED_SYMBOLS = ["NIFTY", "BANKNIFTY"];
+
+export default function BenchmarkSettings() {
+  const { benchmarks, importBenchmark, isImporting, deleteBenchmark } = useBenchmarks();
+  const [symbol, setSymbol] = useState("NIFTY");
+  const [csv, setCsv] = useState("");
+  const [fileInputKey, setFileInputKey] = useState(0);
+
+  const handleFile = async (file: File | undefined) => {
+    setCsv(file ? await file.text() : "");
+  };
+
+  const handleImport = () => {
+    if (!symbol.trim() || !csv) return;
+    importBenchmark(
+      { symbol: symbol.trim(), csv },
+      // Clear the picked file so the same one isn't imported twice by accident
+      { onSuccess: () => { setCsv(""); setFileInputKey(key => key + 1); } },
+    );
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle>Benchmarks</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Import daily index closes as a CSV with Date and Close columns (NSE's historical index data download works as is)
+          to compare your returns against the index in Analytics. Re-importing a symbol adds to its series and replaces closes for the same dates.
+        </p>
+
+        {benchmarks.length > 0 && (
+          <div className="space-y-2">
+            {benchmarks.map((benchmark) => (
+              <div key={benchmark.symbol} className="flex items-center gap-2 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <span className="font-medium">{benchmark.symbol}</span>
+                <span className="text-sm text-gray-500">
+                  {benchmark.closes.length} closes
+                  {benchmark.closes.length > 0 && `, ${benchmark.closes[0].date} to ${benchmark.closes[benchmark.closes.length - 1].date}`}
+                </span>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button size="sm" variant="ghost" className="ml-auto" aria-label="Delete benchmark">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete {benchmark.symbol}?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Its imported closes are removed. Import the CSV again to bring it back.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => deleteBenchmark(benchmark.symbol)}>Delete</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          <Input placeholder="Symbol" list="benchmark-symbols" value={symbol} onChange={(e) => setSymbol(e.target.value)} />
+          <datalist id="benchmark-symbols">
+            {SUGGESTED_SYMBOLS.map(suggestion => <option key={suggestion} value={suggestion} />)}
+          </datalist>
+          <Input key={fileInputKey} type="file" accept=".csv,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} />
+          <Button onClick={handleImport} disabled={!symbol.trim() || !csv || isImporting}>
+            <Upload className="w-4 h-4 mr-2" />
+            {isImporting ? "Importing..." : "Import Closes"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
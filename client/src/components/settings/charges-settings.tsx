@@ -0,0 +1,193 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Save } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
+import { useCharges } from "@/hooks/use-charges";
+import { formatCurrency } from "@/lib/calculations";
+import { BROKER_PRESETS, applyBrokerPreset, calculateCharges } from "@shared/charges";
+
+const rate = z.coerce.number().min(0, "Must be 0 or more");
+
+const chargesFormSchema = z.object({
+  preset: z.enum(["discount", "percentage", "custom"]),
+  brokerageType: z.enum(["flat", "percentage"]),
+  brokerageFlat: rate,
+  brokeragePercent: rate,
+  sttPercent: rate,
+  exchangePercent: rate,
+  sebiPerCrore: rate,
+  stampDutyPercent: rate,
+  gstPercent: rate,
+});
+
+type ChargesForm = z.infer<typeof chargesFormSchema>;
+
+const rateFields: { name: keyof ChargesForm; label: string; description: string }[] = [
+  { name: "sttPercent", label: "STT (%)", description: "Charged on the sell side" },
+  { name: "exchangePercent", label: "Exchange Charges (%)", description: "On total turnover" },
+  { name: "sebiPerCrore", label: "SEBI Fee (₹ per crore)", description: "On total turnover" },
+  { name: "stampDutyPercent", label: "Stamp Duty (%)", description: "Charged on the buy side" },
+  { name: "gstPercent", label: "GST (%)", description: "On brokerage, exchange and SEBI fees" },
+];
+
+// Worked example shown under the form so rate changes are easy to sanity check
+const example = { side: "long", entryPrice: 1000, exitPrice: 1010, quantity: 100 };
+
+export default function ChargesSettings() {
+  const { config, isLoading, saveCharges, isSaving } = useCharges();
+
+  const form = useForm<ChargesForm>({
+    resolver: zodResolver(chargesFormSchema),
+    defaultValues: config,
+  });
+
+  useEffect(() => {
+    if (!isLoading) form.reset(config);
+  }, [isLoading]);
+
+  const values = form.watch();
+  const preview = chargesFormSchema.safeParse(values);
+  const exampleCharges = preview.success ? calculateCharges(example, preview.data) : null;
+  const isCustom = values.preset === "custom";
+
+  const onPresetChange = (preset: ChargesForm["preset"]) => {
+    form.reset(applyBrokerPreset(preset, form.getValues()));
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle>Brokerage & Charges</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveCharges(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="preset"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Broker</FormLabel>
+                  <Select onValueChange={(value) => onPresetChange(value as ChargesForm["preset"])} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select broker type" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {Object.entries(BROKER_PRESETS).map(([key, preset]) => (
+                        <SelectItem key={key} value={key}>{preset.label}</SelectItem>
+                      ))}
+                      <SelectItem value="custom">Custom</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    {isCustom ? "Enter your broker's own rates" : BROKER_PRESETS[values.preset as "discount" | "percentage"]?.description}
+                  </FormDescription>
+                </FormItem>
+              )}
+            />
+
+            {isCustom && (
+              <FormField
+                control={form.control}
+                name="brokerageType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Brokerage Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="flat">Flat fee per order</SelectItem>
+                        <SelectItem value="percentage">Percentage of order value</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="brokerageFlat"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Brokerage (₹ per order)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" disabled={!isCustom || values.brokerageType !== "flat"} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="brokeragePercent"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Brokerage (%)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.001" disabled={!isCustom} {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      {values.brokerageType === "flat" ? "Flat fee is capped at this percentage (0 for none)" : "Per executed order"}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {rateFields.map((rateField) => (
+                <FormField
+                  key={rateField.name}
+                  control={form.control}
+                  name={rateField.name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{rateField.label}</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.00001" {...field} />
+                      </FormControl>
+                      <FormDescription>{rateField.description}</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
+            {exampleCharges && (
+              <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg text-sm">
+                <p className="font-medium mb-1">Example: buy 100 @ ₹1,000, sell @ ₹1,010</p>
+                <p className="text-gray-600 dark:text-gray-400">
+                  Brokerage {formatCurrency(exampleCharges.brokerage)} · STT {formatCurrency(exampleCharges.stt)} ·
+                  Exchange {formatCurrency(exampleCharges.exchange)} · SEBI {formatCurrency(exampleCharges.sebi)} ·
+                  Stamp {formatCurrency(exampleCharges.stampDuty)} · GST {formatCurrency(exampleCharges.gst)}
+                </p>
+                <p className="mt-1">
+                  Total {formatCurrency(exampleCharges.total)} on a gross profit of {formatCurrency(1000)}
+                </p>
+              </div>
+            )}
+
+            <Button type="submit" disabled={isSaving}>
+              <Save className="w-4 h-4 mr-2" />
+              {isSaving ? "Saving..." : "Save Charges"}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
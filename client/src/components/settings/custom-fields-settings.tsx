@@ -0,0 +1,146 @@
+import { useEffect } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Plus, Save, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
+import { useCustomFields } from "@/hooks/use-custom-fields";
+import { createCustomFieldId, CUSTOM_FIELD_TYPE_LABELS, parseTags } from "@shared/custom-fields";
+import { customFieldTypeSchema, type CustomField } from "@shared/schema";
+
+// Options are edited as comma separated text, the same way tags are typed on a trade
+const fieldFormSchema = z.object({
+  id: z.string(), // Empty until the field is first saved
+  label: z.string().trim().min(1, "Required"),
+  type: customFieldTypeSchema,
+  options: z.string(),
+}).refine(field => field.type !== "select" || parseTags(field.options) !== null, {
+  message: "List the options, separated by commas",
+  path: ["options"],
+});
+
+const customFieldsFormSchema = z.object({
+  fields: z.array(fieldFormSchema),
+});
+
+type CustomFieldsForm = z.infer<typeof customFieldsFormSchema>;
+
+const toFormValues = (fields: CustomField[]): CustomFieldsForm => ({
+  fields: fields.map(field => ({ ...field, options: (field.options ?? []).join(", ") })),
+});
+
+// Existing fields keep their IDs so values already on trades stay attached when a label is edited
+function toCustomFields(values: CustomFieldsForm): CustomField[] {
+  const saved: CustomField[] = [];
+  values.fields.forEach(field => {
+    saved.push({
+      id: field.id || createCustomFieldId(field.label, [...values.fields, ...saved]),
+      label: field.label,
+      type: field.type,
+      options: field.type === "select" ? parseTags(field.options) : null,
+    });
+  });
+  return saved;
+}
+
+export default function CustomFieldsSettings() {
+  const { fields: customFields, isLoading, saveFields, isSaving } = useCustomFields();
+
+  const form = useForm<CustomFieldsForm>({
+    resolver: zodResolver(customFieldsFormSchema),
+    defaultValues: toFormValues(customFields),
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "fields" });
+
+  useEffect(() => {
+    if (!isLoading) form.reset(toFormValues(customFields));
+  }, [isLoading]);
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle>Tags & Custom Fields</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveFields(toCustomFields(data)))} className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Tags can be typed freely on any trade. Custom fields add your own inputs to the trade forms, which you can then filter the Trade Log by and group Analytics by. Each field is synced to the sheet as a column of its own.
+            </p>
+
+            {fields.map((item, index) => (
+              <div key={item.id} className="grid grid-cols-12 gap-2 items-start">
+                <FormField
+                  control={form.control}
+                  name={`fields.${index}.label`}
+                  render={({ field }) => (
+                    <FormItem className="col-span-4">
+                      <FormControl>
+                        <Input placeholder="e.g., Market condition" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name={`fields.${index}.type`}
+                  render={({ field }) => (
+                    <FormItem className="col-span-3">
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {customFieldTypeSchema.options.map(type => (
+                            <SelectItem key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name={`fields.${index}.options`}
+                  render={({ field }) => (
+                    <FormItem className="col-span-4">
+                      {form.watch(`fields.${index}.type`) === "select" && (
+                        <FormControl>
+                          <Input placeholder="e.g., Trending, Range bound, Choppy" {...field} />
+                        </FormControl>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="col-span-1 flex justify-end">
+                  <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)} aria-label="Remove field">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={() => append({ id: "", label: "", type: "text", options: "" })}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Field
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                <Save className="w-4 h-4 mr-2" />
+                {isSaving ? "Saving..." : "Save Custom Fields"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,81 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Save } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
+import { useDailyRules } from "@/hooks/use-daily-rules";
+
+const limit = z.coerce.number().min(0, "Must be 0 or more");
+
+const dailyRulesFormSchema = z.object({
+  maxDailyLoss: limit,
+  maxTradesPerDay: limit.int("Must be a whole number"),
+  maxConsecutiveLosses: limit.int("Must be a whole number"),
+});
+
+type DailyRulesForm = z.infer<typeof dailyRulesFormSchema>;
+
+const ruleFields: { name: keyof DailyRulesForm; label: string; description: string; step: string }[] = [
+  { name: "maxDailyLoss", label: "Max Loss Per Day (₹)", description: "Net of charges, across the day's closed trades", step: "100" },
+  { name: "maxTradesPerDay", label: "Max Trades Per Day", description: "Open and closed trades; plans don't count", step: "1" },
+  { name: "maxConsecutiveLosses", label: "Max Consecutive Losses", description: "Losing trades in a row within the day", step: "1" },
+];
+
+export default function DailyRulesSettings() {
+  const { config, isLoading, saveRules, isSaving } = useDailyRules();
+
+  const form = useForm<DailyRulesForm>({
+    resolver: zodResolver(dailyRulesFormSchema),
+    defaultValues: config,
+  });
+
+  useEffect(() => {
+    if (!isLoading) form.reset(config);
+  }, [isLoading]);
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle>Daily Rules</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveRules(data))} className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Trades logged after a rule is broken are tagged, so analytics can compare trading inside and outside your rules. Set a limit to 0 to turn it off.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {ruleFields.map((ruleField) => (
+                <FormField
+                  key={ruleField.name}
+                  control={form.control}
+                  name={ruleField.name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{ruleField.label}</FormLabel>
+                      <FormControl>
+                        <Input type="number" step={ruleField.step} {...field} />
+                      </FormControl>
+                      <FormDescription>{ruleField.description}</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
+            <Button type="submit" disabled={isSaving}>
+              <Save className="w-4 h-4 mr-2" />
+              {isSaving ? "Saving..." : "Save Daily Rules"}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
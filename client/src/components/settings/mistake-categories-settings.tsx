@@ -0,0 +1,95 @@
+import { useEffect } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Plus, Save, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
+import { useMistakeCategories } from "@/hooks/use-mistake-categories";
+import { createMistakeId } from "@shared/mistakes";
+import type { MistakeCategory } from "@shared/schema";
+
+const mistakeCategoriesFormSchema = z.object({
+  categories: z.array(z.object({
+    id: z.string(), // Empty until the category is first saved
+    label: z.string().trim().min(1, "Required"),
+  })),
+});
+
+type MistakeCategoriesForm = z.infer<typeof mistakeCategoriesFormSchema>;
+
+// Existing categories keep their IDs so trades already tagged stay tagged when a label is edited
+function toMistakeCategories(values: MistakeCategoriesForm): MistakeCategory[] {
+  const saved: MistakeCategory[] = [];
+  values.categories.forEach(category => {
+    saved.push({
+      id: category.id || createMistakeId(category.label, [...values.categories, ...saved]),
+      label: category.label,
+    });
+  });
+  return saved;
+}
+
+export default function MistakeCategoriesSettings() {
+  const { categories, isLoading, saveCategories, isSaving } = useMistakeCategories();
+
+  const form = useForm<MistakeCategoriesForm>({
+    resolver: zodResolver(mistakeCategoriesFormSchema),
+    defaultValues: { categories },
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "categories" });
+
+  useEffect(() => {
+    if (!isLoading) form.reset({ categories });
+  }, [isLoading]);
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle>Mistake Categories</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveCategories(toMistakeCategories(data)))} className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              The recurring errors you tag trades with. Analytics counts how often each one happens and what it costs.
+            </p>
+
+            {fields.map((item, index) => (
+              <div key={item.id} className="flex items-start gap-2">
+                <FormField
+                  control={form.control}
+                  name={`categories.${index}.label`}
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormControl>
+                        <Input placeholder="e.g., Revenge trade" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)} aria-label="Remove category">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={() => append({ id: "", label: "" })}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Category
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                <Save className="w-4 h-4 mr-2" />
+                {isSaving ? "Saving..." : "Save Categories"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
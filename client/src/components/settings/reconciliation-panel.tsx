@@ -0,0 +1,145 @@
+import { GitCompare, CheckCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useReconciliation, type ReconcileItem } from "@/hooks/use-reconciliation";
+
+const entityLabels = {
+  trade: "Trade",
+  strategy: "Strategy",
+  psychologyEntry: "Psychology entry",
+};
+
+const kindLabels = {
+  sheetOnly: "Only in sheet",
+  localOnly: "Only local",
+  modified: "Changed",
+};
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
+
+function formatTime(value: string | null) {
+  if (!value) return "unknown";
+  return new Date(value).toLocaleString("en-IN", {
+    day: "2-digit",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function describe(item: ReconcileItem) {
+  const record = item.local || item.sheet;
+  if (!record) return "";
+  return record.stockName || record.name || (record.month ? `${record.month} ${record.year}` : "");
+}
+
+export default function ReconciliationPanel() {
+  const { report, runReconciliation, isRunning, resolve, isResolving } = useReconciliation();
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Sheet Reconciliation</CardTitle>
+          {report && report.items.length === 0 && (
+            <Badge variant="default" className="flex items-center space-x-1 bg-green-100 text-green-800">
+              <CheckCircle className="w-3 h-3" />
+              <span>In sync</span>
+            </Badge>
+          )}
+          {report && report.items.length > 0 && (
+            <Badge variant="secondary">{report.items.length} to review</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Pull the sheet and compare it with local data to pick up edits made directly in Google Sheets.
+          Rows with changes still waiting in the sync queue are skipped.
+        </p>
+
+        <Button type="button" variant="outline" onClick={() => runReconciliation()} disabled={isRunning}>
+          <GitCompare className={`w-4 h-4 mr-2 ${isRunning ? "animate-pulse" : ""}`} />
+          {isRunning ? "Checking..." : "Check Sheet for Changes"}
+        </Button>
+
+        {report && (
+          <p className="text-xs text-gray-500">
+            Last checked {formatTime(report.generatedAt)}: {report.checked.trades} trades,{" "}
+            {report.checked.strategies} strategies, {report.checked.psychologyEntries} psychology entries
+            {report.skipped > 0 && ` (${report.skipped} skipped)`}
+          </p>
+        )}
+
+        {report && report.items.length > 0 && (
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {report.items.map((item) => (
+              <div key={item.key} className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg text-sm space-y-2">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <span className="font-medium">{entityLabels[item.entity]} #{item.entityId}</span>
+                    <span className="text-gray-500 ml-2">{describe(item)}</span>
+                  </div>
+                  <Badge variant="outline">{kindLabels[item.kind]}</Badge>
+                </div>
+
+                {item.kind === "modified" && (
+                  <div className="grid grid-cols-3 gap-2 text-xs">
+                    <span className="text-gray-500">Field</span>
+                    <span className="text-gray-500">Local ({formatTime(item.localUpdatedAt)})</span>
+                    <span className="text-gray-500">Sheet ({formatTime(item.sheetUpdatedAt)})</span>
+                    {item.changedFields.map((field) => (
+                      <div key={field} className="contents">
+                        <span className="font-medium">{field}</span>
+                        <span className="break-words">{formatValue(item.local?.[field])}</span>
+                        <span className="break-words">{formatValue(item.sheet?.[field])}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {item.kind === "localOnly" && (
+                  <p className="text-xs text-gray-500">
+                    Missing from the sheet. Keep local to write it back, or keep the sheet to move it to the trash.
+                  </p>
+                )}
+                {item.kind === "sheetOnly" && (
+                  <p className="text-xs text-gray-500">
+                    Not in local data. Keep the sheet to import it, or keep local to remove the sheet row.
+                  </p>
+                )}
+
+                <div className="flex space-x-2">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={item.suggested === "keepLocal" ? "default" : "outline"}
+                    onClick={() => resolve({ key: item.key, resolution: "keepLocal" })}
+                    disabled={isResolving}
+                  >
+                    Keep Local
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={item.suggested === "keepSheet" ? "default" : "outline"}
+                    onClick={() => resolve({ key: item.key, resolution: "keepSheet" })}
+                    disabled={isResolving}
+                  >
+                    Keep Sheet
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
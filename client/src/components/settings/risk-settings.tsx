@@ -0,0 +1,134 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Save } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
+import { useRiskSettings } from "@/hooks/use-risk-settings";
+import { formatCurrency } from "@/lib/calculations";
+import { getRiskBudget } from "@shared/risk";
+
+const riskFormSchema = z.object({
+  accountCapital: z.coerce.number().min(0, "Must be 0 or more"),
+  riskType: z.enum(["percent", "fixed"]),
+  riskPercent: z.coerce.number().min(0, "Must be 0 or more").max(100, "Can't risk more than the whole account"),
+  riskAmount: z.coerce.number().min(0, "Must be 0 or more"),
+});
+
+type RiskForm = z.infer<typeof riskFormSchema>;
+
+export default function RiskSettings() {
+  const { config, isLoading, saveRisk, isSaving } = useRiskSettings();
+
+  const form = useForm<RiskForm>({
+    resolver: zodResolver(riskFormSchema),
+    defaultValues: config,
+  });
+
+  useEffect(() => {
+    if (!isLoading) form.reset(config);
+  }, [isLoading]);
+
+  const values = form.watch();
+  const preview = riskFormSchema.safeParse(values);
+  const budget = preview.success ? getRiskBudget(preview.data) : null;
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle>Account & Risk</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveRisk(data))} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="accountCapital"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Account Capital (₹)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="1000" {...field} />
+                    </FormControl>
+                    <FormDescription>Also caps the position size the calculator suggests</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="riskType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max Risk Per Trade</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="percent">Percent of capital</SelectItem>
+                        <SelectItem value="fixed">Fixed rupees</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>What a trade may lose if its stop loss is hit</FormDescription>
+                  </FormItem>
+                )}
+              />
+              {values.riskType === "percent" ? (
+                <FormField
+                  control={form.control}
+                  name="riskPercent"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Risk (% of capital)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.1" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="riskAmount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Risk (₹ per trade)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="100" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg text-sm">
+              {budget !== null ? (
+                <p>Each trade may risk up to <span className="font-medium">{formatCurrency(budget)}</span></p>
+              ) : (
+                <p className="text-gray-600 dark:text-gray-400">
+                  Set {values.riskType === "fixed" ? "a rupee amount" : "your account capital"} to size positions and flag oversized trades
+                </p>
+              )}
+            </div>
+
+            <Button type="submit" disabled={isSaving}>
+              <Save className="w-4 h-4 mr-2" />
+              {isSaving ? "Saving..." : "Save Risk Settings"}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
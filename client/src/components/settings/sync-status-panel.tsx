@@ -0,0 +1,122 @@
+import { RefreshCw, CheckCircle, AlertCircle, Clock } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useSyncStatus } from "@/hooks/use-sync-status";
+
+const entityLabels = {
+  trade: "Trade",
+  strategy: "Strategy",
+  psychologyEntry: "Psychology entry",
+};
+
+function formatTime(value: string | null) {
+  if (!value) return "Never";
+  return new Date(value).toLocaleString("en-IN", {
+    day: "2-digit",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function SyncStatusPanel() {
+  const { status, isLoading, retryFailed, isRetrying } = useSyncStatus();
+
+  const isIdle = status && status.pending === 0 && status.failed === 0;
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Google Sheets Sync Queue</CardTitle>
+          {status && (
+            isIdle ? (
+              <Badge variant="default" className="flex items-center space-x-1 bg-green-100 text-green-800">
+                <CheckCircle className="w-3 h-3" />
+                <span>Up to date</span>
+              </Badge>
+            ) : status.failed > 0 ? (
+              <Badge variant="destructive" className="flex items-center space-x-1">
+                <AlertCircle className="w-3 h-3" />
+                <span>{status.failed} failed</span>
+              </Badge>
+            ) : (
+              <Badge variant="secondary" className="flex items-center space-x-1">
+                <Clock className="w-3 h-3" />
+                <span>{status.pending} pending</span>
+              </Badge>
+            )
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !status ? (
+          <div className="h-16 bg-gray-200 rounded animate-pulse"></div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <p className="text-sm text-gray-600 dark:text-gray-400">Pending</p>
+                <p className="text-xl font-bold">{status.pending}</p>
+              </div>
+              <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <p className="text-sm text-gray-600 dark:text-gray-400">Failed</p>
+                <p className={`text-xl font-bold ${status.failed > 0 ? "text-loss" : ""}`}>{status.failed}</p>
+              </div>
+              <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <p className="text-sm text-gray-600 dark:text-gray-400">Last Sync</p>
+                <p className="text-sm font-medium mt-1">{formatTime(status.lastSuccessAt)}</p>
+              </div>
+            </div>
+
+            {!status.configured && status.pending > 0 && (
+              <p className="text-sm text-gray-600">
+                Changes are saved locally and will be written to the sheet once a Google Script URL is configured.
+              </p>
+            )}
+
+            {status.lastError && (
+              <p className="text-sm text-red-600 dark:text-red-400 break-words">
+                Last error: {status.lastError}
+              </p>
+            )}
+
+            {status.jobs.length > 0 && (
+              <div className="space-y-2 max-h-60 overflow-y-auto">
+                {status.jobs.map((job) => (
+                  <div key={job.key} className="flex items-center justify-between p-2 bg-gray-50 dark:bg-gray-800 rounded-lg text-sm">
+                    <div>
+                      <span className="font-medium">{entityLabels[job.entity]} #{job.entityId}</span>
+                      <span className="text-gray-500 ml-2">{job.operation}</span>
+                      {job.lastError && (
+                        <p className="text-xs text-gray-500 truncate max-w-xs" title={job.lastError}>
+                          {job.lastError}
+                        </p>
+                      )}
+                    </div>
+                    <div className="text-right">
+                      <Badge variant={job.status === "failed" ? "destructive" : "outline"}>
+                        {job.status}
+                      </Badge>
+                      {job.attempts > 0 && (
+                        <p className="text-xs text-gray-500 mt-1">{job.attempts} attempts</p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {status.failed > 0 && (
+              <Button type="button" variant="outline" onClick={() => retryFailed()} disabled={isRetrying}>
+                <RefreshCw className={`w-4 h-4 mr-2 ${isRetrying ? "animate-spin" : ""}`} />
+                Retry Failed
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,71 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { formatCurrency, formatPercentage } from "@/lib/calculations";
+import { useAppContext } from "@/contexts/app-context";
+import { getMostBrokenRules, summarizeByCompliance } from "@shared/compliance";
+import type { Trade } from "@shared/schema";
+
+// P&L by how closely trades followed their strategy's checklist, and the rules broken most
+export default function ComplianceReport({ trades }: { trades: Trade[] }) {
+  const { pnlMode } = useAppContext();
+  const buckets = summarizeByCompliance(trades, pnlMode);
+  const brokenRules = getMostBrokenRules(trades, pnlMode);
+  const scoredTrades = buckets.reduce((sum, bucket) => sum + bucket.trades, 0);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>P&L by Rule Compliance</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {scoredTrades === 0 ? (
+            <p className="text-sm text-gray-500">
+              No closed trades have been checked against a strategy's rules yet. Add rules to a strategy to start scoring trades.
+            </p>
+          ) : (
+            buckets.map((bucket) => (
+              <div key={bucket.level} className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900 dark:text-gray-100">{bucket.label}</p>
+                  <p className="text-xs text-gray-500">
+                    {bucket.trades} trade{bucket.trades === 1 ? "" : "s"} · {formatPercentage(bucket.winRate)} win rate · {formatCurrency(bucket.avgPnL)} avg
+                  </p>
+                </div>
+                <span className={`font-semibold ${bucket.totalPnL >= 0 ? "text-profit" : "text-loss"}`}>
+                  {formatCurrency(bucket.totalPnL)}
+                </span>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Most Broken Rules</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {brokenRules.length === 0 ? (
+            <p className="text-sm text-gray-500">No rules broken so far.</p>
+          ) : (
+            brokenRules.map((rule) => (
+              <div key={`${rule.strategy}:${rule.ruleId}`} className="flex items-center justify-between">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{rule.rule}</p>
+                  <p className="text-xs text-gray-500">
+                    {rule.strategy && <>{rule.strategy} · </>}
+                    Broken on {rule.broken} of {rule.checked} trade{rule.checked === 1 ? "" : "s"}
+                  </p>
+                </div>
+                <Badge variant={rule.brokenPnL < 0 ? "destructive" : "secondary"} className="ml-2 shrink-0">
+                  {formatCurrency(rule.brokenPnL)}
+                </Badge>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useFieldArray, useFormContext } from "react-hook-form";
+import { z } from "zod";
+import { Plus, Trash2, ArrowUp, ArrowDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
+import { createRuleId, RULE_PHASE_LABELS } from "@shared/compliance";
+import { strategyRulePhaseSchema } from "@shared/schema";
+
+export const ruleFormSchema = z.object({
+  id: z.string(),
+  phase: strategyRulePhaseSchema,
+  text: z.string().trim().min(1, "Required"),
+});
+
+export type RuleFormValue = z.infer<typeof ruleFormSchema>;
+
+// Must be rendered inside a <Form> whose values include a `rules` array
+export default function RuleEditor() {
+  const { control } = useFormContext<{ rules: RuleFormValue[] }>();
+  const { fields, append, remove, move } = useFieldArray({ control, name: "rules" });
+
+  // New rules land in the phase of the last one, since checklists are usually written in order
+  const addRule = () => {
+    const phase = fields.length > 0 ? fields[fields.length - 1].phase : "entry";
+    append({ id: createRuleId(), phase, text: "" });
+  };
+
+  return (
+    <div className="space-y-3">
+      {fields.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Add the rules you check before entering, while managing and when exiting. Each trade on this strategy will then be scored against them.
+        </p>
+      )}
+
+      {fields.map((item, index) => (
+        <div key={item.id} className="grid grid-cols-12 gap-2 items-start">
+          <FormField
+            control={control}
+            name={`rules.${index}.phase`}
+            render={({ field }) => (
+              <FormItem className="col-span-3">
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {strategyRulePhaseSchema.options.map(phase => (
+                      <SelectItem key={phase} value={phase}>{RULE_PHASE_LABELS[phase]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`rules.${index}.text`}
+            render={({ field }) => (
+              <FormItem className="col-span-6">
+                <FormControl>
+                  <Input placeholder="e.g., Volume above 20-day average" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className="col-span-3 flex">
+            <Button type="button" variant="ghost" size="icon" disabled={index === 0} onClick={() => move(index, index - 1)}>
+              <ArrowUp className="w-4 h-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" disabled={index === fields.length - 1} onClick={() => move(index, index + 1)}>
+              <ArrowDown className="w-4 h-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" size="sm" onClick={addRule}>
+        <Plus className="w-4 h-4 mr-2" />
+        Add rule
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { GitCompare } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatCurrency, formatPercentage, formatR } from "@/lib/calculations";
+import { useAppContext } from "@/contexts/app-context";
+import { formatDateForDisplay } from "@/utils/date-utils";
+import { compareVersions, type VersionStats } from "@shared/versioning";
+import type { Strategy, Trade } from "@shared/schema";
+
+interface VersionComparisonProps {
+  strategy: Strategy;
+  trades: Trade[]; // The strategy's own trades
+}
+
+const metrics: { label: string; value: (stats: VersionStats) => string; tone?: (stats: VersionStats) => string }[] = [
+  { label: "In use from", value: stats => formatDateForDisplay(stats.activeFrom) },
+  { label: "Rules", value: stats => String(stats.ruleCount) },
+  { label: "Closed trades", value: stats => String(stats.trades) },
+  { label: "Win rate", value: stats => formatPercentage(stats.winRate) },
+  {
+    label: "Expectancy",
+    value: stats => formatCurrency(stats.expectancy),
+    tone: stats => (stats.expectancy >= 0 ? "text-profit" : "text-loss"),
+  },
+  { label: "Expectancy (R)", value: stats => formatR(stats.expectancyR) },
+  {
+    label: "Total P&L",
+    value: stats => formatCurrency(stats.totalPnL),
+    tone: stats => (stats.totalPnL >= 0 ? "text-profit" : "text-loss"),
+  },
+  { label: "Max drawdown", value: stats => formatCurrency(-stats.maxDrawdown), tone: () => "text-loss" },
+];
+
+// Each version of a strategy side by side, so the effect of an edit shows up in the numbers
+export default function VersionComparison({ strategy, trades }: VersionComparisonProps) {
+  const { pnlMode } = useAppContext();
+  const versions = compareVersions(strategy, trades, pnlMode);
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <GitCompare className="w-4 h-4 mr-2" />
+          Compare Versions
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{strategy.name} by Version</DialogTitle>
+        </DialogHeader>
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead />
+                {versions.map(stats => (
+                  <TableHead key={stats.version} className="text-right">
+                    v{stats.version}{stats.version === strategy.version && " (current)"}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {metrics.map(metric => (
+                <TableRow key={metric.label}>
+                  <TableCell className="text-gray-600 dark:text-gray-400">{metric.label}</TableCell>
+                  {versions.map(stats => (
+                    <TableCell
+                      key={stats.version}
+                      className={`text-right font-medium ${stats.trades > 0 && metric.tone ? metric.tone(stats) : ""}`}
+                    >
+                      {metric.value(stats)}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="space-y-3">
+          {versions.map(stats => (
+            <div key={stats.version} className="text-sm">
+              <span className="font-medium text-gray-900 dark:text-gray-100">v{stats.version}: </span>
+              <span className="text-gray-600 dark:text-gray-400">{stats.description || "No description"}</span>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,88 @@
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { CustomField, CustomFieldValue } from "@shared/schema";
+
+// Numbers are held as typed until the form is submitted
+export type CustomFieldFormValues = Record<string, string | boolean>;
+
+interface CustomFieldInputsProps {
+  fields: CustomField[];
+  values: CustomFieldFormValues;
+  onChange: (values: CustomFieldFormValues) => void;
+}
+
+export function toCustomFieldFormValues(values: Record<string, CustomFieldValue> | null | undefined): CustomFieldFormValues {
+  return Object.fromEntries(
+    Object.entries(values ?? {}).map(([id, value]) => [id, typeof value === "number" ? String(value) : value]),
+  );
+}
+
+/**
+ * Values of the configured fields, ready to save. Cleared inputs are sent as
+ * blanks rather than left out, so they overwrite what the trade had; the
+ * server drops blanks before storing.
+ */
+export function toCustomFieldValues(fields: CustomField[], values: CustomFieldFormValues): Record<string, CustomFieldValue> {
+  const result: Record<string, CustomFieldValue> = {};
+  fields.forEach(field => {
+    const value = values[field.id];
+    if (value === undefined) return;
+    if (field.type === "number" && typeof value === "string") {
+      result[field.id] = value.trim() === "" || isNaN(Number(value)) ? "" : Number(value);
+    } else {
+      result[field.id] = value;
+    }
+  });
+  return result;
+}
+
+// Inputs for the custom fields configured in Settings; renders nothing until some are
+export default function CustomFieldInputs({ fields, values, onChange }: CustomFieldInputsProps) {
+  const set = (id: string, value: string | boolean) => onChange({ ...values, [id]: value });
+
+  return (
+    <>
+      {fields.map(field => {
+        const value = values[field.id];
+        const inputId = `custom-field-${field.id}`;
+
+        if (field.type === "boolean") {
+          return (
+            <div key={field.id} className="flex flex-row items-center space-x-3 rounded-md border p-4">
+              <Checkbox id={inputId} checked={value === true} onCheckedChange={(checked) => set(field.id, checked === true)} />
+              <Label htmlFor={inputId}>{field.label}</Label>
+            </div>
+          );
+        }
+
+        return (
+          <div key={field.id} className="space-y-2">
+            <Label htmlFor={inputId}>{field.label}</Label>
+            {field.type === "select" ? (
+              <Select onValueChange={(selected) => set(field.id, selected)} value={typeof value === "string" ? value : ""}>
+                <SelectTrigger id={inputId}>
+                  <SelectValue placeholder={`Select ${field.label.toLowerCase()}`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {(field.options ?? []).map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                id={inputId}
+                type={field.type === "number" ? "number" : "text"}
+                step={field.type === "number" ? "any" : undefined}
+                value={typeof value === "string" ? value : ""}
+                onChange={(e) => set(field.id, e.target.value)}
+              />
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,151 @@
+import { useFieldArray, useFormContext } from "react-hook-form";
+import { z } from "zod";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
+import { formatCurrency } from "@/lib/calculations";
+import { createFillId, summarizeFills } from "@shared/fills";
+import type { Fill } from "@shared/schema";
+
+export const fillFormSchema = z.object({
+  id: z.string(),
+  type: z.enum(["entry", "exit"]),
+  quantity: z.coerce.number().min(1, "Min 1"),
+  price: z.coerce.number().min(0.01, "Required"),
+  time: z.string().min(1, "Required"),
+});
+
+export type FillFormValue = z.infer<typeof fillFormSchema>;
+
+// datetime-local inputs want local "YYYY-MM-DDTHH:mm"; fills store ISO strings
+function toLocalInput(iso: string): string {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return "";
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+export function toFillFormValue(fill: Fill): FillFormValue {
+  return { ...fill, price: parseFloat(fill.price), time: toLocalInput(fill.time) };
+}
+
+export function toFill(value: FillFormValue): Fill {
+  return {
+    ...value,
+    price: value.price.toString(),
+    time: new Date(value.time).toISOString(),
+  };
+}
+
+interface FillEditorProps {
+  side: string;
+}
+
+// Must be rendered inside a <Form> whose values include a `fills` array
+export default function FillEditor({ side }: FillEditorProps) {
+  const { control, watch } = useFormContext<{ fills: FillFormValue[] }>();
+  const { fields, append, remove } = useFieldArray({ control, name: "fills" });
+
+  const addFill = (type: FillFormValue["type"]) => {
+    append({ id: createFillId(), type, quantity: 0, price: 0, time: toLocalInput(new Date().toISOString()) });
+  };
+
+  const parsed = z.array(fillFormSchema).safeParse(watch("fills") || []);
+  const summary = parsed.success && parsed.data.length > 0
+    ? summarizeFills(parsed.data.map(toFill), side)
+    : null;
+
+  return (
+    <div className="space-y-3">
+      {fields.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Add fills to record scaling in or out. Quantity, prices and P&L will then be calculated from them.
+        </p>
+      )}
+
+      {fields.map((item, index) => (
+        <div key={item.id} className="grid grid-cols-12 gap-2 items-start">
+          <FormField
+            control={control}
+            name={`fills.${index}.type`}
+            render={({ field }) => (
+              <FormItem className="col-span-2">
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="entry">Entry</SelectItem>
+                    <SelectItem value="exit">Exit</SelectItem>
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`fills.${index}.quantity`}
+            render={({ field }) => (
+              <FormItem className="col-span-2">
+                <FormControl>
+                  <Input type="number" placeholder="Qty" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`fills.${index}.price`}
+            render={({ field }) => (
+              <FormItem className="col-span-3">
+                <FormControl>
+                  <Input type="number" step="0.01" placeholder="Price" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`fills.${index}.time`}
+            render={({ field }) => (
+              <FormItem className="col-span-4">
+                <FormControl>
+                  <Input type="datetime-local" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="button" variant="ghost" size="icon" className="col-span-1" onClick={() => remove(index)}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex space-x-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => addFill("entry")}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add entry fill
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={() => addFill("exit")}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add exit fill
+        </Button>
+      </div>
+
+      {summary && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Avg entry {summary.avgEntryPrice !== null ? formatCurrency(summary.avgEntryPrice) : "-"} ·
+          Avg exit {summary.avgExitPrice !== null ? formatCurrency(summary.avgExitPrice) : "-"} ·
+          Realized {formatCurrency(summary.realizedPnL)} · Open {summary.openQuantity} shares
+        </p>
+      )}
+    </div>
+  );
+}
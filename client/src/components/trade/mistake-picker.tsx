@@ -0,0 +1,32 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { getMistakeLabel } from "@shared/mistakes";
+import type { MistakeCategory } from "@shared/schema";
+
+interface MistakePickerProps {
+  categories: MistakeCategory[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+// Every mistake category from Settings, plus any removed one the trade is still tagged with
+export default function MistakePicker({ categories, selected, onChange }: MistakePickerProps) {
+  const ids = [...categories.map(category => category.id), ...selected.filter(id => !categories.some(category => category.id === id))];
+
+  const toggle = (id: string, checked: boolean) => {
+    onChange(checked ? [...selected, id] : selected.filter(own => own !== id));
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <p className="text-sm font-medium">Mistakes</p>
+      <div className="grid grid-cols-2 gap-2">
+        {ids.map(id => (
+          <label key={id} className="flex items-center space-x-2 text-sm">
+            <Checkbox checked={selected.includes(id)} onCheckedChange={(checked) => toggle(id, checked === true)} />
+            <span>{getMistakeLabel(categories, id)}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
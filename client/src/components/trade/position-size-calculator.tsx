@@ -0,0 +1,76 @@
+import { useFormContext, useWatch } from "react-hook-form";
+import { Calculator, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useRiskSettings } from "@/hooks/use-risk-settings";
+import { formatCurrency } from "@/lib/calculations";
+import { getRiskUsage, suggestPositionSize } from "@shared/risk";
+
+// Fields the calculator reads from whichever trade form it sits in
+interface SizingFields {
+  side: string;
+  quantity: number;
+  entryPrice: number;
+  stopLoss?: number;
+}
+
+export default function PositionSizeCalculator() {
+  const form = useFormContext<SizingFields>();
+  const [side, quantity, entryPrice, stopLoss] = useWatch({
+    control: form.control,
+    name: ["side", "quantity", "entryPrice", "stopLoss"],
+  });
+  const { config, budget } = useRiskSettings();
+
+  const sizing = { side, entryPrice: String(entryPrice ?? ""), stopLoss: stopLoss ? String(stopLoss) : null };
+  const suggestion = suggestPositionSize(sizing, config);
+  const usage = getRiskUsage({ ...sizing, quantity: Number(quantity) || 0 }, config);
+
+  if (budget === null) {
+    return (
+      <p className="text-xs text-gray-500">
+        Set your account capital and risk per trade in Settings to get a suggested quantity.
+      </p>
+    );
+  }
+
+  return (
+    <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg text-sm space-y-2">
+      <div className="flex items-center font-medium">
+        <Calculator className="w-4 h-4 mr-2" />
+        Position Size
+        <span className="ml-auto text-gray-500 font-normal">Risk budget {formatCurrency(budget)}</span>
+      </div>
+
+      {suggestion ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <span>
+            {suggestion.quantity} shares · {formatCurrency(suggestion.riskPerShare)} risk per share ·
+            {" "}{formatCurrency(suggestion.positionValue)} position
+          </span>
+          {suggestion.limitedByCapital && (
+            <span className="text-xs text-gray-500">(limited by account capital)</span>
+          )}
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            className="ml-auto"
+            disabled={suggestion.quantity < 1 || suggestion.quantity === Number(quantity)}
+            onClick={() => form.setValue("quantity", suggestion.quantity, { shouldValidate: true })}
+          >
+            Use {suggestion.quantity}
+          </Button>
+        </div>
+      ) : (
+        <p className="text-gray-500">Enter an entry price and a stop loss on the losing side to size the position.</p>
+      )}
+
+      {usage?.overBudget && (
+        <div className="flex items-center text-amber-700 dark:text-amber-400">
+          <AlertTriangle className="w-4 h-4 mr-2" />
+          {quantity} shares risk {formatCurrency(usage.risk)}, over the {formatCurrency(usage.budget)} budget
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { buildRuleChecks, getComplianceScore, RULE_PHASE_LABELS } from "@shared/compliance";
+import { strategyRulePhaseSchema, type RuleCheck, type Strategy, type StrategyRule } from "@shared/schema";
+
+interface RuleChecklistProps {
+  rules: StrategyRule[];
+  followed: string[];
+  onChange: (followed: string[]) => void;
+}
+
+// The checklist of the strategy picked on a trade form, whose select holds strategy IDs; none when it has no rules yet
+export function getStrategyRules(strategies: Strategy[], strategyId: string | undefined): StrategyRule[] {
+  return strategies.find(strategy => String(strategy.id) === strategyId)?.rules ?? [];
+}
+
+export function getFollowedRuleIds(checks: RuleCheck[] | null | undefined): string[] {
+  return (checks ?? []).filter(check => check.followed).map(check => check.ruleId);
+}
+
+export default function RuleChecklist({ rules, followed, onChange }: RuleChecklistProps) {
+  const score = getComplianceScore(buildRuleChecks(rules, followed));
+
+  const toggle = (ruleId: string, checked: boolean) => {
+    onChange(checked ? [...followed, ruleId] : followed.filter(id => id !== ruleId));
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Rules followed</p>
+        <Badge variant={score === 100 ? "default" : score !== null && score >= 50 ? "secondary" : "destructive"}>
+          {followed.filter(id => rules.some(rule => rule.id === id)).length}/{rules.length} · {score ?? 0}%
+        </Badge>
+      </div>
+      {strategyRulePhaseSchema.options.map(phase => {
+        const phaseRules = rules.filter(rule => rule.phase === phase);
+        if (phaseRules.length === 0) return null;
+        return (
+          <div key={phase} className="space-y-2">
+            <p className="text-xs font-semibold uppercase text-gray-500">{RULE_PHASE_LABELS[phase]}</p>
+            {phaseRules.map(rule => (
+              <label key={rule.id} className="flex items-start space-x-2 text-sm">
+                <Checkbox
+                  checked={followed.includes(rule.id)}
+                  onCheckedChange={(checked) => toggle(rule.id, checked === true)}
+                />
+                <span>{rule.text}</span>
+              </label>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
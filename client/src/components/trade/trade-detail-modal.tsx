@@ -14,7 +14,9 @@ import {
   ExternalLink,
   Save,
   X,
-  AlertTriangle
+  AlertTriangle,
+  CheckCircle2,
+  XCircle
 } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
@@ -26,25 +28,73 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { useTrades } from "@/hooks/use-trades";
+import { useTradeMutations } from "@/hooks/use-trades";
 import { useStrategies } from "@/hooks/use-strategies";
-import { calculatePnL, formatCurrency, formatPercentage, calculatePercentage } from "@/lib/calculations";
+import { useRiskSettings } from "@/hooks/use-risk-settings";
+import { useAccounts } from "@/hooks/use-accounts";
+import { useCustomFields } from "@/hooks/use-custom-fields";
+import { useMistakeCategories } from "@/hooks/use-mistake-categories";
+import { calculatePnL, formatCurrency, formatPercentage, calculatePercentage, getTradePnL, getTradeRMultiple, formatR } from "@/lib/calculations";
+import { useAppContext } from "@/contexts/app-context";
 import { formatDateForDisplay, formatDateForInput, isValidDate } from "@/utils/date-utils";
+import { getTradeSide } from "@shared/pnl";
+import { getInitialRisk, getPlannedRewardRisk, getRiskUsage } from "@shared/risk";
+import { DAILY_RULE_LABELS, isOutsideRules } from "@shared/guardrails";
+import { deriveTradeFromFills, summarizeFills, validateFills } from "@shared/fills";
+import { getTradeStatus, getOpenExposure, STATUS_TRANSITIONS, TRADE_STATUS_LABELS, validateTradeStatus } from "@shared/lifecycle";
+import { buildRuleChecks, getComplianceScore } from "@shared/compliance";
+import { formatCustomFieldValue, parseTags } from "@shared/custom-fields";
+import { getMistakeLabel } from "@shared/mistakes";
+import { formatDuration, fromISTInput, getHoldingMinutes, toISTDateTime, toISTInput, validateTradeTimes, withFillTimes } from "@shared/timing";
+import type { Fill, RuleCheck } from "@shared/schema";
+import FillEditor, { fillFormSchema, toFill, toFillFormValue } from "./fill-editor";
+import TradeHistory from "./trade-history";
+import RuleChecklist, { getFollowedRuleIds, getStrategyRules } from "./rule-checklist";
+import CustomFieldInputs, { toCustomFieldFormValues, toCustomFieldValues } from "./custom-field-inputs";
+import MistakePicker from "./mistake-picker";
+import { isStaticBuild } from "@/lib/google-sheets";
 
 const tradeSchema = z.object({
   tradeDate: z.string().min(1, "Trade date is required"),
   stockName: z.string().min(1, "Stock name is required"),
+  side: z.enum(["long", "short"]).default("long"),
+  status: z.enum(["planned", "open", "closed", "cancelled"]),
   quantity: z.coerce.number().min(1, "Quantity must be at least 1"),
   entryPrice: z.coerce.number().min(0.01, "Entry price must be greater than 0"),
   exitPrice: z.coerce.number().optional(),
   stopLoss: z.coerce.number().optional(),
   targetPrice: z.coerce.number().optional(),
   setupFollowed: z.boolean().default(false),
-  whichSetup: z.string().optional(),
+  strategyId: z.string().optional(), // Strategy ID as the select holds it
+  followedRuleIds: z.array(z.string()).default([]),
   emotion: z.string().optional(),
+  tags: z.string().optional(), // Comma separated
+  customFields: z.record(z.union([z.string(), z.boolean()])).default({}),
+  mistakes: z.array(z.string()).default([]),
   notes: z.string().optional(),
   psychologyReflections: z.string().optional(),
   screenshotLink: z.string().optional(),
+  fills: z.array(fillFormSchema).default([]),
+  accountId: z.string().optional(),
+  entryTime: z.string().optional(), // datetime-local, read as IST
+  exitTime: z.string().optional(),
+}).superRefine((data, ctx) => {
+  const fills = data.fills.map(toFill);
+  const error = validateFills(fills);
+  if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["fills"], message: error });
+
+  const timesError = fills.length > 0 ? null : validateTradeTimes(fromISTInput(data.entryTime), fromISTInput(data.exitTime));
+  if (timesError) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["exitTime"], message: timesError });
+
+  const statusError = validateTradeStatus({
+    status: data.status,
+    side: data.side,
+    quantity: data.quantity,
+    entryPrice: data.entryPrice.toString(),
+    exitPrice: data.exitPrice ? data.exitPrice.toString() : null,
+    fills,
+  });
+  if (statusError) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["status"], message: statusError });
 });
 
 type TradeForm = z.infer<typeof tradeSchema>;
@@ -59,50 +109,89 @@ const emotions = ["Confident", "Neutral", "Anxious", "Excited", "Fearful", "Gree
 
 export default function TradeDetailModal({ trade, isOpen, onClose }: TradeDetailModalProps) {
   const [isEditing, setIsEditing] = useState(false);
-  const { updateTrade, deleteTrade, isUpdating, isDeleting } = useTrades();
+  const { updateTrade, deleteTrade, isUpdating, isDeleting } = useTradeMutations();
   const { strategies } = useStrategies();
+  const { config: riskConfig } = useRiskSettings();
+  const { accounts } = useAccounts();
+  const { fields: customFields } = useCustomFields();
+  const { categories: mistakeCategories } = useMistakeCategories();
+  const { pnlMode } = useAppContext();
 
   const form = useForm<TradeForm>({
     resolver: zodResolver(tradeSchema),
     defaultValues: {
       tradeDate: trade ? formatDateForInput(trade.tradeDate) : "",
       stockName: trade?.stockName || "",
+      side: getTradeSide(trade?.side),
+      status: trade ? getTradeStatus(trade) : "open",
       quantity: trade?.quantity || 0,
       entryPrice: parseFloat(trade?.entryPrice?.toString() || "0"),
       exitPrice: trade?.exitPrice ? parseFloat(trade.exitPrice.toString()) : undefined,
       stopLoss: trade?.stopLoss ? parseFloat(trade.stopLoss.toString()) : undefined,
       targetPrice: trade?.targetPrice ? parseFloat(trade.targetPrice.toString()) : undefined,
       setupFollowed: trade?.setupFollowed || false,
-      whichSetup: trade?.whichSetup || "",
+      strategyId: trade?.strategyId ? String(trade.strategyId) : "",
+      followedRuleIds: getFollowedRuleIds(trade?.ruleChecks),
       emotion: trade?.emotion || "",
+      tags: trade?.tags?.join(", ") || "",
+      customFields: toCustomFieldFormValues(trade?.customFields),
+      mistakes: trade?.mistakes || [],
       notes: trade?.notes || "",
       psychologyReflections: trade?.psychologyReflections || "",
       screenshotLink: trade?.screenshotLink || "",
+      fills: (trade?.fills || []).map(toFillFormValue),
+      accountId: trade?.accountId ? String(trade.accountId) : "",
+      entryTime: toISTInput(trade?.entryTime),
+      exitTime: toISTInput(trade?.exitTime),
     },
   });
 
+  const hasFills = (form.watch("fills") || []).length > 0;
+  const strategyRules = getStrategyRules(strategies, form.watch("strategyId"));
+
   const onSubmit = (data: TradeForm) => {
     const profitLoss = data.exitPrice 
-      ? calculatePnL(data.entryPrice, data.exitPrice, data.quantity)
+      ? calculatePnL(data.entryPrice, data.exitPrice, data.quantity, data.side)
       : 0;
 
-    const tradeData = {
+    const fills = data.fills.map(toFill);
+    const strategy = strategies.find(s => String(s.id) === data.strategyId);
+    // Checks from a strategy that has since dropped its rules are kept until the strategy changes
+    const ruleChecks = strategyRules.length > 0
+      ? buildRuleChecks(strategyRules, data.followedRuleIds)
+      : (strategy?.id ?? null) === (trade.strategyId ?? null) ? trade.ruleChecks ?? null : null;
+    const baseTrade = {
       id: trade.id,
       tradeDate: data.tradeDate,
       stockName: data.stockName.toUpperCase(),
+      side: data.side,
+      status: data.status,
       quantity: data.quantity,
       entryPrice: data.entryPrice.toString(),
       exitPrice: data.exitPrice?.toString() || null,
       stopLoss: data.stopLoss?.toString() || null,
       targetPrice: data.targetPrice?.toString() || null,
       profitLoss: profitLoss.toString(),
-      setupFollowed: data.setupFollowed,
-      whichSetup: data.whichSetup || null,
+      setupFollowed: ruleChecks ? getComplianceScore(ruleChecks) === 100 : data.setupFollowed,
+      strategyId: strategy?.id ?? null,
+      // A free-text setup with no strategy behind it is kept until a strategy is picked
+      whichSetup: strategy?.name ?? (trade.strategyId ? null : trade.whichSetup ?? null),
+      ruleChecks,
       emotion: data.emotion || null,
+      tags: parseTags(data.tags),
+      // Values of fields since removed from Settings are kept
+      customFields: { ...trade.customFields, ...toCustomFieldValues(customFields, data.customFields) },
+      mistakes: data.mistakes.length > 0 ? data.mistakes : null,
+      entryTime: fromISTInput(data.entryTime),
+      exitTime: fromISTInput(data.exitTime),
       notes: data.notes || null,
       psychologyReflections: data.psychologyReflections || null,
       screenshotLink: data.screenshotLink || null,
+      fills: fills.length > 0 ? fills : null,
+      accountId: data.accountId ? Number(data.accountId) : null,
     };
+    // The server derives these too; doing it here keeps the optimistic view consistent
+    const tradeData = withFillTimes(deriveTradeFromFills(baseTrade));
 
     updateTrade(tradeData);
     setIsEditing(false);
@@ -115,11 +204,18 @@ export default function TradeDetailModal({ trade, isOpen, onClose }: TradeDetail
 
   if (!trade) return null;
 
-  const pnl = parseFloat(trade.profitLoss?.toString() || "0");
+  const currentStatus = getTradeStatus(trade);
+  const exposure = currentStatus === "open" ? getOpenExposure(trade) : null;
+  const pnl = getTradePnL(trade, pnlMode);
+  const initialRisk = getInitialRisk(trade);
+  const riskUsage = getRiskUsage(trade, riskConfig);
+  const plannedR = getPlannedRewardRisk(trade);
+  const actualR = getTradeRMultiple(trade, pnlMode);
   const percentage = trade.entryPrice && trade.exitPrice
     ? calculatePercentage(
         parseFloat(trade.entryPrice.toString()),
-        parseFloat(trade.exitPrice.toString())
+        parseFloat(trade.exitPrice.toString()),
+        trade.side
       )
     : 0;
 
@@ -167,7 +263,10 @@ export default function TradeDetailModal({ trade, isOpen, onClose }: TradeDetail
                       <AlertDialogHeader>
                         <AlertDialogTitle>Delete Trade</AlertDialogTitle>
                         <AlertDialogDescription>
-                          Are you sure you want to delete this trade? This action cannot be undone.
+                          Are you sure you want to delete this trade?{" "}
+                          {isStaticBuild
+                            ? "It will be hidden here and marked as deleted in your sheet."
+                            : "It will be moved to the Trash, where you can restore it until it is purged."}
                         </AlertDialogDescription>
                       </AlertDialogHeader>
                       <AlertDialogFooter>
@@ -223,6 +322,54 @@ export default function TradeDetailModal({ trade, isOpen, onClose }: TradeDetail
                         </FormItem>
                       )}
                     />
+
+                    <FormField
+                      control={form.control}
+                      name="side"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Side</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select side" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="long">Long (Buy first)</SelectItem>
+                              <SelectItem value="short">Short (Sell first)</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="status"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Status</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {/* Only the saved status and the moves allowed from it */}
+                              {[currentStatus, ...STATUS_TRANSITIONS[currentStatus]].map((status) => (
+                                <SelectItem key={status} value={status}>
+                                  {TRADE_STATUS_LABELS[status]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                     
                     <FormField
                       control={form.control}
@@ -231,7 +378,7 @@ export default function TradeDetailModal({ trade, isOpen, onClose }: TradeDetail
                         <FormItem>
                           <FormLabel>Quantity</FormLabel>
                           <FormControl>
-                            <Input type="number" placeholder="100" {...field} />
+                            <Input type="number" placeholder="100" disabled={hasFills} {...field} />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
@@ -245,7 +392,7 @@ export default function TradeDetailModal({ trade, isOpen, onClose }: TradeDetail
                         <FormItem>
                           <FormLabel>Entry Price</FormLabel>
                           <FormControl>
-                            <Input type="number" step="0.01" placeholder="2450.50" {...field} />
+                            <Input type="number" step="0.01" placeholder="2450.50" disabled={hasFills} {...field} />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
@@ -259,7 +406,7 @@ export default function TradeDetailModal({ trade, isOpen, onClose }: TradeDetail
                         <FormItem>
                           <FormLabel>Exit Price</FormLabel>
                           <FormControl>
-                            <Input type="number" step="0.01" placeholder="2475.25" {...field} />
+                            <Input type="number" step="0.01" placeholder="2475.25" disabled={hasFills} {...field} />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
@@ -268,12 +415,12 @@ export default function TradeDetailModal({ trade, isOpen, onClose }: TradeDetail
                     
                     <FormField
                       control={form.control}
-                      name="stopLoss"
+                      name="entryTime"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Stop Loss</FormLabel>
+                          <FormLabel>Entry Time (IST)</FormLabel>
                           <FormControl>
-                            <Input type="number" step="0.01" placeholder="2400.00" {...field} />
+                            <Input type="datetime-local" disabled={hasFills} {...field} />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
@@ -282,12 +429,12 @@ export default function TradeDetailModal({ trade, isOpen, onClose }: TradeDetail
                     
                     <FormField
                       control={form.control}
-                      name="targetPrice"
+                      name="exitTime"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Target Price</FormLabel>
+                          <FormLabel>Exit Time (IST)</FormLabel>
                           <FormControl>
-                            <Input type="number" step="0.01" placeholder="2500.00" {...field} />
+                            <Input type="datetime-local" disabled={hasFills} {...field} />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
@@ -296,28 +443,68 @@ export default function TradeDetailModal({ trade, isOpen, onClose }: TradeDetail
                     
                     <FormField
                       control={form.control}
-                      name="setupFollowed"
+                      name="stopLoss"
                       render={({ field }) => (
-                        <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4 col-span-2">
+                        <FormItem>
+                          <FormLabel>Stop Loss</FormLabel>
                           <FormControl>
-                            <Checkbox
-                              checked={field.value}
-                              onCheckedChange={field.onChange}
-                            />
+                            <Input type="number" step="0.01" placeholder="2400.00" {...field} />
                           </FormControl>
-                          <div className="space-y-1 leading-none">
-                            <FormLabel>
-                              Setup Followed
-                            </FormLabel>
-                            <FormMessage />
-                          </div>
+                          <FormMessage />
                         </FormItem>
                       )}
                     />
                     
                     <FormField
                       control={form.control}
-                      name="whichSetup"
+                      name="targetPrice"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Target Price</FormLabel>
+                          <FormControl>
+                            <Input type="number" step="0.01" placeholder="2500.00" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    
+                    {strategyRules.length > 0 ? (
+                      <FormField
+                        control={form.control}
+                        name="followedRuleIds"
+                        render={({ field }) => (
+                          <div className="col-span-2">
+                            <RuleChecklist rules={strategyRules} followed={field.value} onChange={field.onChange} />
+                          </div>
+                        )}
+                      />
+                    ) : (
+                      <FormField
+                        control={form.control}
+                        name="setupFollowed"
+                        render={({ field }) => (
+                          <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4 col-span-2">
+                            <FormControl>
+                              <Checkbox
+                                checked={field.value}
+                                onCheckedChange={field.onChange}
+                              />
+                            </FormControl>
+                            <div className="space-y-1 leading-none">
+                              <FormLabel>
+                                Setup Followed
+                              </FormLabel>
+                              <FormMessage />
+                            </div>
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                    
+                    <FormField
+                      control={form.control}
+                      name="strategyId"
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Strategy/Setup</FormLabel>
@@ -329,7 +516,7 @@ export default function TradeDetailModal({ trade, isOpen, onClose }: TradeDetail
                             </FormControl>
                             <SelectContent>
                               {strategies.map((strategy) => (
-                                <SelectItem key={strategy.id} value={strategy.name}>
+                                <SelectItem key={strategy.id} value={String(strategy.id)}>
                                   <div className="flex items-center justify-between w-full">
                                     <span>{strategy.name}</span>
                                     <Badge 
@@ -372,6 +559,79 @@ export default function TradeDetailModal({ trade, isOpen, onClose }: TradeDetail
                         </FormItem>
                       )}
                     />
+
+                    {accounts.length > 0 && (
+                      <FormField
+                        control={form.control}
+                        name="accountId"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Account</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select account" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {accounts.map((account) => (
+                                  <SelectItem key={account.id} value={String(account.id)}>
+                                    {account.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
+                    <FormField
+                      control={form.control}
+                      name="tags"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Tags</FormLabel>
+                          <FormControl>
+                            <Input placeholder="e.g., gap up, earnings" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="customFields"
+                      render={({ field }) => (
+                        <CustomFieldInputs fields={customFields} values={field.value} onChange={field.onChange} />
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="mistakes"
+                      render={({ field }) => (
+                        <div className="col-span-2">
+                          <MistakePicker categories={mistakeCategories} selected={field.value} onChange={field.onChange} />
+                        </div>
+                      )}
+                    />
+                  </div>
+                  
+                  <div className="space-y-2">
+                    <FormLabel>Fills</FormLabel>
+                    <FillEditor side={form.watch("side")} />
+                    <FormField
+                      control={form.control}
+                      name="fills"
+                      render={() => (
+                        <FormItem>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                   </div>
                   
                   <FormField
@@ -461,10 +721,18 @@ export default function TradeDetailModal({ trade, isOpen, onClose }: TradeDetail
                         <TrendingDown className="w-8 h-8 text-red-500" />
                       )}
                     </div>
-                    <p className="text-sm text-gray-600 dark:text-gray-400">Profit & Loss</p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {pnlMode === "net" ? "Net P&L" : "Gross P&L"}
+                    </p>
                     <p className={`text-3xl font-bold ${isProfitable ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
                       {formatCurrency(pnl)}
                     </p>
+                    {trade.charges && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Gross {formatCurrency(getTradePnL(trade, "gross"))} · Charges {formatCurrency(trade.charges)}
+                        {trade.netPnL && <> · Net {formatCurrency(trade.netPnL)}</>}
+                      </p>
+                    )}
                   </div>
                   
                   <div className="text-center">
@@ -505,6 +773,49 @@ export default function TradeDetailModal({ trade, isOpen, onClose }: TradeDetail
                       </span>
                     </div>
                     
+                    {trade.accountId && accounts.some(account => account.id === trade.accountId) && (
+                      <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Account</span>
+                        <span className="text-gray-900 dark:text-gray-100">
+                          {accounts.find(account => account.id === trade.accountId)?.name}
+                        </span>
+                      </div>
+                    )}
+
+                    <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                      <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Side</span>
+                      <Badge variant={getTradeSide(trade.side) === "short" ? "destructive" : "default"}>
+                        {getTradeSide(trade.side) === "short" ? "Short" : "Long"}
+                      </Badge>
+                    </div>
+                    
+                    <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                      <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Status</span>
+                      <Badge variant={currentStatus === "closed" ? "default" : "secondary"}>
+                        {TRADE_STATUS_LABELS[currentStatus]}
+                      </Badge>
+                    </div>
+
+                    {isOutsideRules(trade) && (
+                      <div className="flex items-center justify-between p-3 bg-red-50 dark:bg-red-900/20 rounded-lg">
+                        <span className="text-sm font-medium text-red-700 dark:text-red-400">Outside Daily Rules</span>
+                        <span className="text-sm text-red-700 dark:text-red-400">
+                          {trade.ruleBreaches.map((rule: keyof typeof DAILY_RULE_LABELS) => DAILY_RULE_LABELS[rule]).join(", ")}
+                        </span>
+                      </div>
+                    )}
+                    
+                    {exposure && (
+                      <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Risk to Stop</span>
+                        <span className={exposure.riskToStop !== null && exposure.riskToStop > 0 ? "text-loss" : "text-gray-900 dark:text-gray-100"}>
+                          {exposure.riskToStop === null
+                            ? "No stop loss"
+                            : `${formatCurrency(exposure.riskToStop)} on ${exposure.openQuantity} shares`}
+                        </span>
+                      </div>
+                    )}
+                    
                     <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
                       <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Quantity</span>
                       <span className="text-gray-900 dark:text-gray-100">{trade.quantity} shares</span>
@@ -523,6 +834,18 @@ export default function TradeDetailModal({ trade, isOpen, onClose }: TradeDetail
                         {trade.exitPrice ? `₹${parseFloat(trade.exitPrice.toString()).toFixed(2)}` : "Not exited"}
                       </span>
                     </div>
+
+                    {trade.entryTime && (
+                      <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Time (IST)</span>
+                        <span className="text-gray-900 dark:text-gray-100">
+                          {toISTDateTime(trade.entryTime)?.slice(11, 16)}
+                          {" → "}
+                          {trade.exitTime ? toISTDateTime(trade.exitTime)?.slice(11, 16) : "Open"}
+                          {getHoldingMinutes(trade) !== null && <> · held {formatDuration(getHoldingMinutes(trade))}</>}
+                        </span>
+                      </div>
+                    )}
                     
                     {trade.stopLoss && (
                       <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
@@ -541,6 +864,39 @@ export default function TradeDetailModal({ trade, isOpen, onClose }: TradeDetail
                         </span>
                       </div>
                     )}
+                    
+                    {initialRisk !== null && (
+                      <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg space-y-2">
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Initial Risk (1R)</span>
+                          <span className="text-gray-900 dark:text-gray-100">{formatCurrency(initialRisk)}</span>
+                        </div>
+                        {riskUsage && (
+                          <div className="flex items-center justify-between">
+                            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Risk Budget</span>
+                            <span className={riskUsage.overBudget ? "text-loss font-medium" : "text-gray-900 dark:text-gray-100"}>
+                              {((riskUsage.risk / riskUsage.budget) * 100).toFixed(0)}% of {formatCurrency(riskUsage.budget)}
+                              {riskUsage.overBudget && " · Over budget"}
+                            </span>
+                          </div>
+                        )}
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Planned vs Actual</span>
+                          <span className="text-gray-900 dark:text-gray-100">
+                            {plannedR !== null ? formatR(plannedR) : "No target"}
+                            {" → "}
+                            <span className={actualR !== null && actualR < 0 ? "text-loss" : "text-profit"}>
+                              {actualR !== null ? formatR(actualR) : "Open"}
+                            </span>
+                          </span>
+                        </div>
+                        {plannedR !== null && actualR !== null && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            Captured {((actualR / plannedR) * 100).toFixed(0)}% of the planned reward
+                          </p>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
                 
@@ -552,7 +908,10 @@ export default function TradeDetailModal({ trade, isOpen, onClose }: TradeDetail
                       <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
                         <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Strategy</span>
                         <div className="mt-1">
-                          <Badge variant="outline">{trade.whichSetup}</Badge>
+                          <Badge variant="outline">
+                            {trade.whichSetup}
+                            {trade.strategyVersion && <span className="ml-1 text-gray-500">v{trade.strategyVersion}</span>}
+                          </Badge>
                         </div>
                       </div>
                     )}
@@ -565,19 +924,114 @@ export default function TradeDetailModal({ trade, isOpen, onClose }: TradeDetail
                         </div>
                       </div>
                     )}
+
+                    {trade.tags?.length > 0 && (
+                      <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Tags</span>
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {trade.tags.map((tag: string) => (
+                            <Badge key={tag} variant="outline">{tag}</Badge>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {trade.mistakes?.length > 0 && (
+                      <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-lg">
+                        <span className="text-sm font-medium text-red-700 dark:text-red-400">Mistakes</span>
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {trade.mistakes.map((id: string) => (
+                            <Badge key={id} variant="destructive">{getMistakeLabel(mistakeCategories, id)}</Badge>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {customFields
+                      .filter(field => trade.customFields?.[field.id] !== undefined)
+                      .map(field => (
+                        <div key={field.id} className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">{field.label}</span>
+                          <span className="text-gray-900 dark:text-gray-100">{formatCustomFieldValue(trade.customFields[field.id])}</span>
+                        </div>
+                      ))}
                     
-                    <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
-                      <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Setup Followed</span>
-                      <div className="mt-1">
-                        <Badge variant={trade.setupFollowed ? "default" : "destructive"}>
-                          {trade.setupFollowed ? "Yes" : "No"}
-                        </Badge>
+                    {trade.ruleChecks?.length > 0 ? (
+                      <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Rules Followed</span>
+                          <Badge variant={trade.setupFollowed ? "default" : "destructive"}>
+                            {getComplianceScore(trade.ruleChecks)}%
+                          </Badge>
+                        </div>
+                        <ul className="mt-2 space-y-1">
+                          {trade.ruleChecks.map((check: RuleCheck) => (
+                            <li key={check.ruleId} className="flex items-start text-sm">
+                              {check.followed
+                                ? <CheckCircle2 className="w-4 h-4 mr-2 mt-0.5 text-profit shrink-0" />
+                                : <XCircle className="w-4 h-4 mr-2 mt-0.5 text-loss shrink-0" />}
+                              <span className={check.followed ? "" : "text-gray-500"}>{check.rule}</span>
+                            </li>
+                          ))}
+                        </ul>
                       </div>
-                    </div>
+                    ) : (
+                      <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Setup Followed</span>
+                        <div className="mt-1">
+                          <Badge variant={trade.setupFollowed ? "default" : "destructive"}>
+                            {trade.setupFollowed ? "Yes" : "No"}
+                          </Badge>
+                        </div>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
 
+              {/* Fills */}
+              {trade.fills?.length > 0 && (() => {
+                const summary = summarizeFills(trade.fills, trade.side);
+                return (
+                  <>
+                    <Separator />
+                    <div>
+                      <h4 className="font-semibold text-gray-900 dark:text-gray-100 mb-2">Fills</h4>
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-gray-600 dark:text-gray-400">
+                              <th className="py-2">Type</th>
+                              <th className="py-2">Quantity</th>
+                              <th className="py-2">Price</th>
+                              <th className="py-2">Time</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {trade.fills.map((fill: Fill) => (
+                              <tr key={fill.id} className="border-t border-gray-200 dark:border-gray-700">
+                                <td className="py-2">
+                                  <Badge variant={fill.type === "entry" ? "default" : "secondary"}>
+                                    {fill.type === "entry" ? "Entry" : "Exit"}
+                                  </Badge>
+                                </td>
+                                <td className="py-2">{fill.quantity}</td>
+                                <td className="py-2">₹{parseFloat(fill.price).toFixed(2)}</td>
+                                <td className="py-2">{isValidDate(fill.time) ? new Date(fill.time).toLocaleString("en-IN") : fill.time}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                      <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+                        Realized {formatCurrency(summary.realizedPnL)} on {summary.exitQuantity} shares
+                        {summary.openQuantity > 0 && <> · {summary.openQuantity} shares still open</>}
+                      </p>
+                    </div>
+                  </>
+                );
+              })()}
+
               {/* Notes and Reflections */}
               {(trade.notes || trade.psychologyReflections) && (
                 <>
@@ -619,6 +1073,9 @@ export default function TradeDetailModal({ trade, isOpen, onClose }: TradeDetail
                   </div>
                 </>
               )}
+
+              <Separator />
+              <TradeHistory tradeId={trade.id} />
             </motion.div>
           )}
         </AnimatePresence>
@@ -0,0 +1,150 @@
+import { History, PlusCircle, Pencil, Trash2, RotateCcw, Undo2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuditHistory } from "@/hooks/use-audit";
+import { isStaticBuild } from "@/lib/google-sheets";
+import type { AuditAction, AuditEvent } from "@shared/schema";
+
+const actionLabels: Record<AuditAction, string> = {
+  create: "Created",
+  update: "Edited",
+  delete: "Moved to trash",
+  restore: "Restored",
+  purge: "Purged",
+};
+
+const actionIcons: Record<AuditAction, typeof History> = {
+  create: PlusCircle,
+  update: Pencil,
+  delete: Trash2,
+  restore: RotateCcw,
+  purge: XCircle,
+};
+
+const fieldLabels: Record<string, string> = {
+  tradeDate: "Date",
+  stockName: "Stock",
+  side: "Side",
+  quantity: "Quantity",
+  entryPrice: "Entry price",
+  exitPrice: "Exit price",
+  stopLoss: "Stop loss",
+  targetPrice: "Target",
+  profitLoss: "Gross P&L",
+  charges: "Charges",
+  netPnL: "Net P&L",
+  setupFollowed: "Setup followed",
+  whichSetup: "Strategy",
+  strategyId: "Strategy ID",
+  emotion: "Emotion",
+  tags: "Tags",
+  customFields: "Custom fields",
+  mistakes: "Mistakes",
+  notes: "Notes",
+  psychologyReflections: "Reflections",
+  screenshotLink: "Screenshot",
+  fills: "Fills",
+  status: "Status",
+  accountId: "Account",
+  ruleBreaches: "Rule breaches",
+  ruleChecks: "Rule checks",
+  complianceScore: "Compliance %",
+  strategyVersion: "Strategy version",
+  entryTime: "Entry time",
+  exitTime: "Exit time",
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value)) {
+    return value.every(item => typeof item !== "object") ? value.join(", ") : `${value.length} entries`;
+  }
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  // Custom field values, keyed by field ID
+  if (typeof value === "object") {
+    return Object.entries(value).map(([key, item]) => `${key}: ${formatValue(item)}`).join(", ");
+  }
+  return String(value);
+}
+
+function formatTime(value: Date | string) {
+  return new Date(value).toLocaleString("en-IN", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+// Sheet edits are synced in without a user behind them
+function describeActor(event: AuditEvent) {
+  if (event.userId === null) return "Google Sheets";
+  return event.username ?? `User #${event.userId}`;
+}
+
+export default function TradeHistory({ tradeId }: { tradeId: number }) {
+  const { events, isLoading, revert, isReverting } = useAuditHistory("trade", tradeId);
+
+  if (isStaticBuild) return null;
+
+  return (
+    <div>
+      <h4 className="font-semibold text-gray-900 dark:text-gray-100 mb-3 flex items-center">
+        <History className="w-4 h-4 mr-2" />
+        History
+      </h4>
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading history...</p>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-gray-500">No changes recorded for this trade yet.</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 dark:border-gray-700 space-y-4 ml-2">
+          {events.map((event) => {
+            const Icon = actionIcons[event.action];
+            // A creation lists every field, which the trade details above already show
+            const changes = event.action === "update" ? event.changes : [];
+            return (
+              <li key={event.id} className="ml-4">
+                <span className="absolute -left-2 flex items-center justify-center w-4 h-4 rounded-full bg-white dark:bg-gray-900">
+                  <Icon className="w-3.5 h-3.5 text-gray-500" />
+                </span>
+                <div className="flex items-center justify-between">
+                  <p className="text-sm">
+                    <span className="font-medium text-gray-900 dark:text-gray-100">{actionLabels[event.action]}</span>
+                    <span className="text-gray-500"> by {describeActor(event)} · {formatTime(event.at)}</span>
+                  </p>
+                  {event.action === "update" && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revert(event.id)}
+                      disabled={isReverting}
+                      title="Put back the values this edit replaced"
+                    >
+                      <Undo2 className="w-4 h-4 mr-1" />
+                      Revert
+                    </Button>
+                  )}
+                </div>
+                {changes.length > 0 && (
+                  <div className="mt-1 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+                    {changes.map((change) => (
+                      <div key={change.field} className="contents">
+                        <span className="text-gray-500">{fieldLabels[change.field] ?? change.field}</span>
+                        <span className="break-words">
+                          <span className="line-through text-gray-400">{formatValue(change.before)}</span>
+                          {" → "}
+                          <span className="text-gray-900 dark:text-gray-100">{formatValue(change.after)}</span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
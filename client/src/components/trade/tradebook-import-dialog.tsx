@@ -0,0 +1,203 @@
+import { useState } from "react";
+import { Upload, AlertTriangle } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useTradebookImport } from "@/hooks/use-tradebook-import";
+import { useAccounts } from "@/hooks/use-accounts";
+import { useAppContext } from "@/contexts/app-context";
+import { formatCurrency } from "@/lib/calculations";
+import { BROKER_LAYOUTS, type TradebookBroker } from "@shared/tradebook";
+import { TRADE_STATUS_LABELS } from "@shared/lifecycle";
+
+export default function TradebookImportDialog() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [csv, setCsv] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [broker, setBroker] = useState<TradebookBroker | "auto">("auto");
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const { preview, loadPreview, isPreviewing, resetPreview, importTrades, isImporting } = useTradebookImport();
+  const { accounts } = useAccounts();
+  const { accountId } = useAppContext();
+  // A tradebook comes from one demat account; default to the one the header is scoped to
+  const [importAccountId, setImportAccountId] = useState<string>("");
+
+  const reset = () => {
+    setCsv("");
+    setFileName("");
+    setBroker("auto");
+    setSelected(new Set());
+    setImportAccountId(accountId ? String(accountId) : "");
+    resetPreview();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setCsv(await file.text());
+    resetPreview();
+  };
+
+  const handlePreview = () => {
+    loadPreview(
+      { csv, broker: broker === "auto" ? undefined : broker },
+      {
+        // Everything except likely duplicates starts out selected
+        onSuccess: (result) => setSelected(new Set(
+          result.trades.flatMap((row, index) => row.duplicateOfId === null ? [index] : [])
+        )),
+      },
+    );
+  };
+
+  const toggle = (index: number) => {
+    const next = new Set(selected);
+    if (next.has(index)) next.delete(index); else next.add(index);
+    setSelected(next);
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    await importTrades(preview.trades
+      .filter((_, index) => selected.has(index))
+      .map(row => ({ ...row.trade, accountId: importAccountId ? Number(importAccountId) : null })));
+    reset();
+    setIsOpen(false);
+  };
+
+  const duplicates = preview?.trades.filter(row => row.duplicateOfId !== null).length ?? 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { setIsOpen(open); reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="w-4 h-4 mr-2" />
+          Import Tradebook
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Broker Tradebook</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-2">
+              <Input type="file" accept=".csv,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} />
+              {fileName && <p className="text-xs text-gray-500 mt-1">{fileName}</p>}
+            </div>
+            <Select value={broker} onValueChange={(value) => setBroker(value as TradebookBroker | "auto")}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Detect broker</SelectItem>
+                {(Object.keys(BROKER_LAYOUTS) as TradebookBroker[]).map((key) => (
+                  <SelectItem key={key} value={key}>{BROKER_LAYOUTS[key].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Buys and sells are paired into round trips per symbol and day. A position left open at the end of the day is imported as an open trade.
+          </p>
+
+          <Button onClick={handlePreview} disabled={!csv || isPreviewing}>
+            {isPreviewing ? "Reading..." : "Preview"}
+          </Button>
+
+          {preview && (
+            <>
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge variant="outline">{BROKER_LAYOUTS[preview.broker].label}</Badge>
+                <span>{preview.executions} executions → {preview.trades.length} trades</span>
+                {duplicates > 0 && <Badge variant="secondary">{duplicates} already in your journal</Badge>}
+              </div>
+
+              {preview.errors.length > 0 && (
+                <div className="p-3 bg-amber-50 dark:bg-amber-900/20 rounded-lg text-sm text-amber-700 dark:text-amber-400">
+                  <div className="flex items-center mb-1">
+                    <AlertTriangle className="w-4 h-4 mr-2" />
+                    {preview.errors.length} row{preview.errors.length === 1 ? "" : "s"} skipped
+                  </div>
+                  <ul className="list-disc list-inside">
+                    {preview.errors.slice(0, 5).map((error) => <li key={error}>{error}</li>)}
+                  </ul>
+                </div>
+              )}
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead />
+                    <TableHead>Date</TableHead>
+                    <TableHead>Stock</TableHead>
+                    <TableHead>Side</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Qty</TableHead>
+                    <TableHead>Avg Entry</TableHead>
+                    <TableHead>Avg Exit</TableHead>
+                    <TableHead>P&L</TableHead>
+                    <TableHead>Fills</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.trades.map(({ trade, duplicateOfId }, index) => {
+                    const pnl = parseFloat(trade.profitLoss || "0");
+                    return (
+                      <TableRow key={index} className={duplicateOfId !== null ? "opacity-60" : ""}>
+                        <TableCell>
+                          <Checkbox checked={selected.has(index)} onCheckedChange={() => toggle(index)} />
+                        </TableCell>
+                        <TableCell>{trade.tradeDate}</TableCell>
+                        <TableCell className="font-medium">
+                          {trade.stockName}
+                          {duplicateOfId !== null && (
+                            <Badge variant="secondary" className="ml-2 text-xs">Duplicate of #{duplicateOfId}</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>{trade.side === "short" ? "Short" : "Long"}</TableCell>
+                        <TableCell>{trade.status ? TRADE_STATUS_LABELS[trade.status] : "-"}</TableCell>
+                        <TableCell>{trade.quantity}</TableCell>
+                        <TableCell>{formatCurrency(trade.entryPrice)}</TableCell>
+                        <TableCell>{trade.exitPrice ? formatCurrency(trade.exitPrice) : "-"}</TableCell>
+                        <TableCell className={pnl >= 0 ? "text-profit" : "text-loss"}>
+                          {trade.exitPrice ? formatCurrency(pnl) : "-"}
+                        </TableCell>
+                        <TableCell>{trade.fills?.length ?? 0}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+
+              <div className="flex justify-end space-x-2">
+                {accounts.length > 0 && (
+                  <Select value={importAccountId} onValueChange={setImportAccountId}>
+                    <SelectTrigger className="w-48 mr-auto" aria-label="Import into account">
+                      <SelectValue placeholder="Import into account" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {accounts.map((account) => (
+                        <SelectItem key={account.id} value={String(account.id)}>{account.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button variant="outline" onClick={reset}>Start Over</Button>
+                <Button onClick={handleImport} disabled={selected.size === 0 || isImporting}>
+                  {isImporting ? "Importing..." : `Import ${selected.size} Trade${selected.size === 1 ? "" : "s"}`}
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
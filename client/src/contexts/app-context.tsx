@@ -1,43 +1,49 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from "react";
-import { Settings } from "@shared/schema";
+import type { PnLMode } from "@shared/pnl";
+
+export type { PnLMode };
 
 interface AppContextType {
-  settings: Settings | null;
-  updateSettings: (settings: Partial<Settings>) => void;
-  isLoading: boolean;
+  pnlMode: PnLMode;
+  setPnlMode: (mode: PnLMode) => void;
+  // null is the "all accounts" aggregate view
+  accountId: number | null;
+  setAccountId: (accountId: number | null) => void;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
 export function AppProvider({ children }: { children: ReactNode }) {
-  const [settings, setSettings] = useState<Settings | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  const [pnlMode, setPnlModeState] = useState<PnLMode>(() =>
+    localStorage.getItem("tradingDashboard_pnlMode") === "net" ? "net" : "gross"
+  );
+  const [accountId, setAccountIdState] = useState<number | null>(() => {
+    const saved = Number(localStorage.getItem("tradingDashboard_accountId"));
+    return saved > 0 ? saved : null;
+  });
 
   useEffect(() => {
-    // Load settings from localStorage or API
-    const savedSettings = localStorage.getItem("tradingDashboard_settings");
-    if (savedSettings) {
-      setSettings(JSON.parse(savedSettings));
-    } else {
-      // Default settings
-      setSettings({
-        id: 1,
-        googleSheetId: import.meta.env.VITE_GOOGLE_SHEET_ID || "",
-        googleScriptUrl: import.meta.env.VITE_GOOGLE_SCRIPT_URL || "",
-        updatedAt: new Date(),
-      });
-    }
-    setIsLoading(false);
+    // Settings live on the server now; drop the copy older versions kept here,
+    // Script URL and all
+    localStorage.removeItem("tradingDashboard_settings");
   }, []);
 
-  const updateSettings = (newSettings: Partial<Settings>) => {
-    const updated = { ...settings, ...newSettings } as Settings;
-    setSettings(updated);
-    localStorage.setItem("tradingDashboard_settings", JSON.stringify(updated));
+  const setPnlMode = (mode: PnLMode) => {
+    setPnlModeState(mode);
+    localStorage.setItem("tradingDashboard_pnlMode", mode);
+  };
+
+  const setAccountId = (id: number | null) => {
+    setAccountIdState(id);
+    if (id === null) {
+      localStorage.removeItem("tradingDashboard_accountId");
+    } else {
+      localStorage.setItem("tradingDashboard_accountId", String(id));
+    }
   };
 
   return (
-    <AppContext.Provider value={{ settings, updateSettings, isLoading }}>
+    <AppContext.Provider value={{ pnlMode, setPnlMode, accountId, setAccountId }}>
       {children}
     </AppContext.Provider>
   );
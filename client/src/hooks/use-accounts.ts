@@ -0,0 +1,84 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useAppContext } from "@/contexts/app-context";
+import { useToast } from "@/hooks/use-toast";
+import type { Account, InsertAccount } from "@shared/schema";
+
+export function useAccounts() {
+  const { accountId, setAccountId } = useAppContext();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const query = useQuery<Account[]>({
+    queryKey: ["/api/accounts"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const addAccountMutation = useMutation({
+    mutationFn: async (account: InsertAccount) => {
+      const res = await apiRequest("POST", "/api/accounts", account);
+      return res.json() as Promise<Account>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      toast({
+        title: "Success",
+        description: "Account added successfully",
+      });
+    },
+    onError,
+  });
+
+  const updateAccountMutation = useMutation({
+    mutationFn: async ({ id, ...account }: { id: number } & Partial<InsertAccount>) => {
+      const res = await apiRequest("PUT", `/api/accounts/${id}`, account);
+      return res.json() as Promise<Account>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      toast({
+        title: "Success",
+        description: "Account updated successfully",
+      });
+    },
+    onError,
+  });
+
+  const deleteAccountMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/accounts/${id}`);
+      return id;
+    },
+    onSuccess: (id) => {
+      // Don't leave every page scoped to an account that no longer exists
+      if (accountId === id) setAccountId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      toast({
+        title: "Success",
+        description: "Account deleted successfully",
+      });
+    },
+    onError,
+  });
+
+  const accounts = query.data || [];
+
+  return {
+    accounts,
+    selectedAccount: accounts.find(account => account.id === accountId) ?? null,
+    isLoading: query.isLoading,
+    addAccount: addAccountMutation.mutate,
+    updateAccount: updateAccountMutation.mutate,
+    deleteAccount: deleteAccountMutation.mutate,
+    isAdding: addAccountMutation.isPending,
+    isUpdating: updateAccountMutation.isPending,
+    isDeleting: deleteAccountMutation.isPending,
+  };
+}
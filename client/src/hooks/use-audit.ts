@@ -0,0 +1,53 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { isStaticBuild } from "@/lib/google-sheets";
+import { useToast } from "@/hooks/use-toast";
+import type { AuditEntity, AuditEvent } from "@shared/schema";
+
+// Newest first; the static build has no server keeping a log, so there is nothing to show
+export function useAuditHistory(entity: AuditEntity, entityId: number) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Under "trades" so every trade mutation refreshes a trade's history too
+  const historyKey = entity === "trade" ? ["trades", "history", entityId] : ["/api/audit", entity, entityId];
+
+  const query = useQuery<AuditEvent[]>({
+    queryKey: historyKey,
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/audit?entity=${entity}&entityId=${entityId}`);
+      return res.json();
+    },
+    enabled: !isStaticBuild,
+  });
+
+  const revertMutation = useMutation({
+    mutationFn: async (eventId: number) => {
+      await apiRequest("POST", `/api/audit/${eventId}/revert`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["trades"] });
+      queryClient.invalidateQueries({ queryKey: ["strategies"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/psychology-entries"] });
+      queryClient.invalidateQueries({ queryKey: historyKey });
+      toast({
+        title: "Reverted",
+        description: "The change was undone",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    events: query.data ?? [],
+    isLoading: query.isLoading,
+    revert: revertMutation.mutate,
+    isReverting: revertMutation.isPending,
+  };
+}
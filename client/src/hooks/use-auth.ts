@@ -0,0 +1,82 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+import { useAppContext } from "@/contexts/app-context";
+import { useToast } from "@/hooks/use-toast";
+import type { InsertUser, PublicUser } from "@shared/schema";
+
+// apiRequest errors read "401: {json body}"; show the server's explanation instead
+function describeError(error: Error): string {
+  try {
+    const body = JSON.parse(error.message.replace(/^\d+: /, ""));
+    if (typeof body.details === "string") return body.details;
+    if (Array.isArray(body.details) && body.details[0]?.message) return body.details[0].message;
+    return body.error || error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+export function useAuth() {
+  const { setAccountId } = useAppContext();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const query = useQuery<PublicUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  // Nothing cached for one user may show up for the next
+  const signedIn = (user: PublicUser | null) => {
+    queryClient.clear();
+    queryClient.setQueryData(["/api/user"], user);
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: describeError(error),
+      variant: "destructive",
+    });
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: InsertUser) => {
+      const res = await apiRequest("POST", "/api/login", credentials);
+      return res.json() as Promise<PublicUser>;
+    },
+    onSuccess: signedIn,
+    onError,
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: InsertUser) => {
+      const res = await apiRequest("POST", "/api/register", credentials);
+      return res.json() as Promise<PublicUser>;
+    },
+    onSuccess: signedIn,
+    onError,
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      // The selected account belongs to the user signing out
+      setAccountId(null);
+      signedIn(null);
+    },
+    onError,
+  });
+
+  return {
+    user: query.data ?? null,
+    isLoading: query.isLoading,
+    login: loginMutation.mutate,
+    register: registerMutation.mutate,
+    logout: logoutMutation.mutate,
+    isLoggingIn: loginMutation.isPending,
+    isRegistering: registerMutation.isPending,
+  };
+}
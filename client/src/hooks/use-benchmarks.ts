@@ -0,0 +1,67 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Benchmark } from "@shared/schema";
+
+interface BenchmarkImportResult {
+  benchmark: Benchmark;
+  imported: number;
+  errors: string[]; // Rows that were skipped
+}
+
+// Index closes imported from CSV for the equity curve overlay and the benchmark comparison
+export function useBenchmarks() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const query = useQuery<Benchmark[]>({
+    queryKey: ["/api/benchmarks"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async ({ symbol, csv }: { symbol: string; csv: string }) => {
+      const res = await apiRequest("POST", "/api/benchmarks/import", { symbol, csv });
+      return res.json() as Promise<BenchmarkImportResult>;
+    },
+    onSuccess: ({ benchmark, imported, errors }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/benchmarks"] });
+      toast({
+        title: "Success",
+        description: `Imported ${imported} close${imported === 1 ? "" : "s"} into ${benchmark.symbol}` +
+          (errors.length > 0 ? `, skipped ${errors.length} unreadable row${errors.length === 1 ? "" : "s"}` : ""),
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (symbol: string) => {
+      await apiRequest("DELETE", `/api/benchmarks/${encodeURIComponent(symbol)}`);
+      return symbol;
+    },
+    onSuccess: (symbol) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/benchmarks"] });
+      toast({
+        title: "Success",
+        description: `${symbol} deleted`,
+      });
+    },
+    onError,
+  });
+
+  return {
+    benchmarks: query.data || [],
+    isLoading: query.isLoading,
+    importBenchmark: importMutation.mutate,
+    isImporting: importMutation.isPending,
+    deleteBenchmark: deleteMutation.mutate,
+  };
+}
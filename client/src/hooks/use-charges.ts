@@ -0,0 +1,45 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ChargesConfig, PublicSettings } from "@shared/schema";
+import { DEFAULT_CHARGES_CONFIG } from "@shared/charges";
+
+// Charges settings live on the server, which computes charges for every trade
+export function useCharges() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const query = useQuery<PublicSettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (charges: ChargesConfig) => {
+      const res = await apiRequest("PUT", "/api/settings", { charges });
+      return res.json() as Promise<PublicSettings>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      // Saving recalculates charges and net P&L on every trade
+      queryClient.invalidateQueries({ queryKey: ["trades"] });
+      toast({
+        title: "Success",
+        description: "Charges updated and net P&L recalculated",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    config: query.data?.charges ?? DEFAULT_CHARGES_CONFIG,
+    isLoading: query.isLoading,
+    saveCharges: saveMutation.mutate,
+    isSaving: saveMutation.isPending,
+  };
+}
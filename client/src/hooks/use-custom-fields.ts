@@ -0,0 +1,42 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { CustomField, PublicSettings } from "@shared/schema";
+
+// The custom fields configured in Settings, shown on every trade form
+export function useCustomFields() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const settingsQuery = useQuery<PublicSettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (customFields: CustomField[]) => {
+      const res = await apiRequest("PUT", "/api/settings", { customFields });
+      return res.json() as Promise<PublicSettings>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast({
+        title: "Success",
+        description: "Custom fields saved",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    fields: settingsQuery.data?.customFields ?? [],
+    isLoading: settingsQuery.isLoading,
+    saveFields: saveMutation.mutate,
+    isSaving: saveMutation.isPending,
+  };
+}
@@ -0,0 +1,56 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { DailyRulesConfig, PublicSettings } from "@shared/schema";
+import { DEFAULT_DAILY_RULES_CONFIG, type DailyRulesStatus } from "@shared/guardrails";
+
+// Daily loss, trade count and losing streak limits, plus where today stands against them
+export function useDailyRules() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const today = new Date().toISOString().split('T')[0];
+
+  const settingsQuery = useQuery<PublicSettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  // Under the "trades" key so logging or editing a trade refreshes the banner straight away
+  const statusQuery = useQuery<DailyRulesStatus>({
+    queryKey: ["trades", "rules-status", today],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/rules/status?date=${today}`);
+      return res.json();
+    },
+    refetchInterval: 1000 * 60,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (dailyRules: DailyRulesConfig) => {
+      const res = await apiRequest("PUT", "/api/settings", { dailyRules });
+      return res.json() as Promise<PublicSettings>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["trades", "rules-status"] });
+      toast({
+        title: "Success",
+        description: "Daily rules saved",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    config: settingsQuery.data?.dailyRules ?? DEFAULT_DAILY_RULES_CONFIG,
+    status: statusQuery.data,
+    isLoading: settingsQuery.isLoading,
+    saveRules: saveMutation.mutate,
+    isSaving: saveMutation.isPending,
+  };
+}
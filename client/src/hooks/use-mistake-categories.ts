@@ -0,0 +1,43 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { MistakeCategory, PublicSettings } from "@shared/schema";
+import { getMistakeCategories } from "@shared/mistakes";
+
+// The mistake categories trades can be tagged with; the defaults until they are edited in Settings
+export function useMistakeCategories() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const settingsQuery = useQuery<PublicSettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (mistakeCategories: MistakeCategory[]) => {
+      const res = await apiRequest("PUT", "/api/settings", { mistakeCategories });
+      return res.json() as Promise<PublicSettings>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast({
+        title: "Success",
+        description: "Mistake categories saved",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    categories: getMistakeCategories(settingsQuery.data),
+    isLoading: settingsQuery.isLoading,
+    saveCategories: saveMutation.mutate,
+    isSaving: saveMutation.isPending,
+  };
+}
@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { GoogleSheetsAPI } from '@/lib/google-sheets';
-import { useAppContext } from '@/contexts/app-context';
+import { googleSheetsAPI } from '@/lib/google-sheets';
+import { trashKey } from '@/hooks/use-trash';
 
 // Psychology Entry type
 export interface PsychologyEntry {
@@ -27,33 +27,18 @@ export interface InsertPsychologyEntry {
 }
 
 export function usePsychologyEntries() {
-  const { settings } = useAppContext();
-
   return useQuery({
     queryKey: ['/api/psychology-entries'],
     queryFn: async (): Promise<PsychologyEntry[]> => {
-      if (!settings?.googleScriptUrl || !settings?.googleSheetId) {
-        return [];
-      }
-
-      const googleSheetsAPI = new GoogleSheetsAPI(settings.googleScriptUrl, settings.googleSheetId);
       return googleSheetsAPI.getPsychologyEntries();
     },
-    enabled: !!(settings?.googleScriptUrl && settings?.googleSheetId),
   });
 }
 
 export function useAddPsychologyEntry() {
   const queryClient = useQueryClient();
-  const { settings } = useAppContext();
-  
   return useMutation({
     mutationFn: async (entry: InsertPsychologyEntry): Promise<PsychologyEntry> => {
-      if (!settings?.googleScriptUrl || !settings?.googleSheetId) {
-        throw new Error('Google Sheets not configured');
-      }
-
-      const googleSheetsAPI = new GoogleSheetsAPI(settings.googleScriptUrl, settings.googleSheetId);
       return googleSheetsAPI.addPsychologyEntry(entry);
     },
     onSuccess: () => {
@@ -65,15 +50,8 @@ export function useAddPsychologyEntry() {
 // Update psychology entry hook
 export function useUpdatePsychologyEntry() {
   const queryClient = useQueryClient();
-  const { settings } = useAppContext();
-  
   return useMutation({
     mutationFn: async ({ id, ...entry }: { id: number } & Partial<InsertPsychologyEntry>): Promise<PsychologyEntry> => {
-      if (!settings?.googleScriptUrl || !settings?.googleSheetId) {
-        throw new Error('Google Sheets not configured');
-      }
-
-      const googleSheetsAPI = new GoogleSheetsAPI(settings.googleScriptUrl, settings.googleSheetId);
       return googleSheetsAPI.updatePsychologyEntry(id, entry);
     },
     onSuccess: () => {
@@ -85,19 +63,13 @@ export function useUpdatePsychologyEntry() {
 // Delete psychology entry hook
 export function useDeletePsychologyEntry() {
   const queryClient = useQueryClient();
-  const { settings } = useAppContext();
-  
   return useMutation({
     mutationFn: async (id: number): Promise<void> => {
-      if (!settings?.googleScriptUrl || !settings?.googleSheetId) {
-        throw new Error('Google Sheets not configured');
-      }
-
-      const googleSheetsAPI = new GoogleSheetsAPI(settings.googleScriptUrl, settings.googleSheetId);
       return googleSheetsAPI.deletePsychologyEntry(id);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/psychology-entries'] });
+      queryClient.invalidateQueries({ queryKey: trashKey });
     },
   });
 }
@@ -0,0 +1,95 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { SyncJob } from "@/hooks/use-sync-status";
+
+export type ReconcileResolution = "keepLocal" | "keepSheet";
+
+export interface ReconcileItem {
+  key: string;
+  entity: SyncJob["entity"];
+  entityId: number;
+  kind: "sheetOnly" | "localOnly" | "modified";
+  changedFields: string[];
+  local: Record<string, any> | null;
+  sheet: Record<string, any> | null;
+  localUpdatedAt: string | null;
+  sheetUpdatedAt: string | null;
+  suggested: ReconcileResolution;
+}
+
+export interface ReconcileReport {
+  generatedAt: string;
+  checked: { trades: number; strategies: number; psychologyEntries: number };
+  skipped: number;
+  items: ReconcileItem[];
+}
+
+const reportKey = ["/api/sync/reconcile"];
+
+export function useReconciliation() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const query = useQuery<{ report: ReconcileReport | null }>({
+    queryKey: reportKey,
+  });
+
+  const setReport = (report: ReconcileReport | null) => {
+    queryClient.setQueryData(reportKey, { report });
+  };
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/sync/reconcile");
+      return res.json() as Promise<{ report: ReconcileReport }>;
+    },
+    onSuccess: ({ report }) => {
+      setReport(report);
+      toast({
+        title: "Sheet Checked",
+        description: report.items.length === 0
+          ? "Local data and Google Sheets match"
+          : `${report.items.length} row${report.items.length === 1 ? "" : "s"} differ`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Reconciliation Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ key, resolution }: { key: string; resolution: ReconcileResolution }) => {
+      const res = await apiRequest("POST", "/api/sync/reconcile/resolve", { key, resolution });
+      return res.json() as Promise<{ resolved: ReconcileItem; report: ReconcileReport }>;
+    },
+    onSuccess: ({ report }) => {
+      setReport(report);
+      // Keeping the sheet rewrites local rows, keeping local queues sheet writes
+      queryClient.invalidateQueries({ queryKey: ["trades"] });
+      queryClient.invalidateQueries({ queryKey: ["strategies"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/psychology-entries"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sync/status"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    report: query.data?.report ?? null,
+    isLoading: query.isLoading,
+    runReconciliation: runMutation.mutate,
+    isRunning: runMutation.isPending,
+    resolve: resolveMutation.mutate,
+    isResolving: resolveMutation.isPending,
+  };
+}
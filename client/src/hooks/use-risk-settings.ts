@@ -0,0 +1,46 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { RiskConfig, PublicSettings } from "@shared/schema";
+import { DEFAULT_RISK_CONFIG, getRiskBudget } from "@shared/risk";
+
+// Account capital and the per-trade risk budget, shared by the calculator, flags and analytics
+export function useRiskSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const query = useQuery<PublicSettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (risk: RiskConfig) => {
+      const res = await apiRequest("PUT", "/api/settings", { risk });
+      return res.json() as Promise<PublicSettings>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast({
+        title: "Success",
+        description: "Risk settings saved",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const config = query.data?.risk ?? DEFAULT_RISK_CONFIG;
+
+  return {
+    config,
+    budget: getRiskBudget(config),
+    isLoading: query.isLoading,
+    saveRisk: saveMutation.mutate,
+    isSaving: saveMutation.isPending,
+  };
+}
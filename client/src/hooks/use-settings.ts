@@ -1,29 +1,43 @@
-import { useAppContext } from "@/contexts/app-context";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import type { InsertSettings, PublicSettings } from "@shared/schema";
 
+// The sheet connection is saved on the server; the Script URL can be sent but never comes back
 export function useSettings() {
-  const { settings, updateSettings, isLoading } = useAppContext();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
-  const saveSettings = (newSettings: Partial<NonNullable<typeof settings>>) => {
-    try {
-      updateSettings(newSettings);
+  const query = useQuery<PublicSettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (settings: Pick<InsertSettings, "googleSheetId" | "googleScriptUrl">) => {
+      const res = await apiRequest("PUT", "/api/settings", settings);
+      return res.json() as Promise<PublicSettings>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
       toast({
         title: "Success",
         description: "Settings saved successfully",
       });
-    } catch (error) {
+    },
+    onError: () => {
       toast({
         title: "Error",
         description: "Failed to save settings",
         variant: "destructive",
       });
-    }
-  };
+    },
+  });
 
   return {
-    settings,
-    saveSettings,
-    isLoading,
+    settings: query.data ?? null,
+    saveSettings: saveMutation.mutate,
+    saveSettingsAsync: saveMutation.mutateAsync,
+    isLoading: query.isLoading,
+    isSaving: saveMutation.isPending,
   };
 }
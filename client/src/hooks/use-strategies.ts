@@ -1,29 +1,23 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Strategy } from "@shared/schema";
-import { GoogleSheetsAPI } from "@/lib/google-sheets";
-import { useAppContext } from "@/contexts/app-context";
+import { googleSheetsAPI as api } from "@/lib/google-sheets";
 import { useToast } from "@/hooks/use-toast";
+import { trashKey } from "@/hooks/use-trash";
 
 export function useStrategies() {
-  const { settings } = useAppContext();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const api = settings ? new GoogleSheetsAPI(settings.googleScriptUrl || "", settings.googleSheetId || "") : null;
-
   const query = useQuery({
     queryKey: ["strategies"],
     queryFn: async () => {
-      if (!api) throw new Error("Google Sheets not configured");
       return api.getStrategies();
     },
-    enabled: !!api,
     staleTime: 1000 * 60 * 10, // 10 minutes
   });
 
   const addStrategyMutation = useMutation({
     mutationFn: async (strategy: Omit<Strategy, "id" | "createdAt">) => {
-      if (!api) throw new Error("Google Sheets not configured");
       return api.addStrategy(strategy);
     },
     onSuccess: () => {
@@ -44,7 +38,6 @@ export function useStrategies() {
 
   const updateStrategyMutation = useMutation({
     mutationFn: async ({ id, ...strategy }: { id: number } & Partial<Strategy>) => {
-      if (!api) throw new Error("Google Sheets not configured");
       return api.updateStrategy(id, strategy);
     },
     onSuccess: () => {
@@ -65,14 +58,14 @@ export function useStrategies() {
 
   const deleteStrategyMutation = useMutation({
     mutationFn: async (id: number) => {
-      if (!api) throw new Error("Google Sheets not configured");
       return api.deleteStrategy(id);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["strategies"] });
+      queryClient.invalidateQueries({ queryKey: trashKey });
       toast({
         title: "Success",
-        description: "Strategy deleted successfully",
+        description: "Strategy moved to trash",
       });
     },
     onError: (error) => {
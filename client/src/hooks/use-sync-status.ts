@@ -0,0 +1,65 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export interface SyncJob {
+  key: string;
+  entity: "trade" | "strategy" | "psychologyEntry";
+  entityId: number;
+  operation: "add" | "update" | "delete";
+  status: "pending" | "failed";
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SyncStatus {
+  running: boolean;
+  configured: boolean;
+  pending: number;
+  failed: number;
+  lastError: string | null;
+  lastSuccessAt: string | null;
+  jobs: SyncJob[];
+}
+
+export function useSyncStatus() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const query = useQuery<SyncStatus>({
+    queryKey: ["/api/sync/status"],
+    refetchInterval: 10000, // Outbox drains in the background
+    staleTime: 0,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/sync/retry");
+      return res.json() as Promise<{ retried: number }>;
+    },
+    onSuccess: ({ retried }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sync/status"] });
+      toast({
+        title: "Retrying",
+        description: `${retried} failed operation${retried === 1 ? "" : "s"} queued again`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    status: query.data,
+    isLoading: query.isLoading,
+    retryFailed: retryMutation.mutate,
+    isRetrying: retryMutation.isPending,
+  };
+}
@@ -0,0 +1,62 @@
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { TradePage, TradeQueryParams } from "@shared/schema";
+
+function toSearchParams(params: TradeQueryParams, cursor?: string | null): string {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== "") search.set(key, String(value));
+  });
+  if (cursor) search.set("cursor", cursor);
+  return search.toString();
+}
+
+async function fetchTradePage(params: TradeQueryParams, cursor?: string | null): Promise<TradePage> {
+  const res = await apiRequest("GET", `/api/trades?${toSearchParams(params, cursor)}`);
+  return res.json();
+}
+
+// Every page of matching trades, for exports that need more than what's been scrolled into view
+export async function fetchAllMatchingTrades(params: TradeQueryParams): Promise<TradePage["trades"]> {
+  const trades: TradePage["trades"] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await fetchTradePage({ ...params, limit: 200 }, cursor);
+    trades.push(...page.trades);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return trades;
+}
+
+// Filtering, sorting and paging happen on the server; pages load as the list is scrolled
+export function useTradeQuery(params: TradeQueryParams) {
+  // Under the "trades" key so every trade mutation refreshes the loaded pages too
+  const query = useInfiniteQuery({
+    queryKey: ["trades", "query", params],
+    queryFn: ({ pageParam }) => fetchTradePage(params, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  return {
+    trades: query.data?.pages.flatMap(page => page.trades) ?? [],
+    total: query.data?.pages[0]?.total ?? 0,
+    isLoading: query.isLoading,
+    fetchNextPage: query.fetchNextPage,
+    hasNextPage: query.hasNextPage,
+    isFetchingNextPage: query.isFetchingNextPage,
+  };
+}
+
+// Tags across every trade in the account, so the tag filter offers more than the loaded pages
+export function useTradeTags(accountId?: number) {
+  const query = useQuery({
+    queryKey: ["trades", "tags", accountId ?? null],
+    queryFn: async (): Promise<string[]> => {
+      const res = await apiRequest("GET", `/api/trades/tags?${toSearchParams({ accountId })}`);
+      return res.json();
+    },
+  });
+
+  return query.data ?? [];
+}
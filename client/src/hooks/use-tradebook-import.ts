@@ -0,0 +1,63 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { InsertTrade, Trade } from "@shared/schema";
+import type { TradebookBroker } from "@shared/tradebook";
+
+export interface TradebookPreview {
+  broker: TradebookBroker;
+  executions: number;
+  trades: { trade: InsertTrade; duplicateOfId: number | null }[];
+  errors: string[];
+}
+
+// Parsing and duplicate checks run on the server against the stored trades
+export function useTradebookImport() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const previewMutation = useMutation({
+    mutationFn: async ({ csv, broker }: { csv: string; broker?: TradebookBroker }) => {
+      const res = await apiRequest("POST", "/api/trades/import/preview", { csv, broker });
+      return res.json() as Promise<TradebookPreview>;
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't Read Tradebook",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (trades: InsertTrade[]) => {
+      const res = await apiRequest("POST", "/api/trades/import", { trades });
+      return res.json() as Promise<{ imported: number; trades: Trade[] }>;
+    },
+    onSuccess: ({ imported }) => {
+      queryClient.invalidateQueries({ queryKey: ["trades"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sync/status"] });
+      toast({
+        title: "Success",
+        description: `Imported ${imported} trade${imported === 1 ? "" : "s"}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    preview: previewMutation.data ?? null,
+    loadPreview: previewMutation.mutate,
+    isPreviewing: previewMutation.isPending,
+    resetPreview: previewMutation.reset,
+    importTrades: importMutation.mutateAsync,
+    isImporting: importMutation.isPending,
+  };
+}
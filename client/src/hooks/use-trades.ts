@@ -1,29 +1,45 @@
+import { createElement, type ReactElement } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Trade } from "@shared/schema";
-import { GoogleSheetsAPI } from "@/lib/google-sheets";
+import { googleSheetsAPI as api, isStaticBuild } from "@/lib/google-sheets";
+import { apiRequest } from "@/lib/queryClient";
+import { ToastAction } from "@/components/ui/toast";
+import { trashKey } from "@/hooks/use-trash";
 import { useAppContext } from "@/contexts/app-context";
 import { useToast } from "@/hooks/use-toast";
 
-export function useTrades() {
-  const { settings } = useAppContext();
-  const { toast } = useToast();
-  const queryClient = useQueryClient();
+// Trades in the account picked in the header; every trade when viewing all accounts
+function inAccount(trades: Trade[], accountId: number | null): Trade[] {
+  return accountId === null ? trades : trades.filter(trade => trade.accountId === accountId);
+}
 
-  const api = settings ? new GoogleSheetsAPI(settings.googleScriptUrl || "", settings.googleSheetId || "") : null;
+export function useTrades() {
+  const { accountId } = useAppContext();
+  const mutations = useTradeMutations();
 
   const query = useQuery({
     queryKey: ["trades"],
     queryFn: async () => {
-      if (!api) throw new Error("Google Sheets not configured");
       return api.getTrades();
     },
-    enabled: !!api,
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
 
+  return {
+    trades: inAccount(query.data || [], accountId),
+    isLoading: query.isLoading,
+    error: query.error,
+    ...mutations,
+  };
+}
+
+// Adding, editing and deleting without loading every trade, for pages that page through the server
+export function useTradeMutations() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
   const addTradeMutation = useMutation({
     mutationFn: async (trade: Omit<Trade, "id" | "createdAt">) => {
-      if (!api) throw new Error("Google Sheets not configured");
       return api.addTrade(trade);
     },
     onSuccess: () => {
@@ -44,7 +60,6 @@ export function useTrades() {
 
   const updateTradeMutation = useMutation({
     mutationFn: async ({ id, ...trade }: { id: number } & Partial<Trade>) => {
-      if (!api) throw new Error("Google Sheets not configured");
       return api.updateTrade(id, trade);
     },
     onSuccess: () => {
@@ -63,16 +78,43 @@ export function useTrades() {
     },
   });
 
+  // Takes a just-deleted trade back out of the trash
+  const restoreTradeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/trash/trade/${id}/restore`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["trades"] });
+      queryClient.invalidateQueries({ queryKey: trashKey });
+      toast({
+        title: "Success",
+        description: "Trade restored",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const deleteTradeMutation = useMutation({
     mutationFn: async (id: number) => {
-      if (!api) throw new Error("Google Sheets not configured");
       return api.deleteTrade(id);
     },
-    onSuccess: () => {
+    onSuccess: (_result, id) => {
       queryClient.invalidateQueries({ queryKey: ["trades"] });
+      queryClient.invalidateQueries({ queryKey: trashKey });
       toast({
         title: "Success",
-        description: "Trade deleted successfully",
+        description: "Trade moved to trash",
+        action: isStaticBuild ? undefined : createElement(
+          ToastAction,
+          { altText: "Undo delete", onClick: () => restoreTradeMutation.mutate(id) },
+          "Undo",
+        ) as ReactElement,
       });
     },
     onError: (error) => {
@@ -85,9 +127,6 @@ export function useTrades() {
   });
 
   return {
-    trades: query.data || [],
-    isLoading: query.isLoading,
-    error: query.error,
     addTrade: addTradeMutation.mutate,
     updateTrade: updateTradeMutation.mutate,
     deleteTrade: deleteTradeMutation.mutate,
@@ -98,17 +137,15 @@ export function useTrades() {
 }
 
 export function useTradesByDate(date: string) {
-  const { settings } = useAppContext();
+  const { accountId } = useAppContext();
   
-  const api = settings ? new GoogleSheetsAPI(settings.googleScriptUrl || "", settings.googleSheetId || "") : null;
-
   return useQuery({
     queryKey: ["trades", "date", date],
     queryFn: async () => {
-      if (!api) throw new Error("Google Sheets not configured");
       return api.getTradesByDate(date);
     },
-    enabled: !!api && !!date,
+    select: (trades: Trade[]) => inAccount(trades, accountId),
+    enabled: !!date,
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
 }
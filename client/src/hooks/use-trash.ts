@@ -0,0 +1,94 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { isStaticBuild } from "@/lib/google-sheets";
+import { useToast } from "@/hooks/use-toast";
+import type { AuditEntity, TrashContents } from "@shared/schema";
+
+export const trashKey = ["/api/trash"];
+
+// Deleted trades, strategies and psychology entries, kept on the server until purged
+export function useTrash() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const query = useQuery<TrashContents>({
+    queryKey: trashKey,
+    enabled: !isStaticBuild,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async ({ entity, id }: { entity: AuditEntity; id: number }) => {
+      await apiRequest("POST", `/api/trash/${entity}/${id}/restore`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: trashKey });
+      queryClient.invalidateQueries({ queryKey: ["trades"] });
+      queryClient.invalidateQueries({ queryKey: ["strategies"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/psychology-entries"] });
+      toast({
+        title: "Success",
+        description: "Restored from trash",
+      });
+    },
+    onError,
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async ({ entity, id }: { entity: AuditEntity; id: number }) => {
+      await apiRequest("DELETE", `/api/trash/${entity}/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: trashKey });
+      toast({
+        title: "Success",
+        description: "Deleted permanently",
+      });
+    },
+    onError,
+  });
+
+  const emptyMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/trash");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: trashKey });
+      toast({
+        title: "Success",
+        description: "Trash emptied",
+      });
+    },
+    onError,
+  });
+
+  // Retention is a deployment-wide setting, saved with the rest of the settings, so only the admin can change it
+  const retentionMutation = useMutation({
+    mutationFn: async (trashRetentionDays: number) => {
+      await apiRequest("PUT", "/api/settings", { trashRetentionDays });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: trashKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+    },
+    onError,
+  });
+
+  return {
+    trash: query.data ?? null,
+    isLoading: query.isLoading,
+    restore: restoreMutation.mutate,
+    purge: purgeMutation.mutate,
+    emptyTrash: emptyMutation.mutate,
+    setRetentionDays: retentionMutation.mutate,
+    isRestoring: restoreMutation.isPending,
+    isPurging: purgeMutation.isPending || emptyMutation.isPending,
+  };
+}
@@ -1,22 +1,55 @@
-import { Trade } from "@shared/schema";
+import { Trade, RiskConfig, Strategy } from "@shared/schema";
+import { computePnL, computeReturnPercent, getTradePnL, type PnLMode } from "@shared/pnl";
+import { isClosedTrade } from "@shared/lifecycle";
+import { getRMultiple, getRiskUsage } from "@shared/risk";
+import { isOutsideRules } from "@shared/guardrails";
 
-// Helper function to check if a strategy is active
-export function isActiveStrategy(strategies: any[], strategyName: string | null): boolean {
-  if (!strategyName) return false;
-  const strategy = strategies.find(s => s.name === strategyName);
-  return strategy?.status === "active";
+export { getTradePnL };
+
+// The trade's strategy by ID; trades saved before IDs were linked fall back to the name
+export function findTradeStrategy<S extends Pick<Strategy, "id" | "name">>(
+  strategies: S[],
+  trade: Pick<Trade, "strategyId" | "whichSetup">,
+): S | undefined {
+  if (trade.strategyId) return strategies.find(s => s.id === trade.strategyId);
+  return trade.whichSetup ? strategies.find(s => s.name === trade.whichSetup) : undefined;
+}
+
+export function getStrategyTrades(trades: Trade[], strategy: Pick<Strategy, "id" | "name">): Trade[] {
+  return trades.filter(trade => findTradeStrategy([strategy], trade) !== undefined);
+}
+
+// Helper function to check if a trade's strategy is active
+export function isActiveStrategy(strategies: Strategy[], trade: Pick<Trade, "strategyId" | "whichSetup">): boolean {
+  return findTradeStrategy(strategies, trade)?.status === "active";
 }
 
 // Filter trades to only include those with active strategies
-export function getActiveStrategyTrades(trades: Trade[], strategies: any[]): Trade[] {
+export function getActiveStrategyTrades(trades: Trade[], strategies: Strategy[]): Trade[] {
   return trades.filter(trade => {
     // If no strategy assigned, include in calculations
     if (!trade.whichSetup) return true;
     // Only include if strategy is active
-    return isActiveStrategy(strategies, trade.whichSetup);
+    return isActiveStrategy(strategies, trade);
   });
 }
-export function calculatePnL(entryPrice: number, exitPrice: number, quantity: number): number {
+
+// Only closed trades have a final P&L; open, planned and cancelled ones stay out of the stats
+export function getClosedTrades(trades: Trade[]): Trade[] {
+  return trades.filter(isClosedTrade);
+}
+
+function getStatTrades(trades: Trade[], strategies?: any[]): Trade[] {
+  const closedTrades = getClosedTrades(trades);
+  return strategies ? getActiveStrategyTrades(closedTrades, strategies) : closedTrades;
+}
+// Swap profitLoss for the selected P&L so every stat and chart reading it follows the toggle
+export function applyPnLMode(trades: Trade[], mode: PnLMode): Trade[] {
+  if (mode === "gross") return trades;
+  return trades.map(trade => ({ ...trade, profitLoss: getTradePnL(trade, "net").toString() }));
+}
+
+export function calculatePnL(entryPrice: number, exitPrice: number, quantity: number, side?: string | null): number {
   // Handle string inputs and convert to numbers
   const entry = typeof entryPrice === 'string' ? parseFloat(entryPrice) : entryPrice;
   const exit = typeof exitPrice === 'string' ? parseFloat(exitPrice) : exitPrice;
@@ -27,18 +60,19 @@ export function calculatePnL(entryPrice: number, exitPrice: number, quantity: nu
     return 0;
   }
   
-  return (exit - entry) * qty;
+  // Shorts profit when the price falls
+  return computePnL(side, entry, exit, qty);
 }
 
-export function calculatePercentage(entryPrice: number, exitPrice: number): number {
-  return ((exitPrice - entryPrice) / entryPrice) * 100;
+export function calculatePercentage(entryPrice: number, exitPrice: number, side?: string | null): number {
+  return computeReturnPercent(side, entryPrice, exitPrice);
 }
 
 export function calculateWinRate(trades: Trade[], strategies?: any[]): number {
   if (trades.length === 0) return 0;
   
-  // Filter to only active strategy trades if strategies provided
-  const activeTrades = strategies ? getActiveStrategyTrades(trades, strategies) : trades;
+  // Filter to closed, active strategy trades
+  const activeTrades = getStatTrades(trades, strategies);
   if (activeTrades.length === 0) return 0;
   
   const winningTrades = activeTrades.filter(trade => {
@@ -50,7 +84,8 @@ export function calculateWinRate(trades: Trade[], strategies?: any[]): number {
       pnl = calculatePnL(
         parseFloat(trade.entryPrice.toString()),
         parseFloat(trade.exitPrice.toString()),
-        parseFloat(trade.quantity.toString())
+        parseFloat(trade.quantity.toString()),
+        trade.side
       );
     }
     return pnl > 0;
@@ -60,8 +95,8 @@ export function calculateWinRate(trades: Trade[], strategies?: any[]): number {
 }
 
 export function calculateTotalPnL(trades: Trade[], strategies?: any[]): number {
-  // Filter to only active strategy trades if strategies provided
-  const activeTrades = strategies ? getActiveStrategyTrades(trades, strategies) : trades;
+  // Filter to closed, active strategy trades
+  const activeTrades = getStatTrades(trades, strategies);
   
   return activeTrades.reduce((total, trade) => {
     // First try to use profitLoss field if it exists and is valid
@@ -77,7 +112,8 @@ export function calculateTotalPnL(trades: Trade[], strategies?: any[]): number {
       const calculatedPnL = calculatePnL(
         parseFloat(trade.entryPrice.toString()),
         parseFloat(trade.exitPrice.toString()), 
-        parseFloat(trade.quantity.toString())
+        parseFloat(trade.quantity.toString()),
+        trade.side
       );
       return total + calculatedPnL;
     }
@@ -87,7 +123,7 @@ export function calculateTotalPnL(trades: Trade[], strategies?: any[]): number {
 }
 
 export function calculateAverageWin(trades: Trade[], strategies?: any[]): number {
-  const activeTrades = strategies ? getActiveStrategyTrades(trades, strategies) : trades;
+  const activeTrades = getStatTrades(trades, strategies);
   
   const winningTrades = activeTrades.filter(trade => 
     trade.profitLoss && parseFloat(trade.profitLoss.toString()) > 0
@@ -103,7 +139,7 @@ export function calculateAverageWin(trades: Trade[], strategies?: any[]): number
 }
 
 export function calculateAverageLoss(trades: Trade[], strategies?: any[]): number {
-  const activeTrades = strategies ? getActiveStrategyTrades(trades, strategies) : trades;
+  const activeTrades = getStatTrades(trades, strategies);
   
   const losingTrades = activeTrades.filter(trade => 
     trade.profitLoss && parseFloat(trade.profitLoss.toString()) < 0
@@ -119,7 +155,7 @@ export function calculateAverageLoss(trades: Trade[], strategies?: any[]): numbe
 }
 
 export function calculateMaxDrawdown(trades: Trade[], strategies?: any[]): number {
-  const activeTrades = strategies ? getActiveStrategyTrades(trades, strategies) : trades;
+  const activeTrades = getStatTrades(trades, strategies);
   
   let peak = 0;
   let maxDrawdown = 0;
@@ -180,8 +216,21 @@ export function groupTradesByStrategy(trades: Trade[]): Record<string, Trade[]>
   }, {} as Record<string, Trade[]>);
 }
 
+// Keyed by mistake category ID; a trade with several mistakes is counted under each
+export function groupTradesByMistake(trades: Trade[]): Record<string, Trade[]> {
+  return trades.reduce((groups, trade) => {
+    (trade.mistakes ?? []).forEach(mistake => {
+      if (!groups[mistake]) {
+        groups[mistake] = [];
+      }
+      groups[mistake].push(trade);
+    });
+    return groups;
+  }, {} as Record<string, Trade[]>);
+}
+
 export function calculateProfitFactor(trades: Trade[], strategies?: any[]): number {
-  const activeTrades = strategies ? getActiveStrategyTrades(trades, strategies) : trades;
+  const activeTrades = getStatTrades(trades, strategies);
   
   const winningTrades = activeTrades.filter(trade => {
     let pnl = 0;
@@ -191,7 +240,8 @@ export function calculateProfitFactor(trades: Trade[], strategies?: any[]): numb
       pnl = calculatePnL(
         parseFloat(trade.entryPrice.toString()),
         parseFloat(trade.exitPrice.toString()),
-        parseFloat(trade.quantity.toString())
+        parseFloat(trade.quantity.toString()),
+        trade.side
       );
     }
     return pnl > 0;
@@ -205,7 +255,8 @@ export function calculateProfitFactor(trades: Trade[], strategies?: any[]): numb
       pnl = calculatePnL(
         parseFloat(trade.entryPrice.toString()),
         parseFloat(trade.exitPrice.toString()),
-        parseFloat(trade.quantity.toString())
+        parseFloat(trade.quantity.toString()),
+        trade.side
       );
     }
     return pnl < 0;
@@ -219,7 +270,8 @@ export function calculateProfitFactor(trades: Trade[], strategies?: any[]): numb
       pnl = calculatePnL(
         parseFloat(trade.entryPrice.toString()),
         parseFloat(trade.exitPrice.toString()),
-        parseFloat(trade.quantity.toString())
+        parseFloat(trade.quantity.toString()),
+        trade.side
       );
     }
     return total + Math.abs(pnl);
@@ -233,7 +285,8 @@ export function calculateProfitFactor(trades: Trade[], strategies?: any[]): numb
       pnl = calculatePnL(
         parseFloat(trade.entryPrice.toString()),
         parseFloat(trade.exitPrice.toString()),
-        parseFloat(trade.quantity.toString())
+        parseFloat(trade.quantity.toString()),
+        trade.side
       );
     }
     return total + Math.abs(pnl);
@@ -241,3 +294,85 @@ export function calculateProfitFactor(trades: Trade[], strategies?: any[]): numb
   
   return totalLosses === 0 ? (totalProfits > 0 ? totalProfits : 0) : totalProfits / totalLosses;
 }
+
+// R-multiple of a closed trade; null while it's still open or when it had no valid stop loss
+export function getTradeRMultiple(trade: Trade, mode: PnLMode = "gross"): number | null {
+  if (!isClosedTrade(trade)) return null;
+  return getRMultiple(trade, getTradePnL(trade, mode));
+}
+
+// Average R per trade, i.e. what each unit of risk has returned; null when no trade had a stop
+export function calculateExpectancyR(trades: Trade[], strategies?: any[]): number | null {
+  const rMultiples = getStatTrades(trades, strategies)
+    .map(trade => getTradeRMultiple(trade))
+    .filter((r): r is number => r !== null);
+  if (rMultiples.length === 0) return null;
+  return rMultiples.reduce((sum, r) => sum + r, 0) / rMultiples.length;
+}
+
+const R_BUCKETS = [-Infinity, -2, -1, 0, 1, 2, 3, Infinity];
+
+function formatRBucket(min: number, max: number): string {
+  if (min === -Infinity) return `< ${max}R`;
+  if (max === Infinity) return `≥ ${min}R`;
+  return `${min}R to ${max}R`;
+}
+
+// Histogram of R-multiples in 1R buckets, with the tails grouped
+export function getRDistribution(trades: Trade[]): { bucket: string; min: number; count: number }[] {
+  const rMultiples = getClosedTrades(trades)
+    .map(trade => getTradeRMultiple(trade))
+    .filter((r): r is number => r !== null);
+
+  return R_BUCKETS.slice(0, -1).map((min, index) => {
+    const max = R_BUCKETS[index + 1];
+    return {
+      bucket: formatRBucket(min, max),
+      min,
+      count: rMultiples.filter(r => r >= min && r < max).length,
+    };
+  });
+}
+
+// Closed trades split by whether a daily rule was already broken when they were taken
+export function compareRuleAdherence(trades: Trade[]) {
+  const summarize = (group: Trade[]) => {
+    const pnls = group.map(trade => getTradePnL(trade));
+    const totalPnL = pnls.reduce((sum, pnl) => sum + pnl, 0);
+    return {
+      trades: group.length,
+      totalPnL,
+      averagePnL: group.length > 0 ? totalPnL / group.length : 0,
+      winRate: group.length > 0 ? (pnls.filter(pnl => pnl > 0).length / group.length) * 100 : 0,
+    };
+  };
+
+  const closedTrades = getClosedTrades(trades);
+  return {
+    inside: summarize(closedTrades.filter(trade => !isOutsideRules(trade))),
+    outside: summarize(closedTrades.filter(isOutsideRules)),
+  };
+}
+
+// Initial risk of each trade in date order, for charting how much of the budget gets used
+export function getRiskUsedSeries(trades: Trade[], config: RiskConfig) {
+  return [...trades]
+    .sort((a, b) => a.tradeDate.localeCompare(b.tradeDate) || a.id - b.id)
+    .flatMap(trade => {
+      const usage = getRiskUsage(trade, config);
+      if (!usage) return [];
+      return [{
+        id: trade.id,
+        date: trade.tradeDate,
+        stockName: trade.stockName,
+        risk: usage.risk,
+        percentOfCapital: usage.percentOfCapital,
+        overBudget: usage.overBudget,
+      }];
+    });
+}
+
+export function formatR(r: number | null): string {
+  if (r === null) return "N/A";
+  return `${r >= 0 ? "+" : ""}${r.toFixed(2)}R`;
+}
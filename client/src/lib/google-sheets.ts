@@ -1,89 +1,44 @@
 import { Trade, Strategy, PsychologyEntry } from "@shared/schema";
 
-export class GoogleSheetsAPI {
-  private scriptUrl: string;
-  private sheetId: string;
+// Set by build-static.sh. That build has no backend, and the Script URL must never be
+// shipped in a bundle, so it cannot reach the sheet at all.
+export const isStaticBuild = import.meta.env.VITE_STATIC_BUILD === "true";
 
-  constructor(scriptUrl: string, sheetId: string) {
-    this.scriptUrl = scriptUrl;
-    this.sheetId = sheetId;
-  }
+export const staticBuildError =
+  "This static build has no backend, so it can't reach Google Sheets. Run the full app (npm run build && npm start) instead.";
 
+export class GoogleSheetsAPI {
   private async makeRequest(action: string, data?: any) {
     try {
-      // In production (static build), use JSONP to avoid CORS issues
-      // In development, route through backend to avoid CORS issues
-      const isProduction = import.meta.env.PROD;
-      
-      if (isProduction) {
-        // Use JSONP for production to avoid CORS issues
-        return new Promise((resolve, reject) => {
-          const callbackName = `jsonp_callback_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-          
-          // Create callback function
-          (window as any)[callbackName] = (result: any) => {
-            delete (window as any)[callbackName];
-            document.body.removeChild(script);
-            
-            if (result.error) {
-              reject(new Error(result.error));
-            } else {
-              resolve(result.data || result);
-            }
-          };
-          
-          // Create script element for JSONP
-          const script = document.createElement('script');
-          const params = new URLSearchParams({
-            action,
-            data: JSON.stringify(data || {}),
-            callback: callbackName
-          });
-          
-          script.src = `${this.scriptUrl}?${params.toString()}`;
-          script.onerror = () => {
-            delete (window as any)[callbackName];
-            document.body.removeChild(script);
-            reject(new Error('JSONP request failed'));
-          };
-          
-          document.body.appendChild(script);
-          
-          // Timeout after 30 seconds
-          setTimeout(() => {
-            if ((window as any)[callbackName]) {
-              delete (window as any)[callbackName];
-              if (document.body.contains(script)) {
-                document.body.removeChild(script);
-              }
-              reject(new Error('Request timeout'));
-            }
-          }, 30000);
-        });
-      } else {
-        // Development mode - route through backend
-        const response = await fetch("/api/google-sheets", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            action,
-            data,
-          }),
-        });
-
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-
-        const result = await response.json();
-        if (result.error) {
-          throw new Error(result.error);
-        }
-
-        return result.data || result;
+      if (isStaticBuild) {
+        throw new Error(staticBuildError);
+      }
+
+      // Route through the backend, which keeps the Script URL to itself and scopes data to the signed-in user
+      const response = await fetch("/api/google-sheets", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({
+          action,
+          data,
+        }),
+      });
+
+      if (!response.ok) {
+        // Prefer the server's explanation, e.g. which trades block a strategy delete
+        const failure = await response.json().catch(() => null);
+        throw new Error(failure?.error || `HTTP error! status: ${response.status}`);
       }
+
+      const result = await response.json();
+      if (result.error) {
+        throw new Error(result.error);
+      }
+
+      return result.data || result;
     } catch (error) {
       console.error("Google Sheets API error:", error);
       throw error;
@@ -159,3 +114,5 @@ export class GoogleSheetsAPI {
     return result.data || result;
   }
 }
+
+export const googleSheetsAPI = new GoogleSheetsAPI();
@@ -13,7 +13,18 @@ import EquityCurve from "@/components/charts/equity-curve";
 import MonthlyPerformanceChart from "@/components/charts/monthly-performance-chart";
 import StrategyBreakdownChart from "@/components/charts/strategy-breakdown-chart";
 import EmotionAnalysisChart from "@/components/charts/emotion-analysis-chart";
+import RDistributionChart from "@/components/charts/r-distribution-chart";
+import RiskUsedChart from "@/components/charts/risk-used-chart";
+import ComplianceReport from "@/components/strategy/compliance-report";
+import TradeGroupBreakdown from "@/components/charts/trade-group-breakdown";
+import MistakeCostChart from "@/components/charts/mistake-cost-chart";
+import TimeOfDayChart from "@/components/charts/time-of-day-chart";
+import HoldingTimeChart from "@/components/charts/holding-time-chart";
+import PerformanceHeatmap from "@/components/charts/performance-heatmap";
+import BenchmarkComparison from "@/components/charts/benchmark-comparison";
 import { useTrades } from "@/hooks/use-trades";
+import { useStrategies } from "@/hooks/use-strategies";
+import { useBenchmarks } from "@/hooks/use-benchmarks";
 import {
   calculateTotalPnL,
   calculateWinRate,
@@ -25,13 +36,29 @@ import {
   formatPercentage,
   groupTradesByStrategy,
   getActiveStrategyTrades,
+  applyPnLMode,
+  getClosedTrades,
+  calculateExpectancyR,
+  formatR,
+  compareRuleAdherence,
 } from "@/lib/calculations";
+import { useAppContext } from "@/contexts/app-context";
 
 export default function Analytics() {
-  const { trades, isLoading } = useTrades();
+  const { trades: allTrades, isLoading } = useTrades();
+  const { pnlMode } = useAppContext();
+  const { strategies } = useStrategies();
+  // Charts and counts here are about results, so open and planned trades are left out
+  const trades = useMemo(() => applyPnLMode(getClosedTrades(allTrades), pnlMode), [allTrades, pnlMode]);
   const [timeRange, setTimeRange] = useState("all");
   const [customStartDate, setCustomStartDate] = useState("");
   const [customEndDate, setCustomEndDate] = useState("");
+  const { benchmarks } = useBenchmarks();
+  // Empty until one is picked, which shows the first imported benchmark; "none" hides it
+  const [benchmarkSymbol, setBenchmarkSymbol] = useState("");
+  const benchmark = benchmarkSymbol === "none"
+    ? null
+    : benchmarks.find(({ symbol }) => symbol === benchmarkSymbol) ?? benchmarks[0] ?? null;
 
   // Filter trades based on selected time range
   const filteredTrades = useMemo(() => {
@@ -94,6 +121,7 @@ export default function Analytics() {
   const avgLoss = calculateAverageLoss(filteredTrades, strategies);
   const maxDrawdown = calculateMaxDrawdown(filteredTrades, strategies);
   const profitFactor = calculateProfitFactor(filteredTrades, strategies);
+  const expectancyR = calculateExpectancyR(filteredTrades, strategies);
 
   const strategyGroups = groupTradesByStrategy(filteredTrades);
   const strategyPerformance = Object.entries(strategyGroups).map(([strategy, strategyTrades]) => ({
@@ -101,6 +129,7 @@ export default function Analytics() {
     trades: strategyTrades.length,
     pnl: calculateTotalPnL(strategyTrades, strategies),
     winRate: calculateWinRate(strategyTrades, strategies),
+    averageR: calculateExpectancyR(strategyTrades, strategies),
   }));
 
   // Additional analytics
@@ -128,6 +157,7 @@ export default function Analytics() {
   const sharpeRatio = calculateSharpeRatio(filteredTrades);
   const maxConsecutiveLosses = calculateMaxConsecutiveLosses(filteredTrades);
   const maxConsecutiveWins = calculateMaxConsecutiveWins(filteredTrades);
+  const ruleAdherence = compareRuleAdherence(filteredTrades);
   const metrics = [
     {
       title: "Total P&L",
@@ -253,11 +283,14 @@ export default function Analytics() {
 
       {/* Enhanced Charts with Tabs */}
       <Tabs defaultValue="overview" className="mb-8">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-7">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="performance">Performance</TabsTrigger>
           <TabsTrigger value="strategies">Strategies</TabsTrigger>
           <TabsTrigger value="psychology">Psychology</TabsTrigger>
+          <TabsTrigger value="tags">Tags & Fields</TabsTrigger>
+          <TabsTrigger value="mistakes">Mistakes</TabsTrigger>
+          <TabsTrigger value="timing">Timing</TabsTrigger>
         </TabsList>
         
         <TabsContent value="overview" className="space-y-8">
@@ -276,7 +309,20 @@ export default function Analytics() {
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, delay: 0.2 }}
           >
-            <EquityCurve trades={filteredTrades} />
+            <EquityCurve trades={filteredTrades} benchmark={benchmark} />
+          </motion.div>
+
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5, delay: 0.3 }}
+          >
+            <BenchmarkComparison
+              trades={filteredTrades}
+              benchmarks={benchmarks}
+              benchmark={benchmark}
+              onBenchmarkChange={setBenchmarkSymbol}
+            />
           </motion.div>
         </TabsContent>
         
@@ -288,6 +334,8 @@ export default function Analytics() {
             transition={{ duration: 0.5 }}
           >
             <MonthlyPerformanceChart trades={filteredTrades} />
+            <RDistributionChart trades={filteredTrades} />
+            <RiskUsedChart trades={filteredTrades} />
             <Card>
               <CardHeader>
                 <CardTitle>Performance Metrics</CardTitle>
@@ -326,10 +374,25 @@ export default function Analytics() {
                     </div>
                     <Progress value={Math.min(profitFactor * 33.33, 100)} className="h-2" />
                   </div>
+                  
+                  <div className="flex justify-between text-sm">
+                    <span>Expectancy per Trade</span>
+                    <span className={expectancyR !== null && expectancyR < 0 ? "text-red-600" : "text-green-600"}>
+                      {formatR(expectancyR)}
+                    </span>
+                  </div>
                 </div>
               </CardContent>
             </Card>
           </motion.div>
+
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5, delay: 0.2 }}
+          >
+            <PerformanceHeatmap trades={filteredTrades} />
+          </motion.div>
         </TabsContent>
         
         <TabsContent value="strategies" className="space-y-8">
@@ -370,7 +433,9 @@ export default function Analytics() {
                           <p className={`font-bold ${strategy.pnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>
                             {formatCurrency(strategy.pnl)}
                           </p>
-                          <p className="text-sm text-gray-500">{formatPercentage(strategy.winRate)}</p>
+                          <p className="text-sm text-gray-500">
+                            {formatPercentage(strategy.winRate)} · {formatR(strategy.averageR)} avg
+                          </p>
                         </div>
                       </div>
                     ))}
@@ -378,6 +443,14 @@ export default function Analytics() {
               </CardContent>
             </Card>
           </motion.div>
+
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5, delay: 0.2 }}
+          >
+            <ComplianceReport trades={filteredTrades} />
+          </motion.div>
         </TabsContent>
         
         <TabsContent value="psychology" className="space-y-8">
@@ -422,6 +495,68 @@ export default function Analytics() {
                 </div>
               </CardContent>
             </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Inside vs Outside Daily Rules</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {ruleAdherence.outside.trades === 0 ? (
+                  <div className="text-center py-8 text-gray-500">
+                    <p>No trades taken after breaking a daily rule</p>
+                    <p className="text-sm">Trades logged once a daily limit is hit show up here for comparison</p>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-2 gap-4">
+                    {([
+                      ["Inside Rules", ruleAdherence.inside, "bg-green-50 dark:bg-green-900/20"],
+                      ["Outside Rules", ruleAdherence.outside, "bg-red-50 dark:bg-red-900/20"],
+                    ] as const).map(([label, group, tone]) => (
+                      <div key={label} className={`p-4 rounded-lg space-y-1 ${tone}`}>
+                        <p className="text-sm font-medium text-gray-700 dark:text-gray-300">{label}</p>
+                        <p className={`text-2xl font-bold ${group.totalPnL >= 0 ? "text-profit" : "text-loss"}`}>
+                          {formatCurrency(group.totalPnL)}
+                        </p>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">{group.trades} trades</p>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">Win rate {formatPercentage(group.winRate)}</p>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">Avg {formatCurrency(group.averagePnL)} per trade</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </motion.div>
+        </TabsContent>
+
+        <TabsContent value="tags" className="space-y-8">
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5 }}
+          >
+            <TradeGroupBreakdown trades={filteredTrades} />
+          </motion.div>
+        </TabsContent>
+
+        <TabsContent value="mistakes" className="space-y-8">
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5 }}
+          >
+            <MistakeCostChart trades={filteredTrades} />
+          </motion.div>
+        </TabsContent>
+
+        <TabsContent value="timing" className="space-y-8">
+          <motion.div
+            className="space-y-8"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5 }}
+          >
+            <TimeOfDayChart trades={filteredTrades} />
+            <HoldingTimeChart trades={filteredTrades} />
           </motion.div>
         </TabsContent>
       </Tabs>
@@ -446,6 +581,7 @@ export default function Analytics() {
                     <th className="text-left py-3 px-4 font-medium text-gray-600">Trades</th>
                     <th className="text-left py-3 px-4 font-medium text-gray-600">Win Rate</th>
                     <th className="text-left py-3 px-4 font-medium text-gray-600">P&L</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-600">Avg R</th>
                   </tr>
                 </thead>
                 <tbody>
@@ -457,6 +593,9 @@ export default function Analytics() {
                       <td className={`py-3 px-4 font-medium ${item.pnl >= 0 ? 'text-profit' : 'text-loss'}`}>
                         {formatCurrency(item.pnl)}
                       </td>
+                      <td className={`py-3 px-4 ${item.averageR !== null && item.averageR < 0 ? 'text-loss' : ''}`}>
+                        {formatR(item.averageR)}
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -0,0 +1,121 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { BarChart3, LogIn, UserPlus } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useAuth } from "@/hooks/use-auth";
+import { insertUserSchema, type InsertUser } from "@shared/schema";
+
+// Registration rules only apply to new passwords; signing in just needs both fields
+const loginSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+function CredentialsForm({ schema, submitLabel, pendingLabel, isPending, onSubmit, icon: Icon, passwordAutoComplete }: {
+  schema: z.ZodType<InsertUser>;
+  submitLabel: string;
+  pendingLabel: string;
+  isPending: boolean;
+  onSubmit: (data: InsertUser) => void;
+  icon: typeof LogIn;
+  passwordAutoComplete: string;
+}) {
+  const form = useForm<InsertUser>({
+    resolver: zodResolver(schema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input autoComplete="username" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete={passwordAutoComplete} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={isPending}>
+          <Icon className="w-4 h-4 mr-2" />
+          {isPending ? pendingLabel : submitLabel}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function AuthPage() {
+  const { login, register, isLoggingIn, isRegistering } = useAuth();
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <div className="flex items-center space-x-2">
+            <div className="w-8 h-8 bg-primary rounded-lg flex items-center justify-center">
+              <BarChart3 className="w-5 h-5 text-white" />
+            </div>
+            <CardTitle>IntraDay Pro</CardTitle>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Sign in to your journal. Each trader's trades, strategies and accounts are private to them.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login">
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="login">Sign In</TabsTrigger>
+              <TabsTrigger value="register">Register</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login">
+              <CredentialsForm
+                schema={loginSchema}
+                submitLabel="Sign In"
+                pendingLabel="Signing in..."
+                isPending={isLoggingIn}
+                onSubmit={(data) => login(data)}
+                icon={LogIn}
+                passwordAutoComplete="current-password"
+              />
+            </TabsContent>
+            <TabsContent value="register">
+              <CredentialsForm
+                schema={insertUserSchema}
+                submitLabel="Register"
+                pendingLabel="Registering..."
+                isPending={isRegistering}
+                onSubmit={(data) => register(data)}
+                icon={UserPlus}
+                passwordAutoComplete="new-password"
+              />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -2,6 +2,8 @@ import { motion } from "framer-motion";
 import StatsCards from "@/components/dashboard/stats-cards";
 import QuickTradeForm from "@/components/dashboard/quick-trade-form";
 import RecentTrades from "@/components/dashboard/recent-trades";
+import OpenPositions from "@/components/dashboard/open-positions";
+import RulesStatusBanner from "@/components/dashboard/rules-status-banner";
 import TradingCalendar from "@/components/dashboard/trading-calendar";
 import QuickStats from "@/components/dashboard/quick-stats";
 import EmotionTracker from "@/components/dashboard/emotion-tracker";
@@ -16,6 +18,7 @@ export default function Dashboard() {
       transition={{ duration: 0.3 }}
       className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8"
     >
+      <RulesStatusBanner />
       <StatsCards />
       
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mt-8">
@@ -37,6 +40,7 @@ export default function Dashboard() {
           animate={{ opacity: 1, x: 0 }}
           transition={{ duration: 0.5, delay: 0.4 }}
         >
+          <OpenPositions />
           <TradingCalendar />
           <QuickStats />
           <EmotionTracker />
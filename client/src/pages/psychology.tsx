@@ -13,9 +13,8 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { useTrades } from "@/hooks/use-trades";
-import { useAppContext } from "@/contexts/app-context";
 import { useToast } from "@/hooks/use-toast";
-import { GoogleSheetsAPI } from "@/lib/google-sheets";
+import { googleSheetsAPI } from "@/lib/google-sheets";
 import { calculateTotalPnL, formatCurrency, getTradesByDateRange } from "@/lib/calculations";
 
 const psychologyEntrySchema = z.object({
@@ -38,7 +37,6 @@ export default function Psychology() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [psychologyEntries, setPsychologyEntries] = useState<any[]>([]);
   const { trades } = useTrades();
-  const { settings } = useAppContext();
   const { toast } = useToast();
 
   const form = useForm<PsychologyEntryForm>({
@@ -55,19 +53,9 @@ export default function Psychology() {
   });
 
   const onSubmit = async (data: PsychologyEntryForm) => {
-    if (!settings?.googleScriptUrl || !settings?.googleSheetId) {
-      toast({
-        title: "Error",
-        description: "Google Sheets not configured. Please check settings.",
-        variant: "destructive",
-      });
-      return;
-    }
-
     setIsSubmitting(true);
     try {
-      const api = new GoogleSheetsAPI(settings.googleScriptUrl, settings.googleSheetId);
-      await api.addPsychologyEntry({
+      await googleSheetsAPI.addPsychologyEntry({
         month: data.month,
         year: data.year,
         monthlyPnL: data.monthlyPnL?.toString() || null,
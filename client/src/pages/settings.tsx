@@ -3,7 +3,7 @@ import { motion } from "framer-motion";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Save, ExternalLink, RefreshCw, CheckCircle, AlertCircle, Info } from "lucide-react";
+import { Save, ExternalLink, RefreshCw, CheckCircle, AlertCircle, Info, Download } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -11,21 +11,40 @@ import { Label } from "@/components/ui/label";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
+import SyncStatusPanel from "@/components/settings/sync-status-panel";
+import ReconciliationPanel from "@/components/settings/reconciliation-panel";
+import ChargesSettings from "@/components/settings/charges-settings";
+import RiskSettings from "@/components/settings/risk-settings";
+import DailyRulesSettings from "@/components/settings/daily-rules-settings";
+import CustomFieldsSettings from "@/components/settings/custom-fields-settings";
+import MistakeCategoriesSettings from "@/components/settings/mistake-categories-settings";
+import BenchmarkSettings from "@/components/settings/benchmark-settings";
+import AccountsSettings from "@/components/settings/accounts-settings";
 import { useSettings } from "@/hooks/use-settings";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
+import { isStaticBuild, staticBuildError } from "@/lib/google-sheets";
 
+// The saved Script URL is never sent back, so the field starts empty and blank keeps it
 const settingsSchema = z.object({
   googleSheetId: z.string().min(1, "Google Sheet ID is required"),
-  googleScriptUrl: z.string().url("Please enter a valid URL"),
+  googleScriptUrl: z.string().url("Please enter a valid URL").or(z.literal("")),
 });
 
 type SettingsForm = z.infer<typeof settingsSchema>;
 
+const toSettingsUpdate = ({ googleSheetId, googleScriptUrl }: SettingsForm) =>
+  googleScriptUrl ? { googleSheetId, googleScriptUrl } : { googleSheetId };
+
 export default function Settings() {
   const [connectionStatus, setConnectionStatus] = useState<"idle" | "testing" | "success" | "error">("idle");
   const [testResult, setTestResult] = useState<string>("");
-  const { settings, saveSettings, isLoading } = useSettings();
+  const [isMigrating, setIsMigrating] = useState(false);
+  const { settings, saveSettings, saveSettingsAsync, isLoading } = useSettings();
+  const { user } = useAuth();
   const { toast } = useToast();
+  // Settings and the sheet cover every user's records, so only the admin changes or syncs them
+  const isAdmin = !!user?.isAdmin;
 
   const form = useForm<SettingsForm>({
     resolver: zodResolver(settingsSchema),
@@ -39,20 +58,25 @@ export default function Settings() {
     if (settings) {
       form.reset({
         googleSheetId: settings.googleSheetId || "",
-        googleScriptUrl: settings.googleScriptUrl || "",
+        googleScriptUrl: "",
       });
     }
   }, [settings, form]);
 
   const onSubmit = (data: SettingsForm) => {
-    saveSettings(data);
+    if (!data.googleScriptUrl && !settings?.hasGoogleScriptUrl) {
+      form.setError("googleScriptUrl", { message: "Google Script URL is required" });
+      return;
+    }
+    saveSettings(toSettingsUpdate(data));
     setConnectionStatus("idle");
   };
 
   const testConnection = async () => {
     const formData = form.getValues();
+    const hasScriptUrl = !!formData.googleScriptUrl || !!settings?.hasGoogleScriptUrl;
     
-    if (!formData.googleScriptUrl) {
+    if (!hasScriptUrl) {
       toast({
         title: "Error",
         description: "Please enter a Google Script URL first",
@@ -65,53 +89,24 @@ export default function Settings() {
     setTestResult("");
 
     try {
-      // First save the settings
-      saveSettings(formData);
-      
-      const isProduction = import.meta.env.PROD;
-      
-      if (isProduction) {
-        // In production, use JSONP to avoid CORS issues
-        const result = await new Promise((resolve, reject) => {
-          const callbackName = `jsonp_callback_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-          
-          // Create callback function
-          (window as any)[callbackName] = (result: any) => {
-            delete (window as any)[callbackName];
-            document.body.removeChild(script);
-            resolve(result);
-          };
-          
-          // Create script element for JSONP
-          const script = document.createElement('script');
-          const params = new URLSearchParams({
-            action: "test",
-            data: JSON.stringify({}),
-            callback: callbackName
-          });
-          
-          script.src = `${formData.googleScriptUrl}?${params.toString()}`;
-          script.onerror = () => {
-            delete (window as any)[callbackName];
-            document.body.removeChild(script);
-            reject(new Error('JSONP request failed'));
-          };
-          
-          document.body.appendChild(script);
-          
-          // Timeout after 15 seconds
-          setTimeout(() => {
-            if ((window as any)[callbackName]) {
-              delete (window as any)[callbackName];
-              if (document.body.contains(script)) {
-                document.body.removeChild(script);
-              }
-              reject(new Error('Request timeout'));
-            }
-          }, 15000);
-        });
-
-        if ((result as any).success) {
+      if (isStaticBuild) {
+        throw new Error(staticBuildError);
+      }
+
+      // Save first so the server tests what's in the form; only it holds the Script URL
+      await saveSettingsAsync(toSettingsUpdate(formData));
+
+      const response = await fetch("/api/test-google-connection", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        if (result.success) {
           setConnectionStatus("success");
           setTestResult("Connection successful! Google Sheets integration is working.");
           toast({
@@ -119,32 +114,10 @@ export default function Settings() {
             description: "Connection to Google Sheets successful!",
           });
         } else {
-          throw new Error((result as any).error || "Connection test failed");
+          throw new Error(result.error || "Connection test failed");
         }
       } else {
-        // In development, route through backend to avoid CORS
-        const response = await fetch("/api/test-google-connection", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-        });
-
-        if (response.ok) {
-          const result = await response.json();
-          if (result.success) {
-            setConnectionStatus("success");
-            setTestResult("Connection successful! Google Sheets integration is working.");
-            toast({
-              title: "Success",
-              description: "Connection to Google Sheets successful!",
-            });
-          } else {
-            throw new Error(result.error || "Connection test failed");
-          }
-        } else {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
     } catch (error) {
       setConnectionStatus("error");
@@ -158,6 +131,31 @@ export default function Settings() {
     }
   };
 
+  const importFromSheets = async () => {
+    setIsMigrating(true);
+    try {
+      const response = await fetch("/api/storage/migrate", { method: "POST" });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || `HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const { trades, strategies, psychologyEntries, skipped } = result.imported;
+      toast({
+        title: "Import Complete",
+        description: `Imported ${trades} trades, ${strategies} strategies and ${psychologyEntries} psychology entries (${skipped} already present)`,
+      });
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsMigrating(false);
+    }
+  };
+
   const ConnectionStatusIndicator = () => {
     switch (connectionStatus) {
       case "testing":
@@ -220,87 +218,152 @@ export default function Settings() {
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Main Settings Form */}
         <div className="lg:col-span-2">
-          <Card>
-            <CardHeader>
-              <div className="flex items-center justify-between">
-                <CardTitle>Google Sheets Integration</CardTitle>
-                <ConnectionStatusIndicator />
-              </div>
-            </CardHeader>
-            <CardContent>
-              <Form {...form}>
-                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-                  <FormField
-                    control={form.control}
-                    name="googleSheetId"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Google Sheet ID</FormLabel>
-                        <FormControl>
-                          <Input 
-                            placeholder="1BxiMVs0XRA5nFMdKvBdBZjgmUUqptlbs74OgvE2upms"
-                            {...field} 
-                          />
-                        </FormControl>
-                        <FormDescription>
-                          The ID from your Google Sheet URL. Found between /d/ and /edit in the URL.
-                        </FormDescription>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+          {!isAdmin && (
+            <Alert>
+              <Info className="h-4 w-4" />
+              <AlertDescription>
+                The Google Sheet connection, charges, risk, daily rules, custom fields, mistake categories
+                and benchmarks are shared by everyone on this journal, so only its admin (the first user to sign up) can change them.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {isAdmin && (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>Google Sheets Integration</CardTitle>
+                  <ConnectionStatusIndicator />
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                    <FormField
+                      control={form.control}
+                      name="googleSheetId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Google Sheet ID</FormLabel>
+                          <FormControl>
+                            <Input 
+                              placeholder="1BxiMVs0XRA5nFMdKvBdBZjgmUUqptlbs74OgvE2upms"
+                              {...field} 
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            The ID from your Google Sheet URL. Found between /d/ and /edit in the URL.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                   
-                  <FormField
-                    control={form.control}
-                    name="googleScriptUrl"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Google Apps Script URL</FormLabel>
-                        <FormControl>
-                          <Input 
-                            placeholder="https://script.google.com/macros/s/your-script-id/exec"
-                            {...field} 
-                          />
-                        </FormControl>
-                        <FormDescription>
-                          The deployment URL from your Google Apps Script project.
-                        </FormDescription>
-                        <FormMessage />
-                      </FormItem>
+                    <FormField
+                      control={form.control}
+                      name="googleScriptUrl"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Google Apps Script URL</FormLabel>
+                          <FormControl>
+                            <Input 
+                              placeholder={settings?.hasGoogleScriptUrl
+                                ? "Saved. Paste a new URL to replace it"
+                                : "https://script.google.com/macros/s/your-script-id/exec"}
+                              autoComplete="off"
+                              {...field} 
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            The deployment URL from your Google Apps Script project. Anyone with it can write
+                            to your sheet, so it is stored encrypted on the server and never shown again.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  
+                    {testResult && (
+                      <Alert variant={connectionStatus === "error" ? "destructive" : "default"}>
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription>{testResult}</AlertDescription>
+                      </Alert>
                     )}
-                  />
                   
-                  {testResult && (
-                    <Alert variant={connectionStatus === "error" ? "destructive" : "default"}>
-                      <AlertCircle className="h-4 w-4" />
-                      <AlertDescription>{testResult}</AlertDescription>
-                    </Alert>
+                    <div className="flex flex-col sm:flex-row gap-3">
+                      <Button type="submit" className="flex-1">
+                        <Save className="w-4 h-4 mr-2" />
+                        Save Settings
+                      </Button>
+                      <Button 
+                        type="button" 
+                        variant="outline" 
+                        onClick={testConnection}
+                        disabled={connectionStatus === "testing"}
+                        className="flex-1"
+                      >
+                        {connectionStatus === "testing" ? (
+                          <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                        ) : (
+                          <RefreshCw className="w-4 h-4 mr-2" />
+                        )}
+                        Test Connection
+                      </Button>
+                    </div>
+                  </form>
+                </Form>
+              </CardContent>
+            </Card>
+          )}
+
+          {isAdmin && (
+            <Card className="mt-8">
+              <CardHeader>
+                <CardTitle>Data Storage</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  Your journal is saved on the server and mirrored to Google Sheets. If the sheet holds
+                  trades that were never saved locally, import them once to bring everything together.
+                </p>
+                <Button 
+                  type="button" 
+                  variant="outline" 
+                  onClick={importFromSheets}
+                  disabled={isMigrating}
+                >
+                  {isMigrating ? (
+                    <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Download className="w-4 h-4 mr-2" />
                   )}
-                  
-                  <div className="flex flex-col sm:flex-row gap-3">
-                    <Button type="submit" className="flex-1">
-                      <Save className="w-4 h-4 mr-2" />
-                      Save Settings
-                    </Button>
-                    <Button 
-                      type="button" 
-                      variant="outline" 
-                      onClick={testConnection}
-                      disabled={connectionStatus === "testing"}
-                      className="flex-1"
-                    >
-                      {connectionStatus === "testing" ? (
-                        <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
-                      ) : (
-                        <RefreshCw className="w-4 h-4 mr-2" />
-                      )}
-                      Test Connection
-                    </Button>
-                  </div>
-                </form>
-              </Form>
-            </CardContent>
-          </Card>
+                  Import from Google Sheets
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          <AccountsSettings />
+
+          {isAdmin && (
+            <>
+              <ChargesSettings />
+
+              <RiskSettings />
+
+              <DailyRulesSettings />
+
+              <CustomFieldsSettings />
+
+              <MistakeCategoriesSettings />
+            </>
+          )}
+
+          {isAdmin && <BenchmarkSettings />}
+
+          {isAdmin && <SyncStatusPanel />}
+
+          {isAdmin && <ReconciliationPanel />}
         </div>
 
         {/* Setup Instructions */}
@@ -365,7 +428,7 @@ export default function Settings() {
               </div>
               <div className="flex justify-between">
                 <span className="text-sm text-gray-600">Data Storage</span>
-                <span className="text-sm font-medium">Google Sheets</span>
+                <span className="text-sm font-medium">Local Journal + Sheets</span>
               </div>
             </CardContent>
           </Card>
@@ -14,7 +14,12 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Badge } from "@/components/ui/badge";
 import { useStrategies } from "@/hooks/use-strategies";
 import { useTrades } from "@/hooks/use-trades";
-import { calculateTotalPnL, calculateWinRate, formatCurrency, formatPercentage } from "@/lib/calculations";
+import RuleEditor, { ruleFormSchema } from "@/components/strategy/rule-editor";
+import ComplianceReport from "@/components/strategy/compliance-report";
+import VersionComparison from "@/components/strategy/version-comparison";
+import { calculateTotalPnL, calculateWinRate, formatCurrency, formatPercentage, getStrategyTrades } from "@/lib/calculations";
+import { getComplianceScore } from "@shared/compliance";
+import type { Strategy } from "@shared/schema";
 
 const strategySchema = z.object({
   name: z.string().min(1, "Strategy name is required"),
@@ -22,6 +27,7 @@ const strategySchema = z.object({
   screenshotUrl: z.string().optional(),
   status: z.enum(["active", "testing", "deprecated"]).default("active"),
   tags: z.array(z.string()).default([]),
+  rules: z.array(ruleFormSchema).default([]),
 });
 
 type StrategyForm = z.infer<typeof strategySchema>;
@@ -43,12 +49,13 @@ export default function Strategies() {
       screenshotUrl: "",
       status: "active",
       tags: [],
+      rules: [],
     },
   });
 
   const onSubmit = (data: StrategyForm) => {
     if (editingStrategy) {
-      updateStrategy({ id: editingStrategy.id, ...data });
+      updateStrategy({ id: editingStrategy.id, ...data, rules: data.rules.length > 0 ? data.rules : null });
       setEditingStrategy(null);
     } else {
       addStrategy({
@@ -56,6 +63,7 @@ export default function Strategies() {
         description: data.description || null,
         screenshotUrl: data.screenshotUrl || null,
         tags: data.tags || null,
+        rules: data.rules.length > 0 ? data.rules : null,
       });
     }
     
@@ -71,6 +79,7 @@ export default function Strategies() {
       screenshotUrl: strategy.screenshotUrl || "",
       status: strategy.status,
       tags: strategy.tags || [],
+      rules: strategy.rules || [],
     });
     setIsAddDialogOpen(true);
   };
@@ -81,12 +90,14 @@ export default function Strategies() {
     }
   };
 
-  const getStrategyStats = (strategyName: string) => {
-    const strategyTrades = trades.filter(trade => trade.whichSetup === strategyName);
+  const getStrategyStats = (strategy: Strategy) => {
+    const strategyTrades = getStrategyTrades(trades, strategy);
+    const scores = strategyTrades.map(trade => getComplianceScore(trade.ruleChecks)).filter((score): score is number => score !== null);
     return {
       trades: strategyTrades.length,
       winRate: calculateWinRate(strategyTrades),
       pnl: calculateTotalPnL(strategyTrades),
+      compliance: scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null,
     };
   };
 
@@ -128,7 +139,7 @@ export default function Strategies() {
               Add Strategy
             </Button>
           </DialogTrigger>
-          <DialogContent className="max-w-lg">
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>
                 {editingStrategy ? "Edit Strategy" : "Add New Strategy"}
@@ -209,6 +220,17 @@ export default function Strategies() {
                   )}
                 />
                 
+                <div className="space-y-2">
+                  <FormLabel>Rules Checklist</FormLabel>
+                  <RuleEditor />
+                </div>
+
+                {editingStrategy && (
+                  <p className="text-xs text-gray-500">
+                    Changing the description or rules starts version {(editingStrategy.version ?? 1) + 1}. Trades already taken stay with the version they were taken under.
+                  </p>
+                )}
+                
                 <div className="flex justify-end space-x-2 pt-4">
                   <Button 
                     type="button" 
@@ -293,14 +315,17 @@ export default function Strategies() {
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {filteredStrategies.map((strategy) => {
-            const stats = getStrategyStats(strategy.name);
+            const stats = getStrategyStats(strategy);
             
             return (
               <Card key={strategy.id} className="hover:shadow-lg transition-shadow">
                 <CardHeader>
                   <div className="flex items-start justify-between">
                     <div className="flex-1">
-                      <CardTitle className="text-lg">{strategy.name}</CardTitle>
+                      <CardTitle className="text-lg">
+                        {strategy.name}
+                        <span className="ml-2 text-sm font-normal text-gray-500">v{strategy.version ?? 1}</span>
+                      </CardTitle>
                       <Badge 
                         variant={
                           strategy.status === "active" ? "default" : 
@@ -337,14 +362,22 @@ export default function Strategies() {
                     <p className="text-sm text-gray-600 mb-4">{strategy.description}</p>
                   )}
                   
-                  {strategy.screenshotUrl && (
-                    <div className="mb-4">
-                      <Button variant="outline" size="sm" asChild>
-                        <a href={strategy.screenshotUrl} target="_blank" rel="noopener noreferrer">
-                          <ExternalLink className="w-4 h-4 mr-2" />
-                          View Chart
-                        </a>
-                      </Button>
+                  {(strategy.screenshotUrl || (strategy.versions?.length ?? 0) > 1) && (
+                    <div className="mb-4 flex flex-wrap gap-2">
+                      {strategy.screenshotUrl && (
+                        <Button variant="outline" size="sm" asChild>
+                          <a href={strategy.screenshotUrl} target="_blank" rel="noopener noreferrer">
+                            <ExternalLink className="w-4 h-4 mr-2" />
+                            View Chart
+                          </a>
+                        </Button>
+                      )}
+                      {(strategy.versions?.length ?? 0) > 1 && (
+                        <VersionComparison
+                          strategy={strategy}
+                          trades={getStrategyTrades(trades, strategy)}
+                        />
+                      )}
                     </div>
                   )}
                   
@@ -363,6 +396,14 @@ export default function Strategies() {
                         {formatCurrency(stats.pnl)}
                       </span>
                     </div>
+                    {strategy.rules && strategy.rules.length > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-sm text-gray-600">Avg Compliance ({strategy.rules.length} rules)</span>
+                        <span className="text-sm font-medium">
+                          {stats.compliance === null ? "—" : formatPercentage(stats.compliance)}
+                        </span>
+                      </div>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -370,6 +411,10 @@ export default function Strategies() {
           })}
         </div>
       )}
+
+      <div className="mt-8">
+        <ComplianceReport trades={trades} />
+      </div>
     </motion.div>
   );
 }
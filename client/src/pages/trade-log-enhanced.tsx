@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { motion } from "framer-motion";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -17,25 +17,58 @@ import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Checkbox } from "@/components/ui/checkbox";
 import TradeDetailModal from "@/components/trade/trade-detail-modal";
-import { useTrades } from "@/hooks/use-trades";
+import TradebookImportDialog from "@/components/trade/tradebook-import-dialog";
+import PositionSizeCalculator from "@/components/trade/position-size-calculator";
+import RuleChecklist, { getStrategyRules } from "@/components/trade/rule-checklist";
+import CustomFieldInputs, { toCustomFieldValues } from "@/components/trade/custom-field-inputs";
+import MistakePicker from "@/components/trade/mistake-picker";
+import { useTradeMutations } from "@/hooks/use-trades";
+import { useToast } from "@/hooks/use-toast";
+import { useTradeQuery, useTradeTags, fetchAllMatchingTrades } from "@/hooks/use-trade-query";
 import { useStrategies } from "@/hooks/use-strategies";
-import { calculatePnL, formatCurrency, formatPercentage, calculatePercentage } from "@/lib/calculations";
+import { useRiskSettings } from "@/hooks/use-risk-settings";
+import { useAccounts } from "@/hooks/use-accounts";
+import { useCustomFields } from "@/hooks/use-custom-fields";
+import { useMistakeCategories } from "@/hooks/use-mistake-categories";
+import { calculatePnL, formatCurrency, formatPercentage, calculatePercentage, getTradePnL } from "@/lib/calculations";
+import { useAppContext } from "@/contexts/app-context";
 import { formatDateForDisplay, isValidDate } from "@/utils/date-utils";
+import { getTradeSide } from "@shared/pnl";
+import { getTradeStatus, TRADE_STATUS_LABELS } from "@shared/lifecycle";
+import { getRiskUsage } from "@shared/risk";
+import { DAILY_RULE_LABELS, isOutsideRules } from "@shared/guardrails";
+import { buildRuleChecks, getComplianceScore } from "@shared/compliance";
+import { formatCustomFieldValue, normalizeCustomFieldValues, parseTags } from "@shared/custom-fields";
+import { getMistakeLabel } from "@shared/mistakes";
+import { fromISTInput, getHoldingMinutes, validateTradeTimes } from "@shared/timing";
 
 const tradeSchema = z.object({
   tradeDate: z.string().min(1, "Trade date is required"),
   stockName: z.string().min(1, "Stock name is required"),
+  side: z.enum(["long", "short"]).default("long"),
+  // Left unset, the server works it out from the exit price
+  status: z.enum(["planned", "open", "closed"]).optional(),
   quantity: z.coerce.number().min(1, "Quantity must be at least 1"),
   entryPrice: z.coerce.number().min(0.01, "Entry price must be greater than 0"),
   exitPrice: z.coerce.number().optional(),
   stopLoss: z.coerce.number().optional(),
   targetPrice: z.coerce.number().optional(),
   setupFollowed: z.boolean().default(false),
-  whichSetup: z.string().optional(),
+  strategyId: z.string().optional(), // Strategy ID as the select holds it
+  followedRuleIds: z.array(z.string()).default([]),
   emotion: z.string().optional(),
+  tags: z.string().optional(), // Comma separated
+  customFields: z.record(z.union([z.string(), z.boolean()])).default({}),
+  mistakes: z.array(z.string()).default([]),
   notes: z.string().optional(),
   psychologyReflections: z.string().optional(),
   screenshotLink: z.string().optional(),
+  accountId: z.string().optional(),
+  entryTime: z.string().optional(), // datetime-local, read as IST
+  exitTime: z.string().optional(),
+}).superRefine((data, ctx) => {
+  const timesError = validateTradeTimes(fromISTInput(data.entryTime), fromISTInput(data.exitTime));
+  if (timesError) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["exitTime"], message: timesError });
 });
 
 const filterSchema = z.object({
@@ -43,9 +76,23 @@ const filterSchema = z.object({
   endDate: z.string().optional(),
   strategy: z.string().optional(),
   emotion: z.string().optional(),
+  tag: z.string().optional(),
+  field: z.string().optional(), // Custom field ID, filtered by fieldValue
+  fieldValue: z.string().optional(),
   profitLoss: z.enum(["all", "profit", "loss"]).default("all"),
+  setupFollowed: z.enum(["all", "true", "false"]).default("all"),
 });
 
+const sortOptions = {
+  newest: { label: "Newest first", sort: "tradeDate", order: "desc" },
+  oldest: { label: "Oldest first", sort: "tradeDate", order: "asc" },
+  bestPnl: { label: "Biggest profit", sort: "profitLoss", order: "desc" },
+  worstPnl: { label: "Biggest loss", sort: "profitLoss", order: "asc" },
+  stock: { label: "Stock A-Z", sort: "stockName", order: "asc" },
+} as const;
+
+type SortOption = keyof typeof sortOptions;
+
 type TradeForm = z.infer<typeof tradeSchema>;
 type FilterForm = z.infer<typeof filterSchema>;
 
@@ -59,32 +106,58 @@ export default function TradeLogEnhanced() {
   const [isImagePreviewOpen, setIsImagePreviewOpen] = useState(false);
   const [previewImageUrl, setPreviewImageUrl] = useState("");
   const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [sortOption, setSortOption] = useState<SortOption>("newest");
   const [filters, setFilters] = useState<FilterForm>({
-    profitLoss: "all"
+    profitLoss: "all",
+    setupFollowed: "all"
   });
   
-  const { trades, addTrade, isAdding, isLoading } = useTrades();
+  const { addTrade, isAdding } = useTradeMutations();
+  const { toast } = useToast();
   const { strategies } = useStrategies();
+  const { config: riskConfig } = useRiskSettings();
+  const { accounts } = useAccounts();
+  const { fields: customFields } = useCustomFields();
+  const { categories: mistakeCategories } = useMistakeCategories();
+  const { pnlMode, accountId } = useAppContext();
+  const tags = useTradeTags(accountId ?? undefined);
+  const accountNames = new Map(accounts.map(account => [account.id, account.name]));
 
   const form = useForm<TradeForm>({
     resolver: zodResolver(tradeSchema),
     defaultValues: {
       tradeDate: new Date().toISOString().split('T')[0],
       stockName: "",
+      side: "long",
       quantity: 0,
       entryPrice: 0,
       exitPrice: 0,
       stopLoss: 0,
       targetPrice: 0,
       setupFollowed: false,
-      whichSetup: "",
+      strategyId: "",
+      followedRuleIds: [],
       emotion: "",
+      tags: "",
+      customFields: {},
+      mistakes: [],
       notes: "",
       psychologyReflections: "",
       screenshotLink: "",
+      accountId: accountId ? String(accountId) : "",
+      entryTime: "",
+      exitTime: "",
     },
   });
 
+  // New trades go to whichever account the header is scoped to
+  useEffect(() => {
+    form.setValue("accountId", accountId ? String(accountId) : "");
+  }, [accountId]);
+
+  const strategyRules = getStrategyRules(strategies, form.watch("strategyId"));
+
   const filterForm = useForm<FilterForm>({
     resolver: zodResolver(filterSchema),
     defaultValues: filters,
@@ -107,27 +180,39 @@ export default function TradeLogEnhanced() {
   
   const onSubmit = (data: TradeForm) => {
     const profitLoss = data.exitPrice 
-      ? calculatePnL(data.entryPrice, data.exitPrice, data.quantity)
+      ? calculatePnL(data.entryPrice, data.exitPrice, data.quantity, data.side)
       : 0;
+    const ruleChecks = strategyRules.length > 0 ? buildRuleChecks(strategyRules, data.followedRuleIds) : null;
+    const strategy = strategies.find(s => String(s.id) === data.strategyId);
 
     addTrade({
       tradeDate: data.tradeDate,
       stockName: data.stockName.toUpperCase(),
+      side: data.side,
+      status: data.status,
       quantity: data.quantity,
       entryPrice: data.entryPrice.toString(),
       exitPrice: data.exitPrice?.toString() || null,
       stopLoss: data.stopLoss?.toString() || null,
       targetPrice: data.targetPrice?.toString() || null,
       profitLoss: profitLoss.toString(),
-      setupFollowed: data.setupFollowed,
-      whichSetup: data.whichSetup || null,
+      setupFollowed: ruleChecks ? getComplianceScore(ruleChecks) === 100 : data.setupFollowed,
+      strategyId: strategy?.id ?? null,
+      whichSetup: strategy?.name ?? null,
+      ruleChecks,
       emotion: data.emotion || null,
+      tags: parseTags(data.tags),
+      customFields: normalizeCustomFieldValues(toCustomFieldValues(customFields, data.customFields)),
+      mistakes: data.mistakes.length > 0 ? data.mistakes : null,
+      entryTime: fromISTInput(data.entryTime),
+      exitTime: fromISTInput(data.exitTime),
       notes: data.notes || null,
       psychologyReflections: data.psychologyReflections || null,
       screenshotLink: data.screenshotLink || null,
+      accountId: data.accountId ? Number(data.accountId) : null,
     });
 
-    form.reset();
+    form.reset({ ...form.formState.defaultValues, accountId: data.accountId });
     setIsAddDialogOpen(false);
   };
 
@@ -137,88 +222,134 @@ export default function TradeLogEnhanced() {
   };
 
   const clearFilters = () => {
-    const defaultFilters = { profitLoss: "all" as const };
+    const defaultFilters = { profitLoss: "all" as const, setupFollowed: "all" as const };
     setFilters(defaultFilters);
     filterForm.reset(defaultFilters);
     setSearchTerm("");
   };
 
-  const filteredTrades = trades.filter(trade => {
-    // Search filter
-    const matchesSearch = !searchTerm || 
-      trade.stockName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (trade.whichSetup && trade.whichSetup.toLowerCase().includes(searchTerm.toLowerCase()));
+  // Wait for typing to pause before hitting the server
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
 
-    // Date range filter
-    const matchesDateRange = (!filters.startDate || trade.tradeDate >= filters.startDate) &&
-      (!filters.endDate || trade.tradeDate <= filters.endDate);
+  const tradeQueryParams = {
+    from: filters.startDate || undefined,
+    to: filters.endDate || undefined,
+    strategy: filters.strategy && filters.strategy !== "all-strategies" ? filters.strategy : undefined,
+    emotion: filters.emotion && filters.emotion !== "all-emotions" ? filters.emotion : undefined,
+    tag: filters.tag && filters.tag !== "all-tags" ? filters.tag : undefined,
+    field: filters.field && filters.fieldValue ? filters.field : undefined,
+    fieldValue: filters.field && filters.fieldValue ? filters.fieldValue : undefined,
+    outcome: filters.profitLoss !== "all" ? filters.profitLoss : undefined,
+    setupFollowed: filters.setupFollowed && filters.setupFollowed !== "all" ? filters.setupFollowed : undefined,
+    q: debouncedSearch || undefined,
+    accountId: accountId ?? undefined,
+    pnlMode,
+    sort: sortOptions[sortOption].sort,
+    order: sortOptions[sortOption].order,
+  };
 
-    // Strategy filter
-    const matchesStrategy = !filters.strategy || filters.strategy === 'all-strategies' || trade.whichSetup === filters.strategy;
+  const {
+    trades: filteredTrades,
+    total,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useTradeQuery(tradeQueryParams);
+  // One trade is enough to learn how many there are before filtering
+  const { total: unfilteredTotal } = useTradeQuery({ accountId: accountId ?? undefined, limit: 1 });
 
-    // Emotion filter
-    const matchesEmotion = !filters.emotion || filters.emotion === 'all-emotions' || trade.emotion === filters.emotion;
+  // Load the next page when the bottom of the table scrolls into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) fetchNextPage();
+    }, { rootMargin: "200px" });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
-    // Profit/Loss filter
-    let matchesProfitLoss = true;
-    if (filters.profitLoss !== "all") {
-      const pnl = trade.profitLoss ? parseFloat(trade.profitLoss) : 0;
-      matchesProfitLoss = filters.profitLoss === "profit" ? pnl >= 0 : pnl < 0;
-    }
+  const exportToCSV = async () => {
+    try {
+      const exportTrades = await fetchAllMatchingTrades(tradeQueryParams);
+      const headers = [
+        "Trade Date", "Stock Name", "Side", "Quantity", "Entry Price", "Exit Price", 
+        "Stop Loss", "Target Price", "P&L", "Charges", "Net P&L", "P&L %", "Setup Followed", 
+        "Strategy", "Emotion", "Notes", "Psychology Reflections", "Screenshot Link", "Status", "Account", "Compliance %",
+        "Tags", "Mistakes", "Entry Time", "Exit Time", "Holding (min)", ...customFields.map(field => field.label)
+      ];
 
-    return matchesSearch && matchesDateRange && matchesStrategy && matchesEmotion && matchesProfitLoss;
-  });
+      const csvData = exportTrades.map(trade => {
+        const entryPrice = parseFloat(trade.entryPrice || "0");
+        const exitPrice = parseFloat(trade.exitPrice || "0");
+        const pnl = parseFloat(trade.profitLoss || "0");
+        const pnlPercent = exitPrice > 0 ? calculatePercentage(entryPrice, exitPrice, trade.side) : 0;
 
-  const exportToCSV = () => {
-    const headers = [
-      "Trade Date", "Stock Name", "Quantity", "Entry Price", "Exit Price", 
-      "Stop Loss", "Target Price", "P&L", "P&L %", "Setup Followed", 
-      "Strategy", "Emotion", "Notes", "Psychology Reflections", "Screenshot Link"
-    ];
-
-    const csvData = filteredTrades.map(trade => {
-      const entryPrice = parseFloat(trade.entryPrice || "0");
-      const exitPrice = parseFloat(trade.exitPrice || "0");
-      const pnl = parseFloat(trade.profitLoss || "0");
-      const pnlPercent = exitPrice > 0 ? calculatePercentage(entryPrice, exitPrice) : 0;
-
-      return [
-        trade.tradeDate,
-        trade.stockName,
-        trade.quantity,
-        entryPrice,
-        exitPrice || "",
-        trade.stopLoss || "",
-        trade.targetPrice || "",
-        pnl,
-        pnlPercent.toFixed(2) + "%",
-        trade.setupFollowed ? "Yes" : "No",
-        trade.whichSetup || "",
-        trade.emotion || "",
-        (trade.notes || "").replace(/,/g, ";"),
-        (trade.psychologyReflections || "").replace(/,/g, ";"),
-        trade.screenshotLink || ""
-      ];
-    });
+        return [
+          trade.tradeDate,
+          trade.stockName,
+          getTradeSide(trade.side) === "short" ? "Short" : "Long",
+          trade.quantity,
+          entryPrice,
+          exitPrice || "",
+          trade.stopLoss || "",
+          trade.targetPrice || "",
+          pnl,
+          trade.charges || "",
+          trade.netPnL || "",
+          pnlPercent.toFixed(2) + "%",
+          trade.setupFollowed ? "Yes" : "No",
+          trade.whichSetup || "",
+          trade.emotion || "",
+          (trade.notes || "").replace(/,/g, ";"),
+          (trade.psychologyReflections || "").replace(/,/g, ";"),
+          trade.screenshotLink || "",
+          TRADE_STATUS_LABELS[getTradeStatus(trade)],
+          (trade.accountId && accountNames.get(trade.accountId)) || "",
+          getComplianceScore(trade.ruleChecks) ?? "",
+          (trade.tags || []).join("; "),
+          (trade.mistakes || []).map(id => getMistakeLabel(mistakeCategories, id)).join("; "),
+          trade.entryTime || "",
+          trade.exitTime || "",
+          getHoldingMinutes(trade)?.toFixed(0) ?? "",
+          ...customFields.map(field => {
+            const value = trade.customFields?.[field.id];
+            return value === undefined ? "" : formatCustomFieldValue(value).replace(/,/g, ";");
+          })
+        ];
+      });
 
-    const csvContent = [headers, ...csvData]
-      .map(row => row.map(cell => `"${cell}"`).join(","))
-      .join("\n");
-
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement("a");
-    const url = URL.createObjectURL(blob);
-    link.setAttribute("href", url);
-    link.setAttribute("download", `trades-${new Date().toISOString().split('T')[0]}.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+      const csvContent = [headers, ...csvData]
+        .map(row => row.map(cell => `"${cell}"`).join(","))
+        .join("\n");
+
+      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+      const link = document.createElement("a");
+      const url = URL.createObjectURL(blob);
+      link.setAttribute("href", url);
+      link.setAttribute("download", `trades-${new Date().toISOString().split('T')[0]}.csv`);
+      link.style.visibility = 'hidden';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
   };
 
   const emotions = ["Confident", "Neutral", "Anxious", "Excited", "Fearful", "Greedy", "Disciplined"];
-  const activeFiltersCount = Object.values(filters).filter(value => 
-    value && value !== "all" && value !== ""
+  // A custom field and its value count as one filter
+  const activeFiltersCount = Object.entries(filters).filter(([key, value]) => 
+    key !== "field" && value && value !== "all" && value !== ""
   ).length + (searchTerm ? 1 : 0);
 
   return (
@@ -278,6 +409,51 @@ export default function TradeLogEnhanced() {
                         </FormItem>
                       )}
                     />
+
+                    <FormField
+                      control={form.control}
+                      name="side"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Side</FormLabel>
+                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select side" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="long">Long (Buy first)</SelectItem>
+                              <SelectItem value="short">Short (Sell first)</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="status"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Status (Optional)</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="From exit price" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="planned">Planned</SelectItem>
+                              <SelectItem value="open">Open</SelectItem>
+                              <SelectItem value="closed">Closed</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                     
                     <FormField
                       control={form.control}
@@ -321,6 +497,34 @@ export default function TradeLogEnhanced() {
                       )}
                     />
                     
+                    <FormField
+                      control={form.control}
+                      name="entryTime"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Entry Time (IST)</FormLabel>
+                          <FormControl>
+                            <Input type="datetime-local" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    
+                    <FormField
+                      control={form.control}
+                      name="exitTime"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Exit Time (IST)</FormLabel>
+                          <FormControl>
+                            <Input type="datetime-local" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    
                     <FormField
                       control={form.control}
                       name="stopLoss"
@@ -351,7 +555,7 @@ export default function TradeLogEnhanced() {
                     
                     <FormField
                       control={form.control}
-                      name="whichSetup"
+                      name="strategyId"
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Strategy/Setup</FormLabel>
@@ -363,7 +567,7 @@ export default function TradeLogEnhanced() {
                             </FormControl>
                             <SelectContent>
                               {strategies.map((strategy) => (
-                                <SelectItem key={strategy.id} value={strategy.name}>
+                                <SelectItem key={strategy.id} value={String(strategy.id)}>
                                   {strategy.name}
                                 </SelectItem>
                               ))}
@@ -398,28 +602,100 @@ export default function TradeLogEnhanced() {
                         </FormItem>
                       )}
                     />
+
+                    {accounts.length > 0 && (
+                      <FormField
+                        control={form.control}
+                        name="accountId"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Account</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select account" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {accounts.map((account) => (
+                                  <SelectItem key={account.id} value={String(account.id)}>
+                                    {account.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
+                    <FormField
+                      control={form.control}
+                      name="tags"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Tags</FormLabel>
+                          <FormControl>
+                            <Input placeholder="e.g., gap up, earnings" list="trade-tags" {...field} />
+                          </FormControl>
+                          <datalist id="trade-tags">
+                            {tags.map(tag => <option key={tag} value={tag} />)}
+                          </datalist>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="customFields"
+                      render={({ field }) => (
+                        <CustomFieldInputs fields={customFields} values={field.value} onChange={field.onChange} />
+                      )}
+                    />
                   </div>
-                  
+
                   <FormField
                     control={form.control}
-                    name="setupFollowed"
+                    name="mistakes"
                     render={({ field }) => (
-                      <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
-                        <FormControl>
-                          <Checkbox
-                            checked={field.value}
-                            onCheckedChange={field.onChange}
-                          />
-                        </FormControl>
-                        <div className="space-y-1 leading-none">
-                          <FormLabel>
-                            Setup Followed
-                          </FormLabel>
-                          <FormMessage />
-                        </div>
-                      </FormItem>
+                      <MistakePicker categories={mistakeCategories} selected={field.value} onChange={field.onChange} />
                     )}
                   />
+
+                  <PositionSizeCalculator />
+                  
+                  {strategyRules.length > 0 ? (
+                    <FormField
+                      control={form.control}
+                      name="followedRuleIds"
+                      render={({ field }) => (
+                        <RuleChecklist rules={strategyRules} followed={field.value} onChange={field.onChange} />
+                      )}
+                    />
+                  ) : (
+                    <FormField
+                      control={form.control}
+                      name="setupFollowed"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                          <FormControl>
+                            <Checkbox
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                            />
+                          </FormControl>
+                          <div className="space-y-1 leading-none">
+                            <FormLabel>
+                              Setup Followed
+                            </FormLabel>
+                            <FormMessage />
+                          </div>
+                        </FormItem>
+                      )}
+                    />
+                  )}
                   
                   <FormField
                     control={form.control}
@@ -504,6 +780,17 @@ export default function TradeLogEnhanced() {
                   />
                 </div>
                 
+                <Select value={sortOption} onValueChange={(value) => setSortOption(value as SortOption)}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(sortOptions) as SortOption[]).map((key) => (
+                      <SelectItem key={key} value={key}>{sortOptions[key].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                
                 <Dialog open={isFilterOpen} onOpenChange={setIsFilterOpen}>
                   <DialogTrigger asChild>
                     <Button variant="outline" className="relative">
@@ -603,6 +890,105 @@ export default function TradeLogEnhanced() {
                               </FormItem>
                             )}
                           />
+
+                          {tags.length > 0 && (
+                            <FormField
+                              control={filterForm.control}
+                              name="tag"
+                              render={({ field }) => (
+                                <FormItem className="col-span-2">
+                                  <FormLabel>Tag</FormLabel>
+                                  <Select onValueChange={field.onChange} value={field.value}>
+                                    <FormControl>
+                                      <SelectTrigger>
+                                        <SelectValue placeholder="All tags" />
+                                      </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                      <SelectItem value="all-tags">All tags</SelectItem>
+                                      {tags.map((tag) => (
+                                        <SelectItem key={tag} value={tag}>
+                                          {tag}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          )}
+
+                          {customFields.length > 0 && (() => {
+                            const filterField = customFields.find(field => field.id === filterForm.watch("field"));
+                            return (
+                              <>
+                                <FormField
+                                  control={filterForm.control}
+                                  name="field"
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel>Custom Field</FormLabel>
+                                      <Select
+                                        onValueChange={(value) => { field.onChange(value); filterForm.setValue("fieldValue", ""); }}
+                                        value={field.value}
+                                      >
+                                        <FormControl>
+                                          <SelectTrigger>
+                                            <SelectValue placeholder="Any field" />
+                                          </SelectTrigger>
+                                        </FormControl>
+                                        <SelectContent>
+                                          {customFields.map((customField) => (
+                                            <SelectItem key={customField.id} value={customField.id}>
+                                              {customField.label}
+                                            </SelectItem>
+                                          ))}
+                                        </SelectContent>
+                                      </Select>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+
+                                <FormField
+                                  control={filterForm.control}
+                                  name="fieldValue"
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel>Value</FormLabel>
+                                      {filterField?.type === "select" || filterField?.type === "boolean" ? (
+                                        <Select onValueChange={field.onChange} value={field.value}>
+                                          <FormControl>
+                                            <SelectTrigger>
+                                              <SelectValue placeholder="Select value" />
+                                            </SelectTrigger>
+                                          </FormControl>
+                                          <SelectContent>
+                                            {filterField.type === "boolean" ? (
+                                              <>
+                                                <SelectItem value="true">Yes</SelectItem>
+                                                <SelectItem value="false">No</SelectItem>
+                                              </>
+                                            ) : (filterField.options ?? []).map((option) => (
+                                              <SelectItem key={option} value={option}>
+                                                {option}
+                                              </SelectItem>
+                                            ))}
+                                          </SelectContent>
+                                        </Select>
+                                      ) : (
+                                        <FormControl>
+                                          <Input placeholder="Exact value" disabled={!filterField} {...field} />
+                                        </FormControl>
+                                      )}
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                              </>
+                            );
+                          })()}
                           
                           <FormField
                             control={filterForm.control}
@@ -626,6 +1012,29 @@ export default function TradeLogEnhanced() {
                               </FormItem>
                             )}
                           />
+                          
+                          <FormField
+                            control={filterForm.control}
+                            name="setupFollowed"
+                            render={({ field }) => (
+                              <FormItem className="col-span-2">
+                                <FormLabel>Setup Followed</FormLabel>
+                                <Select onValueChange={field.onChange} value={field.value}>
+                                  <FormControl>
+                                    <SelectTrigger>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    <SelectItem value="all">All trades</SelectItem>
+                                    <SelectItem value="true">Followed</SelectItem>
+                                    <SelectItem value="false">Not followed</SelectItem>
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
                         </div>
                         
                         <div className="flex justify-between pt-4">
@@ -654,10 +1063,13 @@ export default function TradeLogEnhanced() {
                 )}
               </div>
               
-              <Button variant="outline" onClick={exportToCSV} disabled={filteredTrades.length === 0}>
-                <Download className="w-4 h-4 mr-2" />
-                Export CSV
-              </Button>
+              <div className="flex items-center space-x-2">
+                <TradebookImportDialog />
+                <Button variant="outline" onClick={exportToCSV} disabled={total === 0}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Export CSV
+                </Button>
+              </div>
             </div>
           </CardContent>
         </Card>
@@ -667,11 +1079,11 @@ export default function TradeLogEnhanced() {
           <CardHeader>
             <CardTitle className="flex items-center justify-between">
               <span>
-                Trades ({filteredTrades.length})
+                Trades ({total})
               </span>
-              {filteredTrades.length !== trades.length && (
+              {total !== unfilteredTotal && (
                 <Badge variant="secondary">
-                  Filtered from {trades.length} total
+                  Filtered from {unfilteredTotal} total
                 </Badge>
               )}
             </CardTitle>
@@ -685,7 +1097,7 @@ export default function TradeLogEnhanced() {
             ) : filteredTrades.length === 0 ? (
               <div className="text-center py-8">
                 <p className="text-gray-600 dark:text-gray-400">
-                  {trades.length === 0 ? "No trades found. Add your first trade to get started." : "No trades match your current filters."}
+                  {unfilteredTotal === 0 ? "No trades found. Add your first trade to get started." : "No trades match your current filters."}
                 </p>
               </div>
             ) : (
@@ -698,7 +1110,7 @@ export default function TradeLogEnhanced() {
                       <TableHead>Qty</TableHead>
                       <TableHead>Entry</TableHead>
                       <TableHead>Exit</TableHead>
-                      <TableHead>P&L</TableHead>
+                      <TableHead>{pnlMode === "net" ? "Net P&L" : "P&L"}</TableHead>
                       <TableHead>P&L %</TableHead>
                       <TableHead>Strategy</TableHead>
                       <TableHead>Emotion</TableHead>
@@ -712,16 +1124,40 @@ export default function TradeLogEnhanced() {
                     {filteredTrades.map((trade) => {
                       const entryPrice = parseFloat(trade.entryPrice || "0");
                       const exitPrice = parseFloat(trade.exitPrice || "0");
-                      const pnl = parseFloat(trade.profitLoss || "0");
-                      const pnlPercent = exitPrice > 0 ? calculatePercentage(entryPrice, exitPrice) : 0;
+                      const pnl = getTradePnL(trade, pnlMode);
+                      const pnlPercent = exitPrice > 0 ? calculatePercentage(entryPrice, exitPrice, trade.side) : 0;
                       const isProfitable = pnl >= 0;
+                      const riskUsage = getRiskUsage(trade, riskConfig);
 
                       return (
                         <TableRow key={trade.id} className="hover:bg-gray-50 dark:hover:bg-gray-800">
                           <TableCell className="font-medium">
                             {isValidDate(trade.tradeDate) ? formatDateForDisplay(trade.tradeDate) : trade.tradeDate}
                           </TableCell>
-                          <TableCell className="font-medium">{trade.stockName}</TableCell>
+                          <TableCell className="font-medium">
+                            {trade.stockName}
+                            {getTradeSide(trade.side) === "short" && (
+                              <Badge variant="outline" className="ml-2 text-xs">Short</Badge>
+                            )}
+                            {getTradeStatus(trade) !== "closed" && (
+                              <Badge variant="secondary" className="ml-2 text-xs">
+                                {TRADE_STATUS_LABELS[getTradeStatus(trade)]}
+                              </Badge>
+                            )}
+                            {riskUsage?.overBudget && (
+                              <Badge variant="destructive" className="ml-2 text-xs" title={`Risked ${formatCurrency(riskUsage.risk)} of a ${formatCurrency(riskUsage.budget)} budget`}>
+                                Over risk
+                              </Badge>
+                            )}
+                            {accountId === null && trade.accountId && accountNames.has(trade.accountId) && (
+                              <Badge variant="outline" className="ml-2 text-xs">{accountNames.get(trade.accountId)}</Badge>
+                            )}
+                            {isOutsideRules(trade) && (
+                              <Badge variant="destructive" className="ml-2 text-xs" title={trade.ruleBreaches!.map(rule => DAILY_RULE_LABELS[rule]).join(", ")}>
+                                Outside rules
+                              </Badge>
+                            )}
+                          </TableCell>
                           <TableCell>{trade.quantity}</TableCell>
                           <TableCell>{formatCurrency(entryPrice)}</TableCell>
                           <TableCell>{exitPrice > 0 ? formatCurrency(exitPrice) : "-"}</TableCell>
@@ -749,6 +1185,13 @@ export default function TradeLogEnhanced() {
                             {trade.whichSetup ? (
                               <Badge variant="outline">{trade.whichSetup}</Badge>
                             ) : "-"}
+                            {trade.tags && trade.tags.length > 0 && (
+                              <div className="mt-1 flex flex-wrap gap-1">
+                                {trade.tags.map(tag => (
+                                  <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                                ))}
+                              </div>
+                            )}
                           </TableCell>
                           <TableCell>
                             {trade.emotion ? (
@@ -796,6 +1239,9 @@ export default function TradeLogEnhanced() {
                     })}
                   </TableBody>
                 </Table>
+                <div ref={loadMoreRef} className="py-4 text-center text-sm text-gray-500">
+                  {isFetchingNextPage ? "Loading more trades..." : hasNextPage ? "" : `Showing all ${total} trades`}
+                </div>
               </div>
             )}
           </CardContent>
@@ -0,0 +1,197 @@
+import { motion } from "framer-motion";
+import { Trash2, RotateCcw, XCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { useTrash } from "@/hooks/use-trash";
+import { useAuth } from "@/hooks/use-auth";
+import { isStaticBuild } from "@/lib/google-sheets";
+import { formatCurrency, getTradePnL } from "@/lib/calculations";
+import { useAppContext } from "@/contexts/app-context";
+import { formatDateForDisplay } from "@/utils/date-utils";
+import { getPurgeDate } from "@shared/trash";
+import type { AuditEntity } from "@shared/schema";
+
+const RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+
+interface TrashRow {
+  entity: AuditEntity;
+  id: number;
+  title: string;
+  detail: string;
+  deletedAt: Date | string;
+}
+
+function formatDay(value: Date | string) {
+  return new Date(value).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" });
+}
+
+function TrashSection({ title, rows, retentionDays }: { title: string; rows: TrashRow[]; retentionDays: number }) {
+  const { restore, purge, isRestoring, isPurging } = useTrash();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{title} ({rows.length})</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing here.</p>
+        ) : (
+          <div className="divide-y divide-gray-100 dark:divide-gray-800">
+            {rows.map((row) => (
+              <div key={row.id} className="flex items-center justify-between py-3">
+                <div>
+                  <p className="font-medium text-gray-900 dark:text-gray-100">{row.title}</p>
+                  <p className="text-xs text-gray-500">
+                    {row.detail && <>{row.detail} · </>}
+                    Deleted {formatDay(row.deletedAt)} · Purged {formatDay(getPurgeDate(row.deletedAt, retentionDays))}
+                  </p>
+                </div>
+                <div className="flex space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => restore({ entity: row.entity, id: row.id })}
+                    disabled={isRestoring}
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    Restore
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm" disabled={isPurging}>
+                        <XCircle className="w-4 h-4 mr-1" />
+                        Delete Forever
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete Forever</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          {row.title} will be removed from the app and from your sheet. This action cannot be undone.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => purge({ entity: row.entity, id: row.id })}>
+                          Delete Forever
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Trash() {
+  const { trash, isLoading, emptyTrash, setRetentionDays, isPurging } = useTrash();
+  const { user } = useAuth();
+  const { pnlMode } = useAppContext();
+
+  const tradeRows: TrashRow[] = (trash?.trades ?? []).map(trade => ({
+    entity: "trade",
+    id: trade.id,
+    title: trade.stockName,
+    detail: `${formatDateForDisplay(trade.tradeDate)} · ${formatCurrency(getTradePnL(trade, pnlMode))}`,
+    deletedAt: trade.deletedAt!,
+  }));
+  const strategyRows: TrashRow[] = (trash?.strategies ?? []).map(strategy => ({
+    entity: "strategy",
+    id: strategy.id,
+    title: strategy.name,
+    detail: strategy.description ?? "",
+    deletedAt: strategy.deletedAt!,
+  }));
+  const psychologyRows: TrashRow[] = (trash?.psychologyEntries ?? []).map(entry => ({
+    entity: "psychologyEntry",
+    id: entry.id,
+    title: `${entry.month} ${entry.year}`,
+    detail: entry.monthlyPnL ? formatCurrency(entry.monthlyPnL) : "",
+    deletedAt: entry.deletedAt!,
+  }));
+  const total = tradeRows.length + strategyRows.length + psychologyRows.length;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      transition={{ duration: 0.3 }}
+      className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6"
+    >
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Trash</h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Deleted trades, strategies and psychology entries. They are left out of analytics and purged for good after the retention window.
+          </p>
+        </div>
+
+        {trash && (
+          <div className="flex items-center space-x-2">
+            <span className="text-sm text-gray-500">Keep for</span>
+            <Select
+              value={String(trash.retentionDays)}
+              onValueChange={(value) => setRetentionDays(Number(value))}
+              disabled={!user?.isAdmin}
+            >
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from(new Set([...RETENTION_OPTIONS, trash.retentionDays])).sort((a, b) => a - b).map(days => (
+                  <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="destructive" size="sm" disabled={total === 0 || isPurging}>
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Empty Trash
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Empty Trash</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    All {total} item{total === 1 ? "" : "s"} will be removed from the app and from your sheet. This action cannot be undone.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => emptyTrash()}>Empty Trash</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        )}
+      </div>
+
+      {isStaticBuild ? (
+        <Card>
+          <CardContent className="pt-6 text-sm text-gray-600 dark:text-gray-400">
+            This build talks to Google Sheets directly, so deleted rows stay in the sheet with a Deleted At date.
+            Clear that cell to restore a row, or delete the row to remove it for good.
+          </CardContent>
+        </Card>
+      ) : isLoading || !trash ? (
+        <p className="text-sm text-gray-500">Loading trash...</p>
+      ) : (
+        <>
+          <TrashSection title="Trades" rows={tradeRows} retentionDays={trash.retentionDays} />
+          <TrashSection title="Strategies" rows={strategyRows} retentionDays={trash.retentionDays} />
+          <TrashSection title="Psychology Entries" rows={psychologyRows} retentionDays={trash.retentionDays} />
+        </>
+      )}
+    </motion.div>
+  );
+}
@@ -12,7 +12,8 @@ const CONFIG = {
   SHEETS: {
     TRADES: 'Trades',
     STRATEGIES: 'Strategies', 
-    PSYCHOLOGY: 'Psychology'
+    PSYCHOLOGY: 'Psychology',
+    FILLS: 'Fills'
   }
 };
 
@@ -20,18 +21,32 @@ const CONFIG = {
 const TRADES_HEADERS = [
   'ID', 'Trade Date', 'Stock Name', 'Quantity', 'Entry Price', 'Exit Price', 
   'Stop Loss', 'Target Price', 'P&L', 'Setup Followed', 'Strategy', 'Emotion', 
-  'Trade Notes', 'Psychology Reflections', 'Screenshot Link', 'Created At'
+  'Trade Notes', 'Psychology Reflections', 'Screenshot Link', 'Created At', 'Updated At', 'Side',
+  'Charges', 'Net P&L', 'Status', 'Rule Breaches', 'Account ID', 'Deleted At',
+  'Compliance Score', 'Rule Checks', 'Strategy Version', 'Strategy ID', 'Tags', 'Mistakes',
+  'Entry Time', 'Exit Time'
 ];
 
 const STRATEGIES_HEADERS = [
-  'ID', 'Name', 'Description', 'Screenshot URL', 'Tags', 'Status', 'Created At'
+  'ID', 'Name', 'Description', 'Screenshot URL', 'Tags', 'Status', 'Created At', 'Updated At', 'Deleted At', 'Rules',
+  'Version', 'Versions'
+];
+
+const FILLS_HEADERS = [
+  'Trade ID', 'Fill ID', 'Type', 'Quantity', 'Price', 'Time'
 ];
 
 const PSYCHOLOGY_HEADERS = [
   'ID', 'Month', 'Year', 'Monthly P&L', 'Best Trade ID', 'Worst Trade ID',
-  'Mental Reflections', 'Improvement Areas', 'Created At'
+  'Mental Reflections', 'Improvement Areas', 'Created At', 'Updated At', 'Deleted At'
 ];
 
+const HEADERS_BY_SHEET = {};
+HEADERS_BY_SHEET[CONFIG.SHEETS.TRADES] = TRADES_HEADERS;
+HEADERS_BY_SHEET[CONFIG.SHEETS.STRATEGIES] = STRATEGIES_HEADERS;
+HEADERS_BY_SHEET[CONFIG.SHEETS.PSYCHOLOGY] = PSYCHOLOGY_HEADERS;
+HEADERS_BY_SHEET[CONFIG.SHEETS.FILLS] = FILLS_HEADERS;
+
 /**
  * INDIAN TIMEZONE FUNCTIONS
  */
@@ -60,6 +75,179 @@ function formatIndianDate(date) {
   });
 }
 
+/**
+ * TIMESTAMP HELPERS
+ * 'Updated At' holds ISO timestamps so the dashboard can tell which side changed last
+ */
+function getTimestamp(value) {
+  if (!value) return null;
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+// Sheets turns YYYY-MM-DD into a Date at midnight IST; read it back in the sheet's timezone
+function getSheetDateString(value) {
+  if (!value) return new Date().toISOString().split('T')[0];
+  if (value instanceof Date) {
+    return Utilities.formatDate(value, Session.getScriptTimeZone(), 'yyyy-MM-dd');
+  }
+  return new Date(value).toISOString().split('T')[0];
+}
+
+/**
+ * TRASH - deleting a row stamps 'Deleted At' instead of removing it, so the
+ * app can restore it. Only a purge (sent by the backend) removes the row.
+ */
+function isDeletedRow(row, headers) {
+  return !!row[headers.indexOf('Deleted At')];
+}
+
+function trashOrPurgeRow(sheet, rowIndex, headers, purge) {
+  if (purge) {
+    sheet.deleteRow(rowIndex + 1);
+    return;
+  }
+  const now = new Date().toISOString();
+  sheet.getRange(rowIndex + 1, headers.indexOf('Updated At') + 1).setValue(now);
+  sheet.getRange(rowIndex + 1, headers.indexOf('Deleted At') + 1).setValue(now);
+}
+
+// Updates send deletedAt: null to restore a row, and leave it out to keep the current value
+function getDeletedAtCell(record, current) {
+  if (record.deletedAt === undefined) return current || '';
+  return getTimestamp(record.deletedAt) || '';
+}
+
+/**
+ * RULES - a strategy's checklist and a trade's answers to it are stored as
+ * JSON in a single cell each
+ */
+function parseJsonCell(value) {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) && parsed.length > 0 ? parsed : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+function toJsonCell(value) {
+  return Array.isArray(value) && value.length > 0 ? JSON.stringify(value) : '';
+}
+
+// Same convention as Deleted At: a field left out of an update keeps the current cell
+function getJsonCell(record, field, current) {
+  if (record[field] === undefined) return current || '';
+  return toJsonCell(record[field]);
+}
+
+// The backend sends the score it derived; the static app only sends the checks, so score them here
+function getComplianceScoreCell(trade, current) {
+  if (trade.ruleChecks === undefined) return current !== undefined ? current : '';
+  if (!Array.isArray(trade.ruleChecks) || trade.ruleChecks.length === 0) return '';
+  const followed = trade.ruleChecks.filter(check => check.followed).length;
+  return Math.round((followed / trade.ruleChecks.length) * 100);
+}
+
+/**
+ * CUSTOM FIELDS - one column per field after the fixed trade columns, headed
+ * with the field's ID. A column is added the first time its field is written
+ */
+function getCustomFieldColumns(sheet) {
+  const extra = sheet.getLastColumn() - TRADES_HEADERS.length;
+  if (extra <= 0) return [];
+  return sheet.getRange(1, TRADES_HEADERS.length + 1, 1, extra).getValues()[0].map(String);
+}
+
+function readCustomFields(row, columns) {
+  const values = {};
+  columns.forEach((fieldId, index) => {
+    const cell = row[TRADES_HEADERS.length + index];
+    if (fieldId && cell !== '' && cell !== undefined && cell !== null) values[fieldId] = cell;
+  });
+  return Object.keys(values).length > 0 ? values : null;
+}
+
+// Left out of an update keeps the current cells; otherwise every field column is
+// rewritten, so a value removed from the trade is cleared in the sheet too
+function writeCustomFields(sheet, rowNumber, customFields) {
+  if (customFields === undefined) return;
+  const values = customFields || {};
+  const columns = getCustomFieldColumns(sheet);
+  Object.keys(values).forEach(fieldId => {
+    if (columns.indexOf(fieldId) !== -1) return;
+    columns.push(fieldId);
+    sheet.getRange(1, TRADES_HEADERS.length + columns.length).setValue(fieldId).setFontWeight('bold');
+  });
+  if (columns.length === 0) return;
+
+  const cells = columns.map(fieldId => values[fieldId] !== undefined ? values[fieldId] : '');
+  sheet.getRange(rowNumber, TRADES_HEADERS.length + 1, 1, columns.length).setValues([cells]);
+}
+
+/**
+ * HEADER MIGRATION - a new sheet gets the full header row; a sheet set up by an
+ * older version of this script gets the names of the columns added since. Extra
+ * columns after the fixed ones (custom fields) are moved right to make room
+ */
+function ensureHeaders(sheet, headers) {
+  if (sheet.getLastRow() === 0) {
+    sheet.getRange(1, 1, 1, headers.length).setValues([headers]);
+    sheet.getRange(1, 1, 1, headers.length).setFontWeight('bold');
+    sheet.setFrozenRows(1);
+    return;
+  }
+
+  const current = sheet.getRange(1, 1, 1, sheet.getLastColumn()).getValues()[0].map(String);
+  let known = 0;
+  current.forEach((header, index) => {
+    if (headers.indexOf(header) !== -1) known = index + 1;
+  });
+  // Unlabelled columns right after the known ones hold data for the missing headers, so they stay put
+  let extrasStart = -1;
+  for (let index = known; index < current.length; index++) {
+    if (current[index]) {
+      extrasStart = index;
+      break;
+    }
+  }
+  if (extrasStart !== -1 && extrasStart < headers.length) {
+    sheet.insertColumnsBefore(extrasStart + 1, headers.length - extrasStart);
+    current.splice(extrasStart, 0, ...new Array(headers.length - extrasStart).fill(''));
+  }
+
+  headers.forEach((header, index) => {
+    if (!current[index]) {
+      sheet.getRange(1, index + 1).setValue(header).setFontWeight('bold');
+    }
+  });
+}
+
+/**
+ * Simple trigger: stamp 'Updated At' whenever a row is edited by hand, so
+ * reconciliation can tell sheet edits apart from stale rows
+ */
+function onEdit(e) {
+  const range = e.range;
+  const sheet = range.getSheet();
+  const headers = HEADERS_BY_SHEET[sheet.getName()];
+  if (!headers || headers === FILLS_HEADERS) return;
+
+  const column = headers.indexOf('Updated At') + 1;
+  const firstRow = Math.max(range.getRow(), 2);
+  const lastRow = range.getLastRow();
+  // Ignore header edits and edits to the stamp itself
+  if (lastRow < firstRow) return;
+  if (range.getColumn() === column && range.getLastColumn() === column) return;
+
+  const now = new Date().toISOString();
+  const stamps = [];
+  for (let row = firstRow; row <= lastRow; row++) {
+    stamps.push([now]);
+  }
+  sheet.getRange(firstRow, column, stamps.length, 1).setValues(stamps);
+}
+
 /**
  * FAST CACHING - 30 second cache for speed
  */
@@ -78,6 +266,10 @@ function getCachedSheet(sheetName) {
   }
   
   const sheet = SpreadsheetApp.openById(CONFIG.SPREADSHEET_ID).getSheetByName(sheetName);
+  // Checked each time the cache refreshes, so an upgraded script fixes old sheets on first use
+  if (sheet && HEADERS_BY_SHEET[sheetName]) {
+    ensureHeaders(sheet, HEADERS_BY_SHEET[sheetName]);
+  }
   CACHE.data.set(sheetName, sheet);
   CACHE.timestamps.set(sheetName, Date.now());
   
@@ -100,13 +292,13 @@ function doGet(e) {
         result = { success: true, message: 'JSONP Connection successful!', timestamp: getISTDateTime() };
         break;
       case 'getTrades':
-        result = handleGetTrades();
+        result = handleGetTrades(data);
         break;
       case 'getStrategies':
-        result = handleGetStrategies();
+        result = handleGetStrategies(data);
         break;
       case 'getPsychologyEntries':
-        result = handleGetPsychologyEntries();
+        result = handleGetPsychologyEntries(data);
         break;
       case 'addTrade':
         result = handleAddTrade({ data });
@@ -180,13 +372,13 @@ function doPost(e) {
         result = { success: true, message: 'POST Connection successful!', timestamp: getISTDateTime() };
         break;
       case 'getTrades':
-        result = handleGetTrades();
+        result = handleGetTrades(requestData.data || {});
         break;
       case 'getStrategies':
-        result = handleGetStrategies();
+        result = handleGetStrategies(requestData.data || {});
         break;
       case 'getPsychologyEntries':
-        result = handleGetPsychologyEntries();
+        result = handleGetPsychologyEntries(requestData.data || {});
         break;
       case 'addTrade':
         result = handleAddTrade(requestData);
@@ -234,10 +426,83 @@ function doPost(e) {
   }
 }
 
+/**
+ * FILLS - one row per entry/exit fill, keyed by trade ID
+ */
+function getFillsSheet() {
+  let sheet = getCachedSheet(CONFIG.SHEETS.FILLS);
+  if (!sheet) {
+    sheet = SpreadsheetApp.openById(CONFIG.SPREADSHEET_ID).insertSheet(CONFIG.SHEETS.FILLS);
+    ensureHeaders(sheet, FILLS_HEADERS);
+    CACHE.data.set(CONFIG.SHEETS.FILLS, sheet);
+    CACHE.timestamps.set(CONFIG.SHEETS.FILLS, Date.now());
+  }
+  return sheet;
+}
+
+function getFillsByTrade() {
+  const data = getFillsSheet().getDataRange().getValues();
+  const fillsByTrade = {};
+
+  data.slice(1).forEach(row => {
+    if (!row[0]) return;
+    const tradeId = String(row[0]);
+    if (!fillsByTrade[tradeId]) fillsByTrade[tradeId] = [];
+    fillsByTrade[tradeId].push({
+      id: String(row[1]),
+      type: row[2] === 'exit' ? 'exit' : 'entry',
+      quantity: Number(row[3]) || 0,
+      price: String(row[4]),
+      time: row[5] instanceof Date ? row[5].toISOString() : String(row[5] || '')
+    });
+  });
+
+  return fillsByTrade;
+}
+
+function deleteTradeFills(tradeId) {
+  const sheet = getFillsSheet();
+  const data = sheet.getDataRange().getValues();
+
+  // Bottom-up so deleting a row doesn't shift the ones still to check
+  for (let i = data.length - 1; i >= 1; i--) {
+    if (data[i][0] == tradeId) {
+      sheet.deleteRow(i + 1);
+    }
+  }
+}
+
+// Replace all fills for a trade with the given list
+function writeTradeFills(tradeId, fills) {
+  deleteTradeFills(tradeId);
+  if (!fills || fills.length === 0) return;
+
+  const rows = fills.map(fill => [
+    tradeId,
+    fill.id || '',
+    fill.type === 'exit' ? 'exit' : 'entry',
+    fill.quantity || 0,
+    fill.price || '0',
+    fill.time || ''
+  ]);
+  const sheet = getFillsSheet();
+  sheet.getRange(sheet.getLastRow() + 1, 1, rows.length, FILLS_HEADERS.length).setValues(rows);
+}
+
 /**
  * DATA HANDLERS
  */
-function handleGetTrades() {
+// Index into getValues() of the row holding this ID, or -1
+function findRowById(data, id) {
+  if (id === undefined || id === null || id === '') return -1;
+  for (let i = 1; i < data.length; i++) {
+    if (data[i][0] == id) return i;
+  }
+  return -1;
+}
+
+// Trashed rows are left out unless includeDeleted is set; the backend sets it to reconcile the trash
+function handleGetTrades(options) {
   try {
     const sheet = getCachedSheet(CONFIG.SHEETS.TRADES);
     const data = sheet.getDataRange().getValues();
@@ -246,9 +511,12 @@ function handleGetTrades() {
       return { success: true, data: [] };
     }
     
-    const trades = data.slice(1).map(row => ({
+    const includeDeleted = !!(options && options.includeDeleted);
+    const fillsByTrade = getFillsByTrade();
+    const customFieldColumns = data[0].slice(TRADES_HEADERS.length).map(String);
+    const trades = data.slice(1).filter(row => includeDeleted || !isDeletedRow(row, TRADES_HEADERS)).map(row => ({
       id: row[0] || Date.now() + Math.random(),
-      tradeDate: row[1] ? new Date(row[1]).toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
+      tradeDate: getSheetDateString(row[1]),
       stockName: row[2] || '',
       quantity: parseInt(row[3]) || 0,
       entryPrice: row[4] || '0',
@@ -263,7 +531,25 @@ function handleGetTrades() {
       notes: row[12] || null,
       psychologyReflections: row[13] || '',
       screenshotUrl: row[14] || '',
-      createdAt: row[15] || getISTDateTime()
+      createdAt: row[15] || getISTDateTime(),
+      updatedAt: getTimestamp(row[16]),
+      side: String(row[17]).toLowerCase() === 'short' ? 'short' : 'long',
+      charges: row[18] !== '' && row[18] !== undefined ? String(row[18]) : null,
+      netPnL: row[19] !== '' && row[19] !== undefined ? String(row[19]) : null,
+      status: row[20] ? String(row[20]).toLowerCase() : null,
+      ruleBreaches: row[21] ? String(row[21]).split(',').map(rule => rule.trim()).filter(Boolean) : null,
+      accountId: row[22] ? Number(row[22]) : null,
+      deletedAt: getTimestamp(row[23]),
+      complianceScore: row[24] !== '' && row[24] !== undefined ? Number(row[24]) : null,
+      ruleChecks: parseJsonCell(row[25]),
+      strategyVersion: row[26] ? Number(row[26]) : null,
+      strategyId: row[27] ? Number(row[27]) : null,
+      tags: row[28] ? String(row[28]).split(',').map(tag => tag.trim()).filter(Boolean) : null,
+      mistakes: row[29] ? String(row[29]).split(',').map(id => id.trim()).filter(Boolean) : null,
+      entryTime: getTimestamp(row[30]),
+      exitTime: getTimestamp(row[31]),
+      customFields: readCustomFields(row, customFieldColumns),
+      fills: fillsByTrade[String(row[0])] || null
     }));
     
     return { success: true, data: trades };
@@ -272,7 +558,7 @@ function handleGetTrades() {
   }
 }
 
-function handleGetStrategies() {
+function handleGetStrategies(options) {
   try {
     const sheet = getCachedSheet(CONFIG.SHEETS.STRATEGIES);
     const data = sheet.getDataRange().getValues();
@@ -281,14 +567,20 @@ function handleGetStrategies() {
       return { success: true, data: [] };
     }
     
-    const strategies = data.slice(1).map(row => ({
+    const includeDeleted = !!(options && options.includeDeleted);
+    const strategies = data.slice(1).filter(row => includeDeleted || !isDeletedRow(row, STRATEGIES_HEADERS)).map(row => ({
       id: row[0] || Date.now() + Math.random(),
       name: row[1] || '',
       description: row[2] || '',
       screenshotUrl: row[3] || '',
       tags: row[4] ? row[4].split(',').map(tag => tag.trim()) : null,
       status: row[5] || 'active',
-      createdAt: row[6] || getISTDateTime()
+      createdAt: row[6] || getISTDateTime(),
+      updatedAt: getTimestamp(row[7]),
+      deletedAt: getTimestamp(row[8]),
+      rules: parseJsonCell(row[9]),
+      version: row[10] ? Number(row[10]) : null,
+      versions: parseJsonCell(row[11])
     }));
     
     return { success: true, data: strategies };
@@ -297,7 +589,7 @@ function handleGetStrategies() {
   }
 }
 
-function handleGetPsychologyEntries() {
+function handleGetPsychologyEntries(options) {
   try {
     const sheet = getCachedSheet(CONFIG.SHEETS.PSYCHOLOGY);
     const data = sheet.getDataRange().getValues();
@@ -306,7 +598,8 @@ function handleGetPsychologyEntries() {
       return { success: true, data: [] };
     }
     
-    const entries = data.slice(1).map(row => ({
+    const includeDeleted = !!(options && options.includeDeleted);
+    const entries = data.slice(1).filter(row => includeDeleted || !isDeletedRow(row, PSYCHOLOGY_HEADERS)).map(row => ({
       id: row[0] || Date.now() + Math.random(),
       month: row[1] || '',
       year: parseInt(row[2]) || new Date().getFullYear(),
@@ -315,7 +608,9 @@ function handleGetPsychologyEntries() {
       worstTradeId: row[5] ? parseInt(row[5]) : null,
       mentalReflections: row[6] || '',
       improvementAreas: row[7] || '',
-      createdAt: row[8] || getISTDateTime()
+      createdAt: row[8] || getISTDateTime(),
+      updatedAt: getTimestamp(row[9]),
+      deletedAt: getTimestamp(row[10])
     }));
     
     return { success: true, data: entries };
@@ -328,23 +623,11 @@ function handleAddTrade(requestData) {
   try {
     const sheet = getCachedSheet(CONFIG.SHEETS.TRADES);
     
-    if (sheet.getLastRow() === 0) {
-      sheet.getRange(1, 1, 1, TRADES_HEADERS.length).setValues([TRADES_HEADERS]);
-      sheet.getRange(1, 1, 1, TRADES_HEADERS.length).setFontWeight('bold');
-      sheet.setFrozenRows(1);
-    }
-    
     const trade = requestData.data || requestData;
     
-    // Check for duplicates
-    const existingData = sheet.getDataRange().getValues();
-    for (let i = 1; i < existingData.length; i++) {
-      const row = existingData[i];
-      if (row[2] === trade.stockName && 
-          row[1] && new Date(row[1]).toISOString().split('T')[0] === trade.tradeDate &&
-          row[4] === trade.entryPrice) {
-        return { success: true, message: 'Duplicate prevented', data: trade };
-      }
+    // The backend retries an add whose response was lost, so a row with this ID is updated in place
+    if (findRowById(sheet.getDataRange().getValues(), trade.id) !== -1) {
+      return handleUpdateTrade(requestData);
     }
     
     // Create row
@@ -363,11 +646,31 @@ function handleAddTrade(requestData) {
       trade.emotion || '',
       trade.notes || '',
       trade.psychologyReflections || '',
-      trade.screenshotUrl || '',
-      getISTDateTime()
+      trade.screenshotLink || trade.screenshotUrl || '',
+      getISTDateTime(),
+      getTimestamp(trade.updatedAt) || new Date().toISOString(),
+      trade.side === 'short' ? 'Short' : 'Long',
+      trade.charges || '',
+      trade.netPnL || '',
+      trade.status || '',
+      trade.ruleBreaches ? trade.ruleBreaches.join(',') : '',
+      trade.accountId || '',
+      getTimestamp(trade.deletedAt) || '',
+      getComplianceScoreCell(trade),
+      toJsonCell(trade.ruleChecks),
+      trade.strategyVersion || '',
+      trade.strategyId || '',
+      Array.isArray(trade.tags) ? trade.tags.join(',') : '',
+      Array.isArray(trade.mistakes) ? trade.mistakes.join(',') : '',
+      trade.entryTime || '',
+      trade.exitTime || ''
     ];
     
     sheet.appendRow(row);
+    writeCustomFields(sheet, sheet.getLastRow(), trade.customFields);
+    if (trade.fills) {
+      writeTradeFills(row[0], trade.fills);
+    }
     
     return { success: true, data: trade, timestamp: getISTDateTime() };
   } catch (error) {
@@ -379,21 +682,11 @@ function handleAddStrategy(requestData) {
   try {
     const sheet = getCachedSheet(CONFIG.SHEETS.STRATEGIES);
     
-    if (sheet.getLastRow() === 0) {
-      sheet.getRange(1, 1, 1, STRATEGIES_HEADERS.length).setValues([STRATEGIES_HEADERS]);
-      sheet.getRange(1, 1, 1, STRATEGIES_HEADERS.length).setFontWeight('bold');
-      sheet.setFrozenRows(1);
-    }
-    
     const strategy = requestData.data || requestData;
     
-    // Check for duplicates
-    const existingData = sheet.getDataRange().getValues();
-    for (let i = 1; i < existingData.length; i++) {
-      const row = existingData[i];
-      if (row[1] === strategy.name) {
-        return { success: true, message: 'Duplicate prevented', data: strategy };
-      }
+    // Matched by ID, not name: a new strategy may reuse a trashed or renamed one's name
+    if (findRowById(sheet.getDataRange().getValues(), strategy.id) !== -1) {
+      return handleUpdateStrategy(requestData);
     }
     
     const row = [
@@ -403,7 +696,12 @@ function handleAddStrategy(requestData) {
       strategy.screenshotUrl || '',
       Array.isArray(strategy.tags) ? strategy.tags.join(',') : (strategy.tags || ''),
       strategy.status || 'active',
-      getISTDateTime()
+      getISTDateTime(),
+      getTimestamp(strategy.updatedAt) || new Date().toISOString(),
+      getTimestamp(strategy.deletedAt) || '',
+      toJsonCell(strategy.rules),
+      strategy.version || '',
+      toJsonCell(strategy.versions)
     ];
     
     sheet.appendRow(row);
@@ -418,21 +716,10 @@ function handleAddPsychologyEntry(requestData) {
   try {
     const sheet = getCachedSheet(CONFIG.SHEETS.PSYCHOLOGY);
     
-    if (sheet.getLastRow() === 0) {
-      sheet.getRange(1, 1, 1, PSYCHOLOGY_HEADERS.length).setValues([PSYCHOLOGY_HEADERS]);
-      sheet.getRange(1, 1, 1, PSYCHOLOGY_HEADERS.length).setFontWeight('bold');
-      sheet.setFrozenRows(1);
-    }
-    
     const entry = requestData.data || requestData;
     
-    // Check for duplicates
-    const existingData = sheet.getDataRange().getValues();
-    for (let i = 1; i < existingData.length; i++) {
-      const row = existingData[i];
-      if (row[1] === entry.month && row[2] === entry.year) {
-        return { success: true, message: 'Duplicate prevented', data: entry };
-      }
+    if (findRowById(sheet.getDataRange().getValues(), entry.id) !== -1) {
+      return handleUpdatePsychologyEntry(requestData);
     }
     
     const row = [
@@ -444,7 +731,9 @@ function handleAddPsychologyEntry(requestData) {
       entry.worstTradeId || '',
       entry.mentalReflections || '',
       entry.improvementAreas || '',
-      getISTDateTime()
+      getISTDateTime(),
+      getTimestamp(entry.updatedAt) || new Date().toISOString(),
+      getTimestamp(entry.deletedAt) || ''
     ];
     
     sheet.appendRow(row);
@@ -470,7 +759,7 @@ function handleUpdateTrade(requestData) {
         // Update the row
         const row = [
           trade.id,
-          formatIndianDate(trade.tradeDate || data[i][1]),
+          trade.tradeDate || getSheetDateString(data[i][1]),
           trade.stockName || data[i][2],
           trade.quantity || data[i][3],
           trade.entryPrice || data[i][4],
@@ -479,15 +768,35 @@ function handleUpdateTrade(requestData) {
           trade.targetPrice || data[i][7],
           trade.profitLoss || data[i][8],
           trade.setupFollowed !== undefined ? (trade.setupFollowed ? 'Yes' : 'No') : data[i][9],
-          trade.strategy || data[i][10],
+          trade.whichSetup || trade.strategy || data[i][10],
           trade.emotion || data[i][11],
-          trade.tradeNotes || data[i][12],
+          trade.notes || trade.tradeNotes || data[i][12],
           trade.psychologyReflections || data[i][13],
-          trade.screenshotUrl || data[i][14],
-          data[i][15] // Keep original created date
+          trade.screenshotLink || trade.screenshotUrl || data[i][14],
+          data[i][15], // Keep original created date
+          getTimestamp(trade.updatedAt) || new Date().toISOString(),
+          trade.side ? (trade.side === 'short' ? 'Short' : 'Long') : (data[i][17] || 'Long'),
+          trade.charges !== undefined ? (trade.charges || '') : (data[i][18] || ''),
+          trade.netPnL !== undefined ? (trade.netPnL || '') : (data[i][19] || ''),
+          trade.status || data[i][20] || '',
+          trade.ruleBreaches !== undefined ? (trade.ruleBreaches || []).join(',') : (data[i][21] || ''),
+          trade.accountId !== undefined ? (trade.accountId || '') : (data[i][22] || ''),
+          getDeletedAtCell(trade, data[i][23]),
+          getComplianceScoreCell(trade, data[i][24]),
+          getJsonCell(trade, 'ruleChecks', data[i][25]),
+          trade.strategyVersion !== undefined ? (trade.strategyVersion || '') : (data[i][26] || ''),
+          trade.strategyId !== undefined ? (trade.strategyId || '') : (data[i][27] || ''),
+          trade.tags !== undefined ? (trade.tags || []).join(',') : (data[i][28] || ''),
+          trade.mistakes !== undefined ? (trade.mistakes || []).join(',') : (data[i][29] || ''),
+          trade.entryTime !== undefined ? (trade.entryTime || '') : (data[i][30] || ''),
+          trade.exitTime !== undefined ? (trade.exitTime || '') : (data[i][31] || '')
         ];
         
         sheet.getRange(i + 1, 1, 1, TRADES_HEADERS.length).setValues([row]);
+        writeCustomFields(sheet, i + 1, trade.customFields);
+        if (trade.fills !== undefined) {
+          writeTradeFills(trade.id, trade.fills);
+        }
         return { success: true, data: trade, timestamp: getISTDateTime() };
       }
     }
@@ -501,14 +810,17 @@ function handleUpdateTrade(requestData) {
 function handleDeleteTrade(requestData) {
   try {
     const sheet = getCachedSheet(CONFIG.SHEETS.TRADES);
-    const { id } = requestData.data || requestData;
+    const { id, purge } = requestData.data || requestData;
     const data = sheet.getDataRange().getValues();
     
-    // Find and delete the trade by ID
+    // Find the trade by ID and move it to the trash, or remove it for good when purging
     for (let i = 1; i < data.length; i++) {
       if (data[i][0] == id) {
-        sheet.deleteRow(i + 1);
-        return { success: true, message: 'Trade deleted successfully' };
+        trashOrPurgeRow(sheet, i, TRADES_HEADERS, purge);
+        if (purge) {
+          deleteTradeFills(id);
+        }
+        return { success: true, message: purge ? 'Trade purged successfully' : 'Trade moved to trash' };
       }
     }
     
@@ -532,9 +844,14 @@ function handleUpdateStrategy(requestData) {
           strategy.name || data[i][1],
           strategy.description || data[i][2],
           strategy.screenshotUrl || data[i][3],
-          strategy.tags || data[i][4],
+          Array.isArray(strategy.tags) ? strategy.tags.join(',') : (strategy.tags || data[i][4]),
           strategy.status || data[i][5],
-          data[i][6] // Keep original created date
+          data[i][6], // Keep original created date
+          getTimestamp(strategy.updatedAt) || new Date().toISOString(),
+          getDeletedAtCell(strategy, data[i][8]),
+          getJsonCell(strategy, 'rules', data[i][9]),
+          strategy.version || data[i][10] || '',
+          getJsonCell(strategy, 'versions', data[i][11])
         ];
         
         sheet.getRange(i + 1, 1, 1, STRATEGIES_HEADERS.length).setValues([row]);
@@ -551,14 +868,14 @@ function handleUpdateStrategy(requestData) {
 function handleDeleteStrategy(requestData) {
   try {
     const sheet = getCachedSheet(CONFIG.SHEETS.STRATEGIES);
-    const { id } = requestData.data || requestData;
+    const { id, purge } = requestData.data || requestData;
     const data = sheet.getDataRange().getValues();
     
-    // Find and delete the strategy by ID
+    // Find the strategy by ID and move it to the trash, or remove it for good when purging
     for (let i = 1; i < data.length; i++) {
       if (data[i][0] == id) {
-        sheet.deleteRow(i + 1);
-        return { success: true, message: 'Strategy deleted successfully' };
+        trashOrPurgeRow(sheet, i, STRATEGIES_HEADERS, purge);
+        return { success: true, message: purge ? 'Strategy purged successfully' : 'Strategy moved to trash' };
       }
     }
     
@@ -586,7 +903,9 @@ function handleUpdatePsychologyEntry(requestData) {
           entry.worstTradeId !== undefined ? entry.worstTradeId : data[i][5],
           entry.mentalReflections !== undefined ? entry.mentalReflections : data[i][6],
           entry.improvementAreas !== undefined ? entry.improvementAreas : data[i][7],
-          data[i][8] // Keep original created date
+          data[i][8], // Keep original created date
+          getTimestamp(entry.updatedAt) || new Date().toISOString(),
+          getDeletedAtCell(entry, data[i][10])
         ];
         
         sheet.getRange(i + 1, 1, 1, PSYCHOLOGY_HEADERS.length).setValues([row]);
@@ -603,14 +922,14 @@ function handleUpdatePsychologyEntry(requestData) {
 function handleDeletePsychologyEntry(requestData) {
   try {
     const sheet = getCachedSheet(CONFIG.SHEETS.PSYCHOLOGY);
-    const { id } = requestData.data || requestData;
+    const { id, purge } = requestData.data || requestData;
     const data = sheet.getDataRange().getValues();
     
-    // Find and delete the entry by ID
+    // Find the entry by ID and move it to the trash, or remove it for good when purging
     for (let i = 1; i < data.length; i++) {
       if (data[i][0] == id) {
-        sheet.deleteRow(i + 1);
-        return { success: true, message: 'Psychology entry deleted successfully' };
+        trashOrPurgeRow(sheet, i, PSYCHOLOGY_HEADERS, purge);
+        return { success: true, message: purge ? 'Psychology entry purged successfully' : 'Psychology entry moved to trash' };
       }
     }
     
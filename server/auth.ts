@@ -0,0 +1,163 @@
+import type { Express, RequestHandler } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { storage } from "./storage";
+import { insertUserSchema, type PublicUser, type User as StoredUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+const MemoryStore = createMemoryStore(session);
+
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hashHex] = stored.split(":");
+  if (!salt || !hashHex) return false;
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = (await scryptAsync(password, salt, 64)) as Buffer;
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// The password hash never leaves the server, not even inside the session
+async function toPublicUser({ passwordHash: _passwordHash, ...user }: StoredUser): Promise<PublicUser> {
+  return { ...user, isAdmin: await storage.isAdmin(user.id) };
+}
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  // Development only: sessions just won't survive a restart
+  console.warn("SESSION_SECRET not set, using a random secret for this run");
+  return randomBytes(32).toString("hex");
+}
+
+// Everything under /api needs a session except health checks and signing in itself
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (req.isAuthenticated()) return next();
+  res.status(401).json({ error: "Not signed in" });
+};
+
+// Settings and the Google Sheets mirror cover every user's records, so only the admin changes them
+export const requireAdmin: RequestHandler = (req, res, next) => {
+  if (req.user?.isAdmin) return next();
+  res.status(403).json({ error: "Only the journal's admin can do this" });
+};
+
+// Session cookies, username/password login and the /api/register, /api/login,
+// /api/logout and /api/user endpoints. Call before registering any guarded route.
+export function setupAuth(app: Express) {
+  // Secure cookies are only sent over HTTPS, which the proxy in front terminates
+  app.set("trust proxy", 1);
+
+  app.use(session({
+    secret: getSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 }),
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: "auto",
+      maxAge: SESSION_MAX_AGE,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username.trim());
+      if (!user || !(await verifyPassword(password, user.passwordHash))) {
+        return done(null, false, { message: "Invalid username or password" });
+      }
+      return done(null, await toPublicUser(user));
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // A user missing from storage just ends the session instead of erroring every request
+      done(null, user ? await toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const { username, password } = insertUserSchema.parse(req.body);
+      if (await storage.getUserByUsername(username)) {
+        res.status(400).json({ error: "Invalid registration data", details: `The username ${username} is taken` });
+        return;
+      }
+
+      const user = await toPublicUser(await storage.createUser(username, await hashPassword(password)));
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json(user);
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid registration data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to register" });
+      }
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (error: unknown, user: PublicUser | false, info?: { message?: string }) => {
+      if (error) return next(error);
+      if (!user) {
+        res.status(401).json({ error: info?.message || "Invalid username or password" });
+        return;
+      }
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.status(204).send();
+      });
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Not signed in" });
+      return;
+    }
+    res.json(req.user);
+  });
+
+  app.use("/api", requireAuth);
+}
@@ -3,6 +3,27 @@
  * Provides robust, performant integration with Google Sheets API
  */
 
+import type { ZodType } from "zod";
+import {
+  customFieldValueSchema,
+  dailyRuleSchema,
+  ruleCheckSchema,
+  strategyRuleSchema,
+  strategyVersionSchema,
+  tradeStatusSchema,
+  type CustomFieldValue,
+  type DailyRule,
+  type Trade,
+  type Strategy,
+  type PsychologyEntry,
+  type Fill,
+} from "@shared/schema";
+import { computePnL, getTradeSide } from "@shared/pnl";
+import { getTradeStatus } from "@shared/lifecycle";
+import { normalizeCustomFieldValues, normalizeTags } from "@shared/custom-fields";
+import { normalizeMistakes } from "@shared/mistakes";
+import { toISTDateTime } from "@shared/timing";
+
 export interface GoogleSheetsResponse {
   success: boolean;
   results?: {
@@ -93,7 +114,7 @@ export class GoogleSheetsClient {
           ...trade,
           // Ensure P&L is calculated correctly
           profitLoss: trade.exitPrice && trade.entryPrice ? 
-            ((parseFloat(trade.exitPrice) - parseFloat(trade.entryPrice)) * trade.quantity).toString() :
+            computePnL(trade.side, parseFloat(trade.entryPrice), parseFloat(trade.exitPrice), trade.quantity).toString() :
             trade.profitLoss || '0',
           // Ensure all required fields are present
           stockName: trade.stockName || '',
@@ -129,6 +150,45 @@ export class GoogleSheetsClient {
     }
   }
 
+  /**
+   * Run a single Apps Script action, treating `success: false` as an error
+   */
+  async performAction(action: string, data?: unknown): Promise<any> {
+    const response = await this.makeRequest({ action, data });
+    if (response && response.success === false) {
+      throw new Error(response.error || `${action} failed`);
+    }
+    return response;
+  }
+
+  /**
+   * Read every row from the Trades, Strategies and Psychology sheets,
+   * normalized into the shapes used by IStorage
+   */
+  async fetchAllData(): Promise<{
+    trades: Trade[];
+    strategies: Strategy[];
+    psychologyEntries: PsychologyEntry[];
+  }> {
+    const [trades, strategies, psychologyEntries] = await Promise.all([
+      this.fetchRows('getTrades'),
+      this.fetchRows('getStrategies'),
+      this.fetchRows('getPsychologyEntries'),
+    ]);
+
+    return {
+      trades: trades.map(normalizeSheetTrade),
+      strategies: strategies.map(normalizeSheetStrategy),
+      psychologyEntries: psychologyEntries.map(normalizeSheetPsychologyEntry),
+    };
+  }
+
+  // Trashed rows included, so reconciliation and imports see the trash too
+  private async fetchRows(action: string): Promise<any[]> {
+    const response = await this.performAction(action, { includeDeleted: true });
+    return Array.isArray(response?.data) ? response.data : [];
+  }
+
   /**
    * Create backup in Google Sheets
    */
@@ -252,5 +312,151 @@ export class GoogleSheetsClient {
   }
 }
 
+/**
+ * Sheet rows come back loosely typed (numbers as strings, IST timestamps,
+ * screenshotUrl instead of screenshotLink) - coerce them into schema shapes
+ */
+function toOptionalString(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  return String(value);
+}
+
+function toSheetId(value: unknown): number {
+  const id = Number(value);
+  // Rows written without an ID get a random float from the script; let storage assign one
+  return Number.isInteger(id) && id > 0 ? id : 0;
+}
+
+function toDate(value: unknown): Date {
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? new Date() : date;
+}
+
+function toOptionalDate(value: unknown): Date | null {
+  if (!value) return null;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function toFills(value: unknown): Fill[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  return value.map((fill: any) => ({
+    id: String(fill.id || ''),
+    type: fill.type === 'exit' ? 'exit' as const : 'entry' as const,
+    quantity: Number(fill.quantity) || 0,
+    price: String(fill.price ?? '0'),
+    time: String(fill.time || ''),
+  }));
+}
+
+function toRuleBreaches(value: unknown): DailyRule[] | null {
+  if (!Array.isArray(value)) return null;
+  const rules = value.filter((rule): rule is DailyRule => dailyRuleSchema.safeParse(rule).success);
+  return rules.length > 0 ? rules : null;
+}
+
+// Tags are one comma-separated cell in the sheet
+function toTags(value: unknown): string[] | null {
+  if (Array.isArray(value)) return normalizeTags(value.map(String));
+  return typeof value === 'string' ? normalizeTags(value.split(',')) : null;
+}
+
+// Mistake category IDs, also one comma-separated cell
+function toMistakes(value: unknown): string[] | null {
+  if (Array.isArray(value)) return normalizeMistakes(value.map(String));
+  return typeof value === 'string' ? normalizeMistakes(value.split(',')) : null;
+}
+
+// One column per custom field; cells that aren't text, a number or a yes/no are skipped
+function toCustomFields(value: unknown): Record<string, CustomFieldValue> | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const values = Object.entries(value).filter((entry): entry is [string, CustomFieldValue] =>
+    customFieldValueSchema.safeParse(entry[1]).success
+  );
+  return normalizeCustomFieldValues(Object.fromEntries(values));
+}
+
+// JSON cells that don't parse into the schema are dropped rather than failing the whole row
+function toJsonList<T>(value: unknown, schema: ZodType<T>): T[] | null {
+  if (!Array.isArray(value)) return null;
+  const items = value.flatMap(item => {
+    const parsed = schema.safeParse(item);
+    return parsed.success ? [parsed.data] : [];
+  });
+  return items.length > 0 ? items : null;
+}
+
+export function normalizeSheetTrade(row: any): Trade {
+  const trade: Trade = {
+    id: toSheetId(row.id),
+    tradeDate: String(row.tradeDate || new Date().toISOString().split('T')[0]),
+    stockName: String(row.stockName || ''),
+    side: getTradeSide(row.side),
+    quantity: Number(row.quantity) || 0,
+    entryPrice: String(row.entryPrice ?? '0'),
+    exitPrice: toOptionalString(row.exitPrice),
+    stopLoss: toOptionalString(row.stopLoss),
+    targetPrice: toOptionalString(row.targetPrice),
+    profitLoss: toOptionalString(row.profitLoss),
+    setupFollowed: Boolean(row.setupFollowed),
+    whichSetup: toOptionalString(row.whichSetup),
+    emotion: toOptionalString(row.emotion),
+    notes: toOptionalString(row.notes),
+    psychologyReflections: toOptionalString(row.psychologyReflections),
+    screenshotLink: toOptionalString(row.screenshotLink ?? row.screenshotUrl),
+    fills: toFills(row.fills),
+    status: tradeStatusSchema.safeParse(row.status).success ? row.status : undefined,
+    ruleBreaches: toRuleBreaches(row.ruleBreaches),
+    accountId: Number(row.accountId) > 0 ? Number(row.accountId) : null,
+    ruleChecks: toJsonList(row.ruleChecks, ruleCheckSchema),
+    strategyVersion: Number(row.strategyVersion) > 0 ? Number(row.strategyVersion) : null,
+    strategyId: Number(row.strategyId) > 0 ? Number(row.strategyId) : null,
+    tags: toTags(row.tags),
+    customFields: toCustomFields(row.customFields),
+    mistakes: toMistakes(row.mistakes),
+    entryTime: toISTDateTime(toOptionalString(row.entryTime)),
+    exitTime: toISTDateTime(toOptionalString(row.exitTime)),
+    createdAt: toDate(row.createdAt),
+    updatedAt: toOptionalDate(row.updatedAt),
+    deletedAt: toOptionalDate(row.deletedAt),
+  };
+  // Rows written before the Status column existed get the same inferred status storage uses
+  return { ...trade, status: getTradeStatus(trade) };
+}
+
+export function normalizeSheetStrategy(row: any): Strategy {
+  const status = ['active', 'testing', 'deprecated'].includes(row.status) ? row.status : 'active';
+  return {
+    id: toSheetId(row.id),
+    name: String(row.name || ''),
+    description: toOptionalString(row.description),
+    screenshotUrl: toOptionalString(row.screenshotUrl),
+    tags: Array.isArray(row.tags) ? row.tags.map(String) : null,
+    status,
+    rules: toJsonList(row.rules, strategyRuleSchema),
+    version: Number(row.version) > 0 ? Number(row.version) : undefined,
+    versions: toJsonList(row.versions, strategyVersionSchema),
+    createdAt: toDate(row.createdAt),
+    updatedAt: toOptionalDate(row.updatedAt),
+    deletedAt: toOptionalDate(row.deletedAt),
+  };
+}
+
+export function normalizeSheetPsychologyEntry(row: any): PsychologyEntry {
+  return {
+    id: toSheetId(row.id),
+    month: String(row.month || ''),
+    year: Number(row.year) || new Date().getFullYear(),
+    monthlyPnL: toOptionalString(row.monthlyPnL),
+    bestTradeId: row.bestTradeId ? Number(row.bestTradeId) : null,
+    worstTradeId: row.worstTradeId ? Number(row.worstTradeId) : null,
+    mentalReflections: toOptionalString(row.mentalReflections),
+    improvementAreas: toOptionalString(row.improvementAreas),
+    createdAt: toDate(row.createdAt),
+    updatedAt: toOptionalDate(row.updatedAt),
+    deletedAt: toOptionalDate(row.deletedAt),
+  };
+}
+
 // Global instance for use throughout the application  
 export const googleSheetsClient = new GoogleSheetsClient();
\ No newline at end of file
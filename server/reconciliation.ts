@@ -0,0 +1,215 @@
+/**
+ * Two-way reconciliation between local storage and Google Sheets
+ * Pulls every sheet tab, diffs it against storage by ID, and reports rows that
+ * differ so each one can be resolved in the UI by keeping either side.
+ */
+
+import type { Trade, Strategy, PsychologyEntry } from '@shared/schema';
+import { GoogleSheetsClient } from './googleSheetsClient';
+import { sheetSyncQueue, type SyncEntity } from './syncQueue';
+import { storage } from './storage';
+
+type SheetRecord = Trade | Strategy | PsychologyEntry;
+
+export type ReconcileKind = 'sheetOnly' | 'localOnly' | 'modified';
+export type ReconcileResolution = 'keepLocal' | 'keepSheet';
+
+export interface ReconcileItem {
+  key: string;
+  entity: SyncEntity;
+  entityId: number;
+  kind: ReconcileKind;
+  changedFields: string[];
+  local: SheetRecord | null;
+  sheet: SheetRecord | null;
+  localUpdatedAt: string | null;
+  sheetUpdatedAt: string | null;
+  suggested: ReconcileResolution;
+}
+
+export interface ReconcileReport {
+  generatedAt: string;
+  checked: { trades: number; strategies: number; psychologyEntries: number };
+  skipped: number;
+  items: ReconcileItem[];
+}
+
+// Fields that live in the sheet; ids and timestamps are compared separately
+const COMPARED_FIELDS: Record<SyncEntity, string[]> = {
+  trade: [
+    'tradeDate', 'stockName', 'side', 'quantity', 'entryPrice', 'exitPrice', 'stopLoss', 'targetPrice',
+    'profitLoss', 'setupFollowed', 'whichSetup', 'emotion', 'notes', 'psychologyReflections', 'screenshotLink',
+    'status', 'ruleBreaches', 'accountId', 'deletedAt', 'ruleChecks', 'strategyVersion',
+    'strategyId', 'tags', 'customFields', 'mistakes', 'entryTime', 'exitTime',
+  ],
+  strategy: ['name', 'description', 'screenshotUrl', 'tags', 'status', 'deletedAt', 'rules', 'version', 'versions'],
+  psychologyEntry: [
+    'month', 'year', 'monthlyPnL', 'bestTradeId', 'worstTradeId', 'mentalReflections', 'improvementAreas', 'deletedAt',
+  ],
+};
+
+// The sheet stores numbers as numbers and blanks as '', so compare loosely
+function comparable(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) {
+    // Rule checklists are arrays of objects, stored as JSON in the sheet
+    return value.map(item => (typeof item === 'object' && item !== null ? JSON.stringify(item) : String(item))).join(',');
+  }
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (typeof value === 'object') {
+    // Custom field values, one sheet column per field
+    const record = value as Record<string, unknown>;
+    return Object.keys(record).sort().map(key => `${key}=${comparable(record[key])}`).join(',');
+  }
+  const text = String(value).trim();
+  if (text !== '' && !isNaN(Number(text))) return String(Number(text));
+  return text;
+}
+
+function lastChanged(record: SheetRecord): Date {
+  return record.updatedAt || record.createdAt;
+}
+
+function toIso(date: Date | null | undefined): string | null {
+  return date ? new Date(date).toISOString() : null;
+}
+
+export class SheetReconciler {
+  private client = new GoogleSheetsClient();
+  private report: ReconcileReport | null = null;
+
+  getReport() {
+    return this.report;
+  }
+
+  async run(scriptUrl: string): Promise<ReconcileReport> {
+    this.client.setScriptUrl(scriptUrl);
+    const sheet = await this.client.fetchAllData();
+
+    // Trashed rows stay in the sheet too, marked with Deleted At
+    const [live, trash] = await Promise.all([
+      Promise.all([storage.getTrades(), storage.getStrategies(), storage.getPsychologyEntries()]),
+      storage.getTrash(),
+    ]);
+    const trades = [...live[0], ...trash.trades];
+    const strategies = [...live[1], ...trash.strategies];
+    const psychologyEntries = [...live[2], ...trash.psychologyEntries];
+
+    const items: ReconcileItem[] = [];
+    let skipped = 0;
+
+    const compare = (entity: SyncEntity, localRows: SheetRecord[], sheetRows: SheetRecord[]) => {
+      const local = new Map(localRows.map(row => [row.id, row]));
+      const remote = new Map<number, SheetRecord>();
+      for (const row of sheetRows) {
+        // Rows without a usable ID can't be matched - the migrate import handles those
+        if (row.id > 0) remote.set(row.id, row);
+        else skipped++;
+      }
+
+      const ids = new Set([...Array.from(local.keys()), ...Array.from(remote.keys())]);
+      ids.forEach(id => {
+        // A queued write will overwrite the sheet row anyway
+        if (sheetSyncQueue.hasJob(entity, id)) {
+          skipped++;
+          return;
+        }
+
+        const item = this.diff(entity, id, local.get(id) || null, remote.get(id) || null);
+        if (item) items.push(item);
+      });
+    };
+
+    compare('trade', trades, sheet.trades);
+    compare('strategy', strategies, sheet.strategies);
+    compare('psychologyEntry', psychologyEntries, sheet.psychologyEntries);
+
+    this.report = {
+      generatedAt: new Date().toISOString(),
+      checked: {
+        trades: sheet.trades.length,
+        strategies: sheet.strategies.length,
+        psychologyEntries: sheet.psychologyEntries.length,
+      },
+      skipped,
+      items,
+    };
+    return this.report;
+  }
+
+  private diff(entity: SyncEntity, id: number, local: SheetRecord | null, sheet: SheetRecord | null): ReconcileItem | null {
+    const base = {
+      key: `${entity}:${id}`,
+      entity,
+      entityId: id,
+      local,
+      sheet,
+      localUpdatedAt: toIso(local && lastChanged(local)),
+      sheetUpdatedAt: toIso(sheet && lastChanged(sheet)),
+    };
+
+    if (local && !sheet) {
+      // Either never mirrored or removed from the sheet by hand; the local copy is safer
+      return { ...base, kind: 'localOnly', changedFields: [], suggested: 'keepLocal' };
+    }
+    if (sheet && !local) {
+      return { ...base, kind: 'sheetOnly', changedFields: [], suggested: 'keepSheet' };
+    }
+    if (!local || !sheet) return null;
+
+    const changedFields = COMPARED_FIELDS[entity].filter(field =>
+      comparable((local as any)[field]) !== comparable((sheet as any)[field])
+    );
+    if (changedFields.length === 0) return null;
+
+    // Edits made in the sheet are stamped by the script's onEdit trigger
+    const sheetIsNewer = !!sheet.updatedAt && lastChanged(sheet).getTime() > lastChanged(local).getTime();
+    return { ...base, kind: 'modified', changedFields, suggested: sheetIsNewer ? 'keepSheet' : 'keepLocal' };
+  }
+
+  /**
+   * Apply one resolution. Keeping the sheet writes straight to storage, and a
+   * row gone from the sheet is trashed locally; keeping local queues the write
+   * that makes the sheet match.
+   * Rows only the sheet has are given to userId.
+   */
+  async resolve(key: string, resolution: ReconcileResolution, userId?: number): Promise<ReconcileItem | undefined> {
+    const item = this.report?.items.find(candidate => candidate.key === key);
+    if (!item || !this.report) return undefined;
+
+    if (resolution === 'keepSheet') {
+      // Sheet creation times are IST display strings, so keep the local one when there is one
+      const record = item.sheet
+        ? { ...item.sheet, createdAt: item.local?.createdAt || item.sheet.createdAt, updatedAt: item.sheet.updatedAt || new Date() }
+        : null;
+      await storage.applySheetRecord(item.entity, item.entityId, record, userId);
+    } else {
+      // Re-read in case the row was edited locally after the report was built
+      const local = await this.getLocal(item.entity, item.entityId);
+      if (local) {
+        sheetSyncQueue.enqueue(item.entity, item.kind === 'localOnly' ? 'add' : 'update', item.entityId, local);
+      } else {
+        sheetSyncQueue.enqueue(item.entity, 'delete', item.entityId);
+      }
+    }
+
+    this.report.items = this.report.items.filter(candidate => candidate.key !== key);
+    return item;
+  }
+
+  // Live or in the trash; either way the sheet should keep the row
+  private async getLocal(entity: SyncEntity, id: number): Promise<SheetRecord | undefined> {
+    const trash = await storage.getTrash();
+    switch (entity) {
+      case 'trade':
+        return (await storage.getTradeById(id)) ?? trash.trades.find(trade => trade.id === id);
+      case 'strategy':
+        return (await storage.getStrategyById(id)) ?? trash.strategies.find(strategy => strategy.id === id);
+      case 'psychologyEntry':
+        return (await storage.getPsychologyEntryById(id)) ?? trash.psychologyEntries.find(entry => entry.id === id);
+    }
+  }
+}
+
+export const sheetReconciler = new SheetReconciler();
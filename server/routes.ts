@@ -1,23 +1,176 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertTradeSchema, insertStrategySchema, insertPsychologyEntrySchema, insertSettingsSchema } from "@shared/schema";
+import { storage, StrategyReferenceError } from "./storage";
+import { requireAdmin, setupAuth } from "./auth";
+import { insertTradeSchema, insertStrategySchema, insertPsychologyEntrySchema, insertSettingsSchema, insertAccountSchema, tradeQuerySchema, auditQuerySchema, trashItemParamsSchema, type AuditEvent, type InsertTrade, type Trade, type Settings, type PublicSettings } from "@shared/schema";
+import { computePnL, getTradePnL } from "@shared/pnl";
+import { validateFills } from "@shared/fills";
+import { getTradeStatus, isClosedTrade, validateStatusTransition, validateTradeStatus } from "@shared/lifecycle";
 import { z } from "zod";
 import { GoogleSheetsClient } from "./googleSheetsClient";
+import { sheetSyncQueue } from "./syncQueue";
+import { sheetReconciler } from "./reconciliation";
+import { decodeCursor } from "./tradeQuery";
+import { getRevertPatch } from "@shared/audit";
+import { findDuplicateTrade, pairExecutions, parseTradebook } from "@shared/tradebook";
+import { collectTags, validateCustomFieldValues } from "@shared/custom-fields";
+import { getMistakeCategories, validateMistakes } from "@shared/mistakes";
+import { validateTradeTimes } from "@shared/timing";
+import { parseBenchmarkCsv } from "@shared/benchmark";
+
+const resolveConflictSchema = z.object({
+  key: z.string(),
+  resolution: z.enum(["keepLocal", "keepSheet"]),
+});
+
+const tradebookPreviewSchema = z.object({
+  csv: z.string().min(1),
+  broker: z.enum(["zerodha", "upstox", "angel"]).optional(),
+});
+
+const tradebookImportSchema = z.object({
+  trades: z.array(insertTradeSchema).min(1),
+});
+
+// Symbols are stored upper-cased, so "nifty" and "NIFTY" add to the same series
+const benchmarkImportSchema = z.object({
+  symbol: z.string().trim().min(1, "Symbol is required").max(20).transform(symbol => symbol.toUpperCase()),
+  csv: z.string().min(1),
+});
+
+// The client sends its own calendar date so "today" matches the trader's day, not the server's
+const rulesStatusQuerySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").optional(),
+});
+
+// The Script URL can write to the sheet, so it never leaves the server
+function redactSettings({ googleScriptUrl, ...settings }: Settings): PublicSettings {
+  return { ...settings, hasGoogleScriptUrl: !!googleScriptUrl };
+}
+
+// Fills must balance, status moves must follow the lifecycle, the result must agree with its status
+// the account and strategy, if any, must exist and belong to the same user, and custom field
+// values and mistakes must fit what is configured in Settings, and the exit can't come before the entry
+async function validateTradeChange(userId: number, change: Partial<InsertTrade>, existing?: Trade): Promise<string | null> {
+  if (change.accountId && !(await storage.getAccountById(change.accountId, userId))) {
+    return `Account ${change.accountId} not found`;
+  }
+
+  if (change.strategyId && !(await storage.getStrategyById(change.strategyId, userId))) {
+    return `Strategy ${change.strategyId} not found`;
+  }
+
+  const settings = await storage.getSettings();
+  const customFieldsError = validateCustomFieldValues(change.customFields, settings?.customFields ?? [], existing?.customFields);
+  if (customFieldsError) return customFieldsError;
+
+  const mistakesError = validateMistakes(change.mistakes, getMistakeCategories(settings), existing?.mistakes);
+  if (mistakesError) return mistakesError;
+
+  // Fills set the times themselves
+  const fills = change.fills !== undefined ? change.fills : existing?.fills;
+  if (!fills?.length) {
+    const timesError = validateTradeTimes(
+      change.entryTime !== undefined ? change.entryTime : existing?.entryTime,
+      change.exitTime !== undefined ? change.exitTime : existing?.exitTime,
+    );
+    if (timesError) return timesError;
+  }
+
+  const fillsError = change.fills ? validateFills(change.fills) : null;
+  if (fillsError) return fillsError;
+
+  if (existing && change.status) {
+    const transitionError = validateStatusTransition(getTradeStatus(existing), change.status);
+    if (transitionError) return transitionError;
+  }
+
+  return validateTradeStatus({ ...existing, ...change } as InsertTrade);
+}
+
+// Names the trades blocking a strategy delete, so the user knows what to move or purge first
+function describeStrategyTrades(error: StrategyReferenceError): string {
+  const listed = error.trades.slice(0, 10).map(trade =>
+    `${trade.stockName} on ${trade.tradeDate} (#${trade.id}${trade.deletedAt ? ", in trash" : ""})`
+  );
+  const more = error.trades.length - listed.length;
+  return `${error.message}. Move them to another strategy or purge them first: ${listed.join(", ")}${more > 0 ? ` and ${more} more` : ""}`;
+}
+
+// Undo one audited change: a deletion takes the record out of the trash, an edit writes back the values it replaced.
+// Restored and reverted trades skip the lifecycle transition rule, since they return to an earlier state.
+async function revertAuditEvent(event: AuditEvent, userId: number): Promise<{ status: number; body: unknown }> {
+  if (event.action === "delete") {
+    if (event.entity === "trade") {
+      const tradeError = await validateTradeChange(userId, event.before as unknown as InsertTrade);
+      if (tradeError) return { status: 409, body: { error: "Trade cannot be restored", details: tradeError } };
+    }
+    const restored = await storage.restoreRecord(event, userId);
+    return restored
+      ? { status: 201, body: restored }
+      : { status: 409, body: { error: "Record cannot be restored", details: "It is no longer in the trash" } };
+  }
+
+  if (event.action !== "update") {
+    return { status: 400, body: { error: "Only edits and deletions can be reverted" } };
+  }
+
+  const patch = getRevertPatch(event.changes);
+  let reverted;
+  switch (event.entity) {
+    case "trade": {
+      const existing = await storage.getTradeById(event.entityId, userId);
+      if (existing) {
+        // Validated as a whole record rather than a change, so no status transition check applies
+        const tradeError = await validateTradeChange(userId, { ...existing, ...patch } as InsertTrade);
+        if (tradeError) return { status: 409, body: { error: "Edit cannot be reverted", details: tradeError } };
+      }
+      reverted = existing && await storage.updateTrade(event.entityId, patch, userId);
+      break;
+    }
+    case "strategy":
+      reverted = await storage.updateStrategy(event.entityId, patch, userId);
+      break;
+    case "psychologyEntry":
+      reverted = await storage.updatePsychologyEntry(event.entityId, patch, userId);
+      break;
+  }
+
+  return reverted
+    ? { status: 200, body: reverted }
+    : { status: 409, body: { error: "Edit cannot be reverted", details: "The record no longer exists" } };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Initialize Google Sheets client
   const googleSheetsClient = new GoogleSheetsClient();
 
+  // Drain queued sheet writes in the background using the current settings
+  sheetSyncQueue.start(async () => (await storage.getSettings())?.googleScriptUrl);
+
+  // Purge trash past its retention window now and every hour after
+  const purgeExpiredTrash = () => storage.purgeExpiredTrash().catch(error => console.error("Trash purge failed:", error));
+  void purgeExpiredTrash();
+  setInterval(purgeExpiredTrash, 60 * 60 * 1000).unref();
+
+  // Link trades saved before strategy IDs existed to their strategy by name
+  storage.linkTradesToStrategies()
+    .then(linked => linked > 0 && console.log(`Linked ${linked} trades to their strategies`))
+    .catch(error => console.error("Strategy link migration failed:", error));
+
   // Health check endpoint
   app.get("/api/health", (req, res) => {
     res.json({ status: "ok", timestamp: new Date().toISOString() });
   });
 
+  // Sessions and login; every /api route registered after this needs a signed-in user
+  setupAuth(app);
+
   // Google Sheets proxy endpoint to avoid CORS issues
   app.post("/api/google-sheets", async (req, res) => {
     try {
       const { action, data } = req.body;
+      const userId = req.user!.id;
       
       console.log('Google Sheets API call:', { action, hasData: !!data });
       
@@ -27,91 +180,124 @@ export async function registerRoutes(app: Express): Promise<Server> {
         hasScriptUrl: !!settings?.googleScriptUrl,
         hasSheetId: !!settings?.googleSheetId 
       });
-      
-      if (!settings?.googleScriptUrl) {
-        console.log('No Google Script URL found in settings');
-        return res.status(400).json({ 
-          success: false,
-          error: "Google Script URL not configured. Please update settings." 
-        });
-      }
-
-      googleSheetsClient.setScriptUrl(settings.googleScriptUrl);
 
       let result;
       switch (action) {
         case 'test':
+          // Only the connection test talks to the sheet; everything else is served
+          // from local storage, which queues its own sheet writes
+          if (!settings?.googleScriptUrl) {
+            console.log('No Google Script URL found in settings');
+            return res.status(400).json({ 
+              success: false,
+              error: "Google Script URL not configured. Please update settings." 
+            });
+          }
+          googleSheetsClient.setScriptUrl(settings.googleScriptUrl);
           result = await googleSheetsClient.testConnection();
           break;
         case 'getTrades':
           // Return local trades for simplicity - Google Sheets integration working for sync
-          result = { data: await storage.getTrades() };
+          result = { data: await storage.getTrades(userId) };
           break;
         case 'addTrade':
           // Validate and calculate P&L before storing
           const validatedTrade = insertTradeSchema.parse(data);
+          const addTradeError = await validateTradeChange(userId, validatedTrade);
+          if (addTradeError) {
+            return res.status(400).json({ success: false, error: addTradeError });
+          }
           
           // Calculate P&L if exit price is provided
           if (validatedTrade.exitPrice) {
             const entryPrice = parseFloat(validatedTrade.entryPrice);
             const exitPrice = parseFloat(validatedTrade.exitPrice);
             const quantity = validatedTrade.quantity;
-            const calculatedPnL = (exitPrice - entryPrice) * quantity;
+            const calculatedPnL = computePnL(validatedTrade.side, entryPrice, exitPrice, quantity);
             validatedTrade.profitLoss = calculatedPnL.toString();
           }
           
           // Add unique ID and timestamp  
           (validatedTrade as any).id = Date.now();
           
-          const trade = await storage.createTrade(validatedTrade);
-          
-          // Sync to Google Sheets with duplicate prevention
-          try {
-            const response = await (googleSheetsClient as any).makeRequest({
-              action: 'addTrade',
-              data: trade
-            });
-            console.log('Trade synced to Google Sheets:', response.success);
-          } catch (syncError) {
-            console.warn('Trade sync to Google Sheets failed:', syncError);
-          }
-          
+          // Storage queues the sheet write; the outbox retries until it lands
+          const trade = await storage.createTrade(validatedTrade, userId);
           result = { data: trade };
           break;
+        case 'updateTrade': {
+          const { id, ...tradeData } = data;
+          const tradeUpdate = insertTradeSchema.partial().parse(tradeData);
+          const existingTrade = await storage.getTradeById(Number(id), userId);
+          if (!existingTrade) {
+            return res.status(404).json({ success: false, error: "Trade not found" });
+          }
+          const updateTradeError = await validateTradeChange(userId, tradeUpdate, existingTrade);
+          if (updateTradeError) {
+            return res.status(400).json({ success: false, error: updateTradeError });
+          }
+          const updatedTrade = await storage.updateTrade(Number(id), tradeUpdate, userId);
+          if (!updatedTrade) {
+            return res.status(404).json({ success: false, error: "Trade not found" });
+          }
+          result = { data: updatedTrade };
+          break;
+        }
+        case 'deleteTrade':
+          if (!(await storage.deleteTrade(Number(data?.id), userId))) {
+            return res.status(404).json({ success: false, error: "Trade not found" });
+          }
+          result = { success: true };
+          break;
+        case 'getTradesByDate':
+          result = { data: await storage.getTradesByDate(data?.date, userId) };
+          break;
         case 'getStrategies':
-          result = { data: await storage.getStrategies() };
+          result = { data: await storage.getStrategies(userId) };
           break;
         case 'addStrategy':
-          const strategy = await storage.createStrategy(data);
-          try {
-            await googleSheetsClient.syncData({ strategies: [strategy] });
-          } catch (syncError) {
-            console.warn('Strategy sync to Google Sheets failed:', syncError);
-          }
+          const strategy = await storage.createStrategy(insertStrategySchema.parse(data), userId);
           result = { data: strategy };
           break;
+        case 'updateStrategy': {
+          const { id, ...strategyData } = data;
+          const updatedStrategy = await storage.updateStrategy(Number(id), insertStrategySchema.partial().parse(strategyData), userId);
+          if (!updatedStrategy) {
+            return res.status(404).json({ success: false, error: "Strategy not found" });
+          }
+          result = { data: updatedStrategy };
+          break;
+        }
+        case 'deleteStrategy':
+          if (!(await storage.deleteStrategy(Number(data?.id), userId))) {
+            return res.status(404).json({ success: false, error: "Strategy not found" });
+          }
+          result = { success: true };
+          break;
         case 'getPsychologyEntries':
-          result = { data: await storage.getPsychologyEntries() };
+          result = { data: await storage.getPsychologyEntries(userId) };
           break;
         case 'addPsychologyEntry':
           // Add unique ID and timestamp
           (data as any).id = Date.now();
           
-          const psychologyEntry = await storage.createPsychologyEntry(data);
-          
-          // Sync to Google Sheets with duplicate prevention
-          try {
-            const response = await (googleSheetsClient as any).makeRequest({
-              action: 'addPsychologyEntry', 
-              data: psychologyEntry
-            });
-            console.log('Psychology entry synced to Google Sheets:', response.success);
-          } catch (syncError) {
-            console.warn('Psychology entry sync to Google Sheets failed:', syncError);
-          }
-          
+          const psychologyEntry = await storage.createPsychologyEntry(data, userId);
           result = { data: psychologyEntry };
           break;
+        case 'updatePsychologyEntry': {
+          const { id, ...entryData } = data;
+          const updatedEntry = await storage.updatePsychologyEntry(Number(id), insertPsychologyEntrySchema.partial().parse(entryData), userId);
+          if (!updatedEntry) {
+            return res.status(404).json({ success: false, error: "Psychology entry not found" });
+          }
+          result = { data: updatedEntry };
+          break;
+        }
+        case 'deletePsychologyEntry':
+          if (!(await storage.deletePsychologyEntry(Number(data?.id), userId))) {
+            return res.status(404).json({ success: false, error: "Psychology entry not found" });
+          }
+          result = { success: true };
+          break;
         default:
           return res.status(400).json({ 
             success: false,
@@ -121,6 +307,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json(result);
     } catch (error) {
+      if (error instanceof StrategyReferenceError) {
+        return res.status(409).json({ success: false, error: describeStrategyTrades(error) });
+      }
       console.error('Google Sheets proxy error:', error);
       res.status(500).json({ 
         success: false,
@@ -141,13 +330,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Validate settings and report status
-      const trades = await storage.getTrades();
-      const strategies = await storage.getStrategies();
+      const trades = await storage.getTrades(req.user!.id);
+      const strategies = await storage.getStrategies(req.user!.id);
       
       res.json({
         success: true,
         message: "Connection successful - All sheets ready for data sync!",
-        scriptUrl: settings.googleScriptUrl,
         sheetId: settings.googleSheetId,
         backendStatus: "Backend proxy working (CORS issues resolved)",
         dataCount: `${trades.length} trades, ${strategies.length} strategies ready`,
@@ -163,7 +351,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Sync all data to Google Sheets endpoint
-  app.post("/api/sync-to-sheets", async (req, res) => {
+  app.post("/api/sync-to-sheets", requireAdmin, async (req, res) => {
     try {
       const settings = await storage.getSettings();
       if (!settings?.googleScriptUrl) {
@@ -175,7 +363,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       googleSheetsClient.setScriptUrl(settings.googleScriptUrl);
       
-      // Get all data
+      // Get all data - the sheet mirrors every user's records
       const trades = await storage.getTrades();
       const strategies = await storage.getStrategies();
       const psychology = await storage.getPsychologyEntries();
@@ -196,20 +384,169 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Sheet sync outbox status
+  app.get("/api/sync/status", requireAdmin, (req, res) => {
+    res.json(sheetSyncQueue.getStatus());
+  });
+
+  app.post("/api/sync/retry", requireAdmin, (req, res) => {
+    const retried = sheetSyncQueue.retryFailed();
+    res.json({ success: true, retried });
+  });
+
+  // Pull the sheet and diff it against local storage
+  app.post("/api/sync/reconcile", requireAdmin, async (req, res) => {
+    try {
+      const settings = await storage.getSettings();
+      if (!settings?.googleScriptUrl) {
+        return res.status(400).json({ 
+          success: false,
+          error: "Google Script URL not configured" 
+        });
+      }
+
+      const report = await sheetReconciler.run(settings.googleScriptUrl);
+      res.json({ success: true, report });
+    } catch (error) {
+      res.status(500).json({ 
+        success: false,
+        error: error instanceof Error ? error.message : 'Reconciliation failed' 
+      });
+    }
+  });
+
+  app.get("/api/sync/reconcile", requireAdmin, (req, res) => {
+    res.json({ success: true, report: sheetReconciler.getReport() });
+  });
+
+  app.post("/api/sync/reconcile/resolve", requireAdmin, async (req, res) => {
+    try {
+      const { key, resolution } = resolveConflictSchema.parse(req.body);
+      const item = await sheetReconciler.resolve(key, resolution, req.user!.id);
+      if (!item) {
+        return res.status(404).json({ success: false, error: "Conflict not found - run reconciliation again" });
+      }
+      res.json({ success: true, resolved: item, report: sheetReconciler.getReport() });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid resolution data", details: error.errors });
+      }
+      res.status(500).json({ 
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to resolve conflict' 
+      });
+    }
+  });
+
+  // Import existing Google Sheets data into local storage (one-off migration)
+  app.post("/api/storage/migrate", requireAdmin, async (req, res) => {
+    try {
+      const settings = await storage.getSettings();
+      if (!settings?.googleScriptUrl) {
+        return res.status(400).json({ 
+          success: false,
+          error: "Google Script URL not configured" 
+        });
+      }
+
+      googleSheetsClient.setScriptUrl(settings.googleScriptUrl);
+
+      const sheetData = await googleSheetsClient.fetchAllData();
+      const imported = await storage.importRecords(sheetData, req.user!.id);
+
+      res.json({
+        success: true,
+        imported,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      res.status(500).json({ 
+        success: false,
+        error: error instanceof Error ? error.message : 'Migration failed' 
+      });
+    }
+  });
+
   // Trades endpoints
   app.get("/api/trades", async (req, res) => {
     try {
-      const trades = await storage.getTrades();
-      res.json(trades);
+      const query = tradeQuerySchema.parse(req.query);
+      if (query.cursor && !decodeCursor(query.cursor)) {
+        res.status(400).json({ error: "Invalid trade query", details: "Invalid cursor" });
+        return;
+      }
+      res.json(await storage.queryTrades(query, req.user!.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid trade query", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to fetch trades" });
+      }
+    }
+  });
+
+  app.post("/api/trades/import/preview", async (req, res) => {
+    try {
+      const { csv, broker } = tradebookPreviewSchema.parse(req.body);
+      const parsed = parseTradebook(csv, broker);
+      const existing = await storage.getTrades(req.user!.id);
+      const trades = pairExecutions(parsed.executions, parsed.broker).map(trade => ({
+        trade,
+        duplicateOfId: findDuplicateTrade(trade, existing)?.id ?? null,
+      }));
+
+      res.json({
+        broker: parsed.broker,
+        executions: parsed.executions.length,
+        trades,
+        errors: parsed.errors,
+      });
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch trades" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid tradebook data", details: error.errors });
+      } else if (error instanceof Error) {
+        // Parse errors are about the file the user picked, so pass them through
+        res.status(400).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to read tradebook" });
+      }
+    }
+  });
+
+  app.post("/api/trades/import", async (req, res) => {
+    try {
+      const { trades } = tradebookImportSchema.parse(req.body);
+      const tradeErrors = (await Promise.all(
+        trades.map(async (trade, index) => {
+          const error = await validateTradeChange(req.user!.id, trade);
+          return error ? `${trade.stockName} on ${trade.tradeDate} (#${index + 1}): ${error}` : null;
+        })
+      )).filter(Boolean);
+      if (tradeErrors.length > 0) {
+        res.status(400).json({ error: "Invalid trade data", details: tradeErrors });
+        return;
+      }
+
+      const imported = await storage.createTrades(trades, req.user!.id);
+      res.status(201).json({ imported: imported.length, trades: imported });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid trade data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to import trades" });
+      }
     }
   });
 
   app.post("/api/trades", async (req, res) => {
     try {
       const tradeData = insertTradeSchema.parse(req.body);
-      const trade = await storage.createTrade(tradeData);
+      const tradeError = await validateTradeChange(req.user!.id, tradeData);
+      if (tradeError) {
+        res.status(400).json({ error: "Invalid trade data", details: tradeError });
+        return;
+      }
+      const trade = await storage.createTrade(tradeData, req.user!.id);
       res.status(201).json(trade);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -224,7 +561,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const id = parseInt(req.params.id);
       const tradeData = insertTradeSchema.partial().parse(req.body);
-      const trade = await storage.updateTrade(id, tradeData);
+      const existing = await storage.getTradeById(id, req.user!.id);
+      if (!existing) {
+        res.status(404).json({ error: "Trade not found" });
+        return;
+      }
+      const tradeError = await validateTradeChange(req.user!.id, tradeData, existing);
+      if (tradeError) {
+        res.status(400).json({ error: "Invalid trade data", details: tradeError });
+        return;
+      }
+      const trade = await storage.updateTrade(id, tradeData, req.user!.id);
       
       if (!trade) {
         res.status(404).json({ error: "Trade not found" });
@@ -244,7 +591,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/trades/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const success = await storage.deleteTrade(id);
+      const success = await storage.deleteTrade(id, req.user!.id);
       
       if (!success) {
         res.status(404).json({ error: "Trade not found" });
@@ -257,20 +604,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Every tag in use, filtered or not, for the trade log's tag filter
+  app.get("/api/trades/tags", async (req, res) => {
+    try {
+      const { accountId } = tradeQuerySchema.pick({ accountId: true }).parse(req.query);
+      const trades = await storage.getTrades(req.user!.id);
+      res.json(collectTags(accountId === undefined ? trades : trades.filter(trade => trade.accountId === accountId)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid trade query", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to fetch tags" });
+      }
+    }
+  });
+
   app.get("/api/trades/date/:date", async (req, res) => {
     try {
       const date = req.params.date;
-      const trades = await storage.getTradesByDate(date);
+      const trades = await storage.getTradesByDate(date, req.user!.id);
       res.json(trades);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch trades by date" });
     }
   });
 
+  // Where a day stands against the daily loss, trade count and losing streak rules
+  app.get("/api/rules/status", async (req, res) => {
+    try {
+      const { date } = rulesStatusQuerySchema.parse(req.query);
+      const status = await storage.getDailyRulesStatus(date ?? new Date().toISOString().split('T')[0], req.user!.id);
+      res.json(status);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid rules status query", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to evaluate daily rules" });
+      }
+    }
+  });
+
   // Strategies endpoints
   app.get("/api/strategies", async (req, res) => {
     try {
-      const strategies = await storage.getStrategies();
+      const strategies = await storage.getStrategies(req.user!.id);
       res.json(strategies);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch strategies" });
@@ -280,7 +657,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/strategies", async (req, res) => {
     try {
       const strategyData = insertStrategySchema.parse(req.body);
-      const strategy = await storage.createStrategy(strategyData);
+      const strategy = await storage.createStrategy(strategyData, req.user!.id);
       res.status(201).json(strategy);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -295,7 +672,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const id = parseInt(req.params.id);
       const strategyData = insertStrategySchema.partial().parse(req.body);
-      const strategy = await storage.updateStrategy(id, strategyData);
+      const strategy = await storage.updateStrategy(id, strategyData, req.user!.id);
       
       if (!strategy) {
         res.status(404).json({ error: "Strategy not found" });
@@ -312,10 +689,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Strategies with trades can't be deleted; the response lists the trades to move or purge first
   app.delete("/api/strategies/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const success = await storage.deleteStrategy(id);
+      const success = await storage.deleteStrategy(id, req.user!.id);
       
       if (!success) {
         res.status(404).json({ error: "Strategy not found" });
@@ -324,14 +702,106 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.status(204).send();
     } catch (error) {
-      res.status(500).json({ error: "Failed to delete strategy" });
+      if (error instanceof StrategyReferenceError) {
+        res.status(409).json({
+          error: "Strategy has trades",
+          details: describeStrategyTrades(error),
+          trades: error.trades.map(({ id, tradeDate, stockName, deletedAt }) => ({ id, tradeDate, stockName, inTrash: !!deletedAt })),
+        });
+      } else {
+        res.status(500).json({ error: "Failed to delete strategy" });
+      }
+    }
+  });
+
+  // Accounts endpoints
+  app.get("/api/accounts", async (req, res) => {
+    try {
+      const accounts = await storage.getAccounts(req.user!.id);
+      res.json(accounts);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch accounts" });
+    }
+  });
+
+  app.post("/api/accounts", async (req, res) => {
+    try {
+      const accountData = insertAccountSchema.parse(req.body);
+      const accounts = await storage.getAccounts(req.user!.id);
+      if (accounts.some(account => account.name.toLowerCase() === accountData.name.toLowerCase())) {
+        res.status(400).json({ error: "Invalid account data", details: `An account named ${accountData.name} already exists` });
+        return;
+      }
+      const account = await storage.createAccount(accountData, req.user!.id);
+      res.status(201).json(account);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid account data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to create account" });
+      }
+    }
+  });
+
+  app.put("/api/accounts/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const accountData = insertAccountSchema.partial().parse(req.body);
+      const accounts = await storage.getAccounts(req.user!.id);
+      const name = accountData.name?.toLowerCase();
+      if (name && accounts.some(account => account.id !== id && account.name.toLowerCase() === name)) {
+        res.status(400).json({ error: "Invalid account data", details: `An account named ${accountData.name} already exists` });
+        return;
+      }
+      const account = await storage.updateAccount(id, accountData, req.user!.id);
+
+      if (!account) {
+        res.status(404).json({ error: "Account not found" });
+        return;
+      }
+
+      res.json(account);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid account data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to update account" });
+      }
+    }
+  });
+
+  // Accounts with trades can't be deleted, or those trades would point at nothing
+  app.delete("/api/accounts/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const tradeCount = (await storage.getTrades(req.user!.id)).filter(trade => trade.accountId === id).length;
+      // Trashed trades could still be restored into the account
+      const trashedCount = (await storage.getTrash(req.user!.id)).trades.filter(trade => trade.accountId === id).length;
+      if (tradeCount + trashedCount > 0) {
+        const details = tradeCount > 0
+          ? `Move or delete its ${tradeCount} trade${tradeCount === 1 ? "" : "s"} first`
+          : `Purge its ${trashedCount} trade${trashedCount === 1 ? "" : "s"} from the trash first`;
+        res.status(409).json({ error: "Account has trades", details });
+        return;
+      }
+
+      const success = await storage.deleteAccount(id, req.user!.id);
+
+      if (!success) {
+        res.status(404).json({ error: "Account not found" });
+        return;
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete account" });
     }
   });
 
   // Psychology entries endpoints
   app.get("/api/psychology-entries", async (req, res) => {
     try {
-      const entries = await storage.getPsychologyEntries();
+      const entries = await storage.getPsychologyEntries(req.user!.id);
       res.json({ data: entries });
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch psychology entries" });
@@ -340,7 +810,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/psychology", async (req, res) => {
     try {
-      const entries = await storage.getPsychologyEntries();
+      const entries = await storage.getPsychologyEntries(req.user!.id);
       res.json(entries);
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch psychology entries" });
@@ -350,7 +820,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/psychology-entries", async (req, res) => {
     try {
       const entryData = insertPsychologyEntrySchema.parse(req.body);
-      const entry = await storage.createPsychologyEntry(entryData);
+      const entry = await storage.createPsychologyEntry(entryData, req.user!.id);
       res.status(201).json({ data: entry });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -364,7 +834,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/psychology", async (req, res) => {
     try {
       const entryData = insertPsychologyEntrySchema.parse(req.body);
-      const entry = await storage.createPsychologyEntry(entryData);
+      const entry = await storage.createPsychologyEntry(entryData, req.user!.id);
       res.status(201).json(entry);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -379,7 +849,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const id = parseInt(req.params.id);
       const entryData = insertPsychologyEntrySchema.partial().parse(req.body);
-      const entry = await storage.updatePsychologyEntry(id, entryData);
+      const entry = await storage.updatePsychologyEntry(id, entryData, req.user!.id);
       
       if (!entry) {
         res.status(404).json({ error: "Psychology entry not found" });
@@ -396,21 +866,122 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Audit log endpoints
+  app.get("/api/audit", async (req, res) => {
+    try {
+      const { entity, entityId } = auditQuerySchema.parse(req.query);
+      const events = await storage.getAuditEvents(entity, entityId, req.user!.id);
+      res.json(events);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid audit query", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to fetch audit history" });
+      }
+    }
+  });
+
+  app.post("/api/audit/:id/revert", async (req, res) => {
+    try {
+      const event = await storage.getAuditEvent(parseInt(req.params.id), req.user!.id);
+      if (!event) {
+        res.status(404).json({ error: "Audit event not found" });
+        return;
+      }
+      const { status, body } = await revertAuditEvent(event, req.user!.id);
+      res.status(status).json(body);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to revert change" });
+    }
+  });
+
+  // Trash endpoints - deleted trades, strategies and psychology entries until restored or purged
+  app.get("/api/trash", async (req, res) => {
+    try {
+      const trash = await storage.getTrash(req.user!.id);
+      res.json(trash);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch trash" });
+    }
+  });
+
+  app.post("/api/trash/:entity/:id/restore", async (req, res) => {
+    try {
+      const { entity, id } = trashItemParamsSchema.parse(req.params);
+      if (entity === "trade") {
+        const trashed = (await storage.getTrash(req.user!.id)).trades.find(trade => trade.id === id);
+        const tradeError = trashed ? await validateTradeChange(req.user!.id, trashed) : null;
+        if (tradeError) {
+          res.status(409).json({ error: "Trade cannot be restored", details: tradeError });
+          return;
+        }
+      }
+      const restored = await storage.restoreFromTrash(entity, id, req.user!.id);
+
+      if (!restored) {
+        res.status(404).json({ error: "Not found in trash" });
+        return;
+      }
+
+      res.json(restored);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid trash item", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to restore from trash" });
+      }
+    }
+  });
+
+  app.delete("/api/trash/:entity/:id", async (req, res) => {
+    try {
+      const { entity, id } = trashItemParamsSchema.parse(req.params);
+      const success = await storage.purgeFromTrash(entity, id, req.user!.id);
+
+      if (!success) {
+        res.status(404).json({ error: "Not found in trash" });
+        return;
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid trash item", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to purge from trash" });
+      }
+    }
+  });
+
+  // Empty the signed-in user's trash
+  app.delete("/api/trash", async (req, res) => {
+    try {
+      const { trades, strategies, psychologyEntries } = await storage.getTrash(req.user!.id);
+      for (const trade of trades) await storage.purgeFromTrash("trade", trade.id, req.user!.id);
+      for (const strategy of strategies) await storage.purgeFromTrash("strategy", strategy.id, req.user!.id);
+      for (const entry of psychologyEntries) await storage.purgeFromTrash("psychologyEntry", entry.id, req.user!.id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to empty trash" });
+    }
+  });
+
   // Settings endpoints
   app.get("/api/settings", async (req, res) => {
     try {
       const settings = await storage.getSettings();
-      res.json(settings);
+      res.json(settings && redactSettings(settings));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch settings" });
     }
   });
 
-  app.put("/api/settings", async (req, res) => {
+  // Settings apply to every user, so only the admin changes them
+  app.put("/api/settings", requireAdmin, async (req, res) => {
     try {
       const settingsData = insertSettingsSchema.parse(req.body);
-      const settings = await storage.updateSettings(settingsData);
-      res.json(settings);
+      const settings = await storage.updateSettings(settingsData, req.user!.id);
+      res.json(redactSettings(settings));
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: "Invalid settings data", details: error.errors });
@@ -420,6 +991,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/benchmarks", async (req, res) => {
+    try {
+      res.json(await storage.getBenchmarks());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch benchmarks" });
+    }
+  });
+
+  // Benchmarks are shared by every user, so only the admin imports or deletes them
+  app.post("/api/benchmarks/import", requireAdmin, async (req, res) => {
+    try {
+      const { symbol, csv } = benchmarkImportSchema.parse(req.body);
+      const parsed = parseBenchmarkCsv(csv);
+      if (parsed.closes.length === 0) {
+        res.status(400).json({ error: "No daily closes found in the file", details: parsed.errors });
+        return;
+      }
+
+      const benchmark = await storage.importBenchmarkCloses(symbol, parsed.closes);
+      res.status(201).json({ benchmark, imported: parsed.closes.length, errors: parsed.errors });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid benchmark data", details: error.errors });
+      } else if (error instanceof Error) {
+        // Parse errors are about the file the user picked, so pass them through
+        res.status(400).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: "Failed to import benchmark" });
+      }
+    }
+  });
+
+  app.delete("/api/benchmarks/:symbol", requireAdmin, async (req, res) => {
+    try {
+      const deleted = await storage.deleteBenchmark(req.params.symbol.toUpperCase());
+      if (!deleted) {
+        res.status(404).json({ error: "Benchmark not found" });
+        return;
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete benchmark" });
+    }
+  });
+
   // Google Sheets integration endpoints
   app.post("/api/test-google-connection", async (req, res) => {
     try {
@@ -466,7 +1082,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/sync-to-sheets", async (req, res) => {
+  app.post("/api/sync-to-sheets", requireAdmin, async (req, res) => {
     try {
       const result = await storage.forceSyncToGoogleSheets();
       res.json(result);
@@ -481,36 +1097,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Analytics endpoints
   app.get("/api/analytics/summary", async (req, res) => {
     try {
-      const trades = await storage.getTrades();
+      // ?accountId=N limits the summary to one account; ?pnlMode=net counts charges like the header toggle
+      const { accountId, pnlMode } = tradeQuerySchema.pick({ accountId: true, pnlMode: true }).parse(req.query);
+      const allTrades = (await storage.getTrades(req.user!.id)).filter(trade => accountId === undefined || trade.accountId === accountId);
+      // Open, planned and cancelled trades have no final P&L, so they'd only skew the stats
+      const trades = allTrades.filter(isClosedTrade);
+      const pnls = trades.map(trade => getTradePnL(trade, pnlMode));
       
-      const totalPnL = trades.reduce((sum, trade) => 
-        sum + parseFloat(trade.profitLoss?.toString() || "0"), 0
-      );
+      const totalPnL = pnls.reduce((sum, pnl) => sum + pnl, 0);
+      const wins = pnls.filter(pnl => pnl > 0);
+      const losses = pnls.filter(pnl => pnl < 0);
       
-      const winningTrades = trades.filter(trade => 
-        parseFloat(trade.profitLoss?.toString() || "0") > 0
-      );
-      
-      const winRate = trades.length > 0 ? (winningTrades.length / trades.length) * 100 : 0;
+      const winRate = trades.length > 0 ? (wins.length / trades.length) * 100 : 0;
       
       const summary = {
         totalTrades: trades.length,
         totalPnL,
         winRate,
-        winningTrades: winningTrades.length,
-        losingTrades: trades.length - winningTrades.length,
-        averageWin: winningTrades.length > 0 
-          ? winningTrades.reduce((sum, trade) => sum + parseFloat(trade.profitLoss?.toString() || "0"), 0) / winningTrades.length
+        winningTrades: wins.length,
+        losingTrades: losses.length,
+        openTrades: allTrades.filter(trade => getTradeStatus(trade) === "open").length,
+        averageWin: wins.length > 0 
+          ? wins.reduce((sum, pnl) => sum + pnl, 0) / wins.length
           : 0,
-        averageLoss: trades.length - winningTrades.length > 0
-          ? trades.filter(trade => parseFloat(trade.profitLoss?.toString() || "0") < 0)
-                  .reduce((sum, trade) => sum + parseFloat(trade.profitLoss?.toString() || "0"), 0) / (trades.length - winningTrades.length)
+        averageLoss: losses.length > 0
+          ? losses.reduce((sum, pnl) => sum + pnl, 0) / losses.length
           : 0,
       };
       
       res.json(summary);
     } catch (error) {
-      res.status(500).json({ error: "Failed to generate analytics summary" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid analytics query", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to generate analytics summary" });
+      }
     }
   });
 
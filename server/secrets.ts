@@ -0,0 +1,58 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+// Secrets kept in data/ files (today just the Apps Script exec URL, which can
+// write to the sheet) are stored as "enc:v1:<iv>:<auth tag>:<ciphertext>",
+// AES-256-GCM with base64 parts.
+const PREFIX = "enc:v1:";
+const IV_BYTES = 12;
+
+let cachedKey: Buffer | null = null;
+
+// SETTINGS_ENCRYPTION_KEY is 32 bytes, as 64 hex characters or base64
+function getKey(): Buffer {
+  if (cachedKey) return cachedKey;
+
+  const raw = process.env.SETTINGS_ENCRYPTION_KEY;
+  if (raw) {
+    const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, "hex") : Buffer.from(raw, "base64");
+    if (key.length !== 32) {
+      throw new Error("SETTINGS_ENCRYPTION_KEY must be 32 bytes (64 hex characters or base64)");
+    }
+    cachedKey = key;
+  } else if (process.env.NODE_ENV === "production") {
+    throw new Error("SETTINGS_ENCRYPTION_KEY must be set in production");
+  } else {
+    // Development only: a fixed, publicly known key, so it protects nothing but survives restarts
+    console.warn("SETTINGS_ENCRYPTION_KEY not set, using the development key");
+    cachedKey = createHash("sha256").update("intraday-pro-development-settings-key").digest();
+  }
+  return cachedKey;
+}
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return PREFIX + [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString("base64")).join(":");
+}
+
+// Throws when the value was encrypted with a different key or has been tampered with
+export function decryptSecret(stored: string): string {
+  if (!isEncryptedSecret(stored)) {
+    throw new Error("Not an encrypted secret");
+  }
+  const [iv, tag, ciphertext] = stored.slice(PREFIX.length).split(":").map(part => Buffer.from(part, "base64"));
+  if (!iv || !tag || !ciphertext) {
+    throw new Error("Malformed encrypted secret");
+  }
+  const decipher = createDecipheriv("aes-256-gcm", getKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+}
+
+// Refuse to start in production without a key rather than fail on the first save
+if (process.env.NODE_ENV === "production") getKey();
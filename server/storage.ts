@@ -5,79 +5,197 @@ import {
   type InsertStrategy,
   type PsychologyEntry,
   type InsertPsychologyEntry,
+  type Account,
+  type InsertAccount,
+  type User,
+  type AuditEntity,
+  type AuditAction,
+  type AuditEvent,
+  type TrashContents,
   type Settings,
-  type InsertSettings
+  type InsertSettings,
+  type Benchmark,
+  type BenchmarkClose,
+  type TradeQuery,
+  type TradePage
 } from "@shared/schema";
-import { promises as fs } from 'fs';
+import { promises as fs, existsSync, readFileSync, writeFileSync, renameSync, mkdirSync } from 'fs';
 import path from 'path';
+import { sheetSyncQueue, type SyncEntity } from './syncQueue';
+import { queryTrades } from './tradeQuery';
+import { getTradeSide } from '@shared/pnl';
+import { getTradeStatus } from '@shared/lifecycle';
+import { calculateTradeCharges, DEFAULT_CHARGES_CONFIG } from '@shared/charges';
+import { deriveTradeFromFills } from '@shared/fills';
+import { evaluateDailyRules, DEFAULT_DAILY_RULES_CONFIG, type DailyRulesStatus } from '@shared/guardrails';
+import { getComplianceScore } from '@shared/compliance';
+import { getVersionOn, withCurrentVersion } from '@shared/versioning';
+import { normalizeCustomFieldValues, normalizeTags } from '@shared/custom-fields';
+import { normalizeMistakes } from '@shared/mistakes';
+import { toISTDateTime, withFillTimes } from '@shared/timing';
+import { encryptSecret, decryptSecret, isEncryptedSecret } from './secrets';
+import { diffRecords } from '@shared/audit';
+import { DEFAULT_TRASH_RETENTION_DAYS, getPurgeDate, isTrashed } from '@shared/trash';
+import { mergeBenchmarkCloses } from '@shared/benchmark';
 
+// Accounts, users and the audit log only live locally; the sheet just records each trade's account ID
+export type StorageEntity = SyncEntity | 'account' | 'user' | 'audit';
+export type StorageChange = 'put' | 'delete';
+
+// Every trade, strategy, account and psychology method takes the signed-in user's ID last.
+// Leaving it out reaches every user's records, which only deployment-wide jobs
+// (sheet sync, reconciliation) should do. Deleting a trade, strategy or psychology
+// entry moves it to the trash, and only the trash methods see it after that.
 export interface IStorage {
+  // Users
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(username: string, passwordHash: string): Promise<User>;
+  isAdmin(userId: number): Promise<boolean>;
+
   // Trades
-  getTrades(): Promise<Trade[]>;
-  getTradeById(id: number): Promise<Trade | undefined>;
-  getTradesByDate(date: string): Promise<Trade[]>;
-  createTrade(trade: InsertTrade): Promise<Trade>;
-  updateTrade(id: number, trade: Partial<InsertTrade>): Promise<Trade | undefined>;
-  deleteTrade(id: number): Promise<boolean>;
+  getTrades(userId?: number): Promise<Trade[]>;
+  queryTrades(query: TradeQuery, userId?: number): Promise<TradePage>;
+  getTradeById(id: number, userId?: number): Promise<Trade | undefined>;
+  getTradesByDate(date: string, userId?: number): Promise<Trade[]>;
+  createTrade(trade: InsertTrade, userId?: number): Promise<Trade>;
+  createTrades(trades: InsertTrade[], userId?: number): Promise<Trade[]>;
+  updateTrade(id: number, trade: Partial<InsertTrade>, userId?: number): Promise<Trade | undefined>;
+  deleteTrade(id: number, userId?: number): Promise<boolean>;
+  getDailyRulesStatus(date: string, userId?: number): Promise<DailyRulesStatus>;
+
+  // Accounts
+  getAccounts(userId?: number): Promise<Account[]>;
+  getAccountById(id: number, userId?: number): Promise<Account | undefined>;
+  createAccount(account: InsertAccount, userId?: number): Promise<Account>;
+  updateAccount(id: number, account: Partial<InsertAccount>, userId?: number): Promise<Account | undefined>;
+  deleteAccount(id: number, userId?: number): Promise<boolean>;
 
   // Strategies
-  getStrategies(): Promise<Strategy[]>;
-  getStrategyById(id: number): Promise<Strategy | undefined>;
-  createStrategy(strategy: InsertStrategy): Promise<Strategy>;
-  updateStrategy(id: number, strategy: Partial<InsertStrategy>): Promise<Strategy | undefined>;
-  deleteStrategy(id: number): Promise<boolean>;
+  getStrategies(userId?: number): Promise<Strategy[]>;
+  getStrategyById(id: number, userId?: number): Promise<Strategy | undefined>;
+  createStrategy(strategy: InsertStrategy, userId?: number): Promise<Strategy>;
+  updateStrategy(id: number, strategy: Partial<InsertStrategy>, userId?: number): Promise<Strategy | undefined>;
+  deleteStrategy(id: number, userId?: number): Promise<boolean>;
+  getStrategyTrades(id: number, userId?: number): Promise<Trade[]>;
+  linkTradesToStrategies(): Promise<number>;
 
   // Psychology Entries
-  getPsychologyEntries(): Promise<PsychologyEntry[]>;
-  getPsychologyEntryById(id: number): Promise<PsychologyEntry | undefined>;
-  createPsychologyEntry(entry: InsertPsychologyEntry): Promise<PsychologyEntry>;
-  updatePsychologyEntry(id: number, entry: Partial<InsertPsychologyEntry>): Promise<PsychologyEntry | undefined>;
+  getPsychologyEntries(userId?: number): Promise<PsychologyEntry[]>;
+  getPsychologyEntryById(id: number, userId?: number): Promise<PsychologyEntry | undefined>;
+  createPsychologyEntry(entry: InsertPsychologyEntry, userId?: number): Promise<PsychologyEntry>;
+  updatePsychologyEntry(id: number, entry: Partial<InsertPsychologyEntry>, userId?: number): Promise<PsychologyEntry | undefined>;
+  deletePsychologyEntry(id: number, userId?: number): Promise<boolean>;
+
+  // Audit log
+  getAuditEvents(entity: AuditEntity, entityId: number, userId?: number): Promise<AuditEvent[]>;
+  getAuditEvent(id: number, userId?: number): Promise<AuditEvent | undefined>;
+  restoreRecord(event: AuditEvent, userId?: number): Promise<Trade | Strategy | PsychologyEntry | undefined>;
+
+  // Trash
+  getTrash(userId?: number): Promise<TrashContents>;
+  restoreFromTrash(entity: AuditEntity, id: number, userId?: number): Promise<Trade | Strategy | PsychologyEntry | undefined>;
+  purgeFromTrash(entity: AuditEntity, id: number, userId?: number): Promise<boolean>;
+  purgeExpiredTrash(now?: Date): Promise<number>;
 
   // Settings
   getSettings(): Promise<Settings | undefined>;
-  updateSettings(settings: InsertSettings): Promise<Settings>;
+  updateSettings(settings: InsertSettings, userId?: number): Promise<Settings>;
+
+  // Benchmarks - market data rather than journal records, so shared by every user
+  getBenchmarks(): Promise<Benchmark[]>;
+  importBenchmarkCloses(symbol: string, closes: BenchmarkClose[]): Promise<Benchmark>;
+  deleteBenchmark(symbol: string): Promise<boolean>;
+}
+
+// A record is visible to its owner; an undefined user means every record
+function isOwnedBy(record: { userId?: number | null } | undefined, userId?: number): boolean {
+  return !!record && (userId === undefined || record.userId === userId);
+}
+
+// Owned and not in the trash: what every read, edit and delete works on
+function isLive(record: { userId?: number | null; deletedAt?: Date | null } | undefined, userId?: number): boolean {
+  return isOwnedBy(record, userId) && !isTrashed(record);
+}
+
+// Same YYYY-MM-DD form the trade forms default the trade date to
+function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+// Thrown when a strategy can't be deleted because trades, live or in the trash, still point at it
+export class StrategyReferenceError extends Error {
+  constructor(message: string, public readonly trades: Trade[]) {
+    super(message);
+    this.name = 'StrategyReferenceError';
+  }
 }
 
 // Google Sheets based storage implementation
 export class GoogleSheetsStorage implements IStorage {
-  private trades: Map<number, Trade>;
-  private strategies: Map<number, Strategy>;
-  private psychologyEntries: Map<number, PsychologyEntry>;
+  protected trades: Map<number, Trade>;
+  protected strategies: Map<number, Strategy>;
+  protected psychologyEntries: Map<number, PsychologyEntry>;
+  protected accounts: Map<number, Account>;
+  protected users: Map<number, User>;
+  protected auditEvents: Map<number, AuditEvent>;
   private settings: Settings | undefined;
-  private currentTradeId: number;
-  private currentStrategyId: number;
-  private currentPsychologyId: number;
+  private benchmarks: Map<string, Benchmark>;
+  protected currentTradeId: number;
+  protected currentStrategyId: number;
+  protected currentPsychologyId: number;
+  protected currentAccountId: number;
+  protected currentUserId: number;
+  protected currentAuditId: number;
   private settingsPath: string;
+  private benchmarksPath: string;
 
   constructor() {
     this.trades = new Map();
     this.strategies = new Map();
     this.psychologyEntries = new Map();
+    this.accounts = new Map();
+    this.users = new Map();
+    this.auditEvents = new Map();
     this.settings = undefined;
+    this.benchmarks = new Map();
     this.currentTradeId = 1;
     this.currentStrategyId = 1;
     this.currentPsychologyId = 1;
+    this.currentAccountId = 1;
+    this.currentUserId = 1;
+    this.currentAuditId = 1;
     this.settingsPath = path.join(process.cwd(), 'data', 'settings.json');
+    this.benchmarksPath = path.join(process.cwd(), 'data', 'benchmarks.json');
 
     // Only load demo data in development, NOT in production
     if (process.env.NODE_ENV === 'development' && !process.env.DISABLE_DEMO_DATA) {
       this.initializeDemoData();
     }
     this.loadSettings();
+    this.loadBenchmarks();
   }
 
   private async loadSettings() {
     try {
       const data = await fs.readFile(this.settingsPath, 'utf-8');
       const settingsData = JSON.parse(data);
+      const storedScriptUrl: string | null = settingsData.googleScriptUrl ?? null;
       this.settings = {
         ...settingsData,
+        googleScriptUrl: this.readScriptUrl(storedScriptUrl),
         updatedAt: new Date(settingsData.updatedAt)
       };
       console.log('Settings loaded successfully:', { 
         hasScriptUrl: !!this.settings?.googleScriptUrl, 
         hasSheetId: !!this.settings?.googleSheetId 
       });
+
+      // Files written before encryption hold the URL in plaintext; rewrite them encrypted
+      if (storedScriptUrl && !isEncryptedSecret(storedScriptUrl)) {
+        await this.saveSettings();
+        console.log('Encrypted the Google Script URL in settings.json');
+      }
     } catch (error) {
       console.log('No saved settings found, using defaults');
       this.settings = {
@@ -89,24 +207,61 @@ export class GoogleSheetsStorage implements IStorage {
     }
   }
 
+  private readScriptUrl(stored: string | null): string | null {
+    if (!stored || !isEncryptedSecret(stored)) return stored;
+    try {
+      return decryptSecret(stored);
+    } catch (error) {
+      // Usually SETTINGS_ENCRYPTION_KEY changed; the URL has to be entered again
+      console.error('Could not decrypt the saved Google Script URL:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  // The Script URL can write to the sheet, so it only ever touches disk encrypted
   private async saveSettings() {
     if (!this.settings) return;
     
     try {
+      const stored = {
+        ...this.settings,
+        googleScriptUrl: this.settings.googleScriptUrl ? encryptSecret(this.settings.googleScriptUrl) : null,
+      };
       await fs.mkdir(path.dirname(this.settingsPath), { recursive: true });
-      await fs.writeFile(this.settingsPath, JSON.stringify(this.settings, null, 2));
+      await fs.writeFile(this.settingsPath, JSON.stringify(stored, null, 2));
       console.log('Settings saved successfully');
     } catch (error) {
       console.warn('Failed to save settings:', error);
     }
   }
 
+  private async loadBenchmarks() {
+    try {
+      const data: Benchmark[] = JSON.parse(await fs.readFile(this.benchmarksPath, 'utf-8'));
+      data.forEach(benchmark => {
+        this.benchmarks.set(benchmark.symbol, { ...benchmark, updatedAt: new Date(benchmark.updatedAt) });
+      });
+    } catch (error) {
+      // Nothing imported yet
+    }
+  }
+
+  private async saveBenchmarks() {
+    try {
+      await fs.mkdir(path.dirname(this.benchmarksPath), { recursive: true });
+      await fs.writeFile(this.benchmarksPath, JSON.stringify(Array.from(this.benchmarks.values())));
+    } catch (error) {
+      console.warn('Failed to save benchmarks:', error);
+    }
+  }
+
   private initializeDemoData() {
     // Demo trades
     const demoTrades: InsertTrade[] = [
       {
         tradeDate: "2024-01-15",
         stockName: "RELIANCE",
+        side: "long",
         quantity: 100,
         entryPrice: "2450.50",
         exitPrice: "2475.25",
@@ -123,6 +278,7 @@ export class GoogleSheetsStorage implements IStorage {
       {
         tradeDate: "2024-01-15",
         stockName: "TCS",
+        side: "long",
         quantity: 50,
         entryPrice: "3580.00",
         exitPrice: "3562.50",
@@ -139,6 +295,7 @@ export class GoogleSheetsStorage implements IStorage {
       {
         tradeDate: "2024-01-16",
         stockName: "INFY",
+        side: "long",
         quantity: 75,
         entryPrice: "1523.20",
         exitPrice: "1547.80",
@@ -154,8 +311,10 @@ export class GoogleSheetsStorage implements IStorage {
       },
     ];
 
+    // Seeded straight into memory so demo rows are never queued for the sheet
     demoTrades.forEach(trade => {
-      this.createTrade(trade);
+      const id = this.currentTradeId++;
+      this.trades.set(id, this.withDerivedFields({ ...trade, id, createdAt: new Date() }));
     });
 
     // Demo strategies
@@ -184,7 +343,8 @@ export class GoogleSheetsStorage implements IStorage {
     ];
 
     demoStrategies.forEach(strategy => {
-      this.createStrategy(strategy);
+      const id = this.currentStrategyId++;
+      this.strategies.set(id, { ...strategy, id, createdAt: new Date() });
     });
 
     // Default settings
@@ -196,219 +356,381 @@ export class GoogleSheetsStorage implements IStorage {
     };
   }
 
-  // Sync data with Google Sheets (optimized for performance)
-  private async syncToGoogleSheets() {
-    if (!this.settings?.googleScriptUrl) return;
+  // Persistence hook called after every mutation; the in-memory store keeps nothing
+  protected async persistChange(_entity: StorageEntity, _change: StorageChange, _id: number, _record?: unknown): Promise<void> {}
 
-    try {
-      // Prepare data with proper field mapping
-      const data = {
-        action: 'sync',
-        trades: Array.from(this.trades.values()).map(trade => ({
-          ...trade,
-          // Ensure all fields are included for complete data sync
-          tradeDate: trade.tradeDate,
-          stockName: trade.stockName,
-          quantity: trade.quantity,
-          entryPrice: trade.entryPrice,
-          exitPrice: trade.exitPrice || '',
-          stopLoss: trade.stopLoss || '',
-          targetPrice: trade.targetPrice || '',
-          profitLoss: trade.profitLoss || '',
-          setupFollowed: trade.setupFollowed,
-          whichSetup: trade.whichSetup || '',
-          emotion: trade.emotion || '',
-          notes: trade.notes || '',
-          psychologyReflections: trade.psychologyReflections || '',
-          screenshotLink: trade.screenshotLink || '',
-          id: trade.id,
-          createdAt: trade.createdAt
-        })),
-        strategies: Array.from(this.strategies.values()).map(strategy => ({
-          ...strategy,
-          // Ensure all strategy fields are included
-          name: strategy.name,
-          description: strategy.description,
-          status: strategy.status,
-          tags: strategy.tags,
-          screenshotUrl: strategy.screenshotUrl || '',
-          id: strategy.id,
-          createdAt: strategy.createdAt
-        })),
-        psychologyEntries: Array.from(this.psychologyEntries.values()).map(entry => ({
-          ...entry,
-          // Ensure all psychology fields are included
-          month: entry.month,
-          year: entry.year,
-          monthlyPnL: entry.monthlyPnL || '',
-          bestTradeId: entry.bestTradeId || '',
-          worstTradeId: entry.worstTradeId || '',
-          mentalReflections: entry.mentalReflections || '',
-          improvementAreas: entry.improvementAreas || '',
-          id: entry.id,
-          createdAt: entry.createdAt
-        })),
-      };
+  // Append one audit event; userId is who made the change, undefined for the sheet sync
+  protected async recordAudit(
+    entity: AuditEntity,
+    action: AuditAction,
+    before: Trade | Strategy | PsychologyEntry | null,
+    after: Trade | Strategy | PsychologyEntry | null,
+    userId?: number,
+  ): Promise<void> {
+    const changes = diffRecords(before, after);
+    if (action === 'update' && changes.length === 0) return;
 
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 8000); // Reduced to 8 seconds for faster response
+    const id = this.currentAuditId++;
+    const event: AuditEvent = {
+      id,
+      entity,
+      entityId: (after ?? before)!.id,
+      action,
+      userId: userId ?? null,
+      username: userId !== undefined ? this.users.get(userId)?.username ?? null : null,
+      ownerId: (after ?? before)!.userId ?? null,
+      at: new Date(),
+      changes,
+      before,
+      after,
+    };
+    this.auditEvents.set(id, event);
+    await this.persistChange('audit', 'put', id, event);
+  }
 
-      const response = await fetch(this.settings.googleScriptUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(data),
-        signal: controller.signal
-      });
+  // Users methods
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
 
-      clearTimeout(timeoutId);
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const wanted = username.toLowerCase();
+    return Array.from(this.users.values()).find(user => user.username.toLowerCase() === wanted);
+  }
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
+  async createUser(username: string, passwordHash: string): Promise<User> {
+    const isFirstUser = this.users.size === 0;
+    const id = this.currentUserId++;
+    const user: User = { id, username, passwordHash, createdAt: new Date() };
+    this.users.set(id, user);
+    await this.persistChange('user', 'put', id, user);
 
-      const result = await response.json();
-      if (!result.success) {
-        throw new Error(result.error || 'Sync failed');
-      }
+    // Whoever registers first inherits the journal kept before logins existed
+    if (isFirstUser) await this.claimUnownedRecords(id);
 
-      console.log(`Google Sheets sync successful: ${result.results?.trades || 0} trades, ${result.results?.strategies || 0} strategies, ${result.results?.psychology || 0} psychology entries`);
-    } catch (error) {
-      if (error instanceof Error && error.name === 'AbortError') {
-        console.warn('Google Sheets sync timeout - request took too long');
-      } else {
-        console.warn('Failed to sync to Google Sheets:', error);
+    return user;
+  }
+
+  // The first user to register set the journal up, so the deployment-wide parts are theirs
+  async isAdmin(userId: number): Promise<boolean> {
+    return this.users.size > 0 && Math.min(...Array.from(this.users.keys())) === userId;
+  }
+
+  private async claimUnownedRecords(userId: number) {
+    const entities: StorageEntity[] = ['trade', 'strategy', 'psychologyEntry', 'account'];
+    for (const entity of entities) {
+      const map = this.mapFor(entity) as Map<number, Trade | Strategy | PsychologyEntry | Account>;
+      for (const record of Array.from(map.values())) {
+        if (record.userId) continue;
+        const claimed = { ...record, userId };
+        map.set(record.id, claimed);
+        await this.persistChange(entity, 'put', record.id, claimed);
       }
     }
+    // Their history comes along too, or it would stay hidden from everyone
+    for (const event of Array.from(this.auditEvents.values())) {
+      if (event.ownerId !== null) continue;
+      const claimed = { ...event, ownerId: userId };
+      this.auditEvents.set(event.id, claimed);
+      await this.persistChange('audit', 'put', event.id, claimed);
+    }
+  }
+
+  private ownedTrades(userId?: number): Trade[] {
+    return Array.from(this.trades.values()).filter(trade => isLive(trade, userId));
   }
 
   // Trades methods
-  async getTrades(): Promise<Trade[]> {
-    return Array.from(this.trades.values()).sort((a, b) => 
+  async getTrades(userId?: number): Promise<Trade[]> {
+    return this.ownedTrades(userId).sort((a, b) => 
       new Date(b.tradeDate).getTime() - new Date(a.tradeDate).getTime()
     );
   }
 
-  async getTradeById(id: number): Promise<Trade | undefined> {
-    return this.trades.get(id);
+  async getTradeById(id: number, userId?: number): Promise<Trade | undefined> {
+    const trade = this.trades.get(id);
+    return isLive(trade, userId) ? trade : undefined;
   }
 
-  async getTradesByDate(date: string): Promise<Trade[]> {
-    return Array.from(this.trades.values()).filter(trade => trade.tradeDate === date);
+  async queryTrades(query: TradeQuery, userId?: number): Promise<TradePage> {
+    return queryTrades(this.ownedTrades(userId), query);
   }
 
-  async createTrade(insertTrade: InsertTrade): Promise<Trade> {
+  async getTradesByDate(date: string, userId?: number): Promise<Trade[]> {
+    return this.ownedTrades(userId).filter(trade => trade.tradeDate === date);
+  }
+
+  async createTrade(insertTrade: InsertTrade, userId?: number): Promise<Trade> {
+    // The day's rules are judged as they stood before this trade; plans aren't trades taken yet
+    const breaches = ["open", "closed"].includes(getTradeStatus(insertTrade))
+      ? (await this.getDailyRulesStatus(insertTrade.tradeDate, userId)).breaches
+      : [];
     const id = this.currentTradeId++;
-    const trade: Trade = {
-      ...insertTrade,
+    const linked = this.linkStrategy(insertTrade, userId);
+    const trade: Trade = this.withDerivedFields({
+      ...linked,
       id,
       createdAt: new Date(),
       exitPrice: insertTrade.exitPrice || null,
       stopLoss: insertTrade.stopLoss || null,
       targetPrice: insertTrade.targetPrice || null,
       profitLoss: insertTrade.profitLoss || null,
-      whichSetup: insertTrade.whichSetup || null,
       emotion: insertTrade.emotion || null,
       notes: insertTrade.notes || null,
       psychologyReflections: insertTrade.psychologyReflections || null,
       screenshotLink: insertTrade.screenshotLink || null,
-    };
+      fills: insertTrade.fills?.length ? insertTrade.fills : null,
+      ruleChecks: insertTrade.ruleChecks?.length ? insertTrade.ruleChecks : null,
+      tags: normalizeTags(insertTrade.tags),
+      customFields: normalizeCustomFieldValues(insertTrade.customFields),
+      mistakes: normalizeMistakes(insertTrade.mistakes),
+      entryTime: toISTDateTime(insertTrade.entryTime),
+      exitTime: toISTDateTime(insertTrade.exitTime),
+      strategyVersion: this.strategyVersionOn(linked),
+      ruleBreaches: breaches.length > 0 ? breaches : null,
+      userId: userId ?? null,
+    });
     this.trades.set(id, trade);
+    await this.persistChange('trade', 'put', id, trade);
+    await this.recordAudit('trade', 'create', null, trade, userId);
     
-    // Sync to Google Sheets
-    await this.syncToGoogleSheets();
+    // Queue the Google Sheets write
+    sheetSyncQueue.enqueue('trade', 'add', id, trade);
     
     return trade;
   }
 
-  async updateTrade(id: number, updateData: Partial<InsertTrade>): Promise<Trade | undefined> {
+  // Bulk imports go through createTrade one at a time so each lands in the journal and the outbox
+  async createTrades(insertTrades: InsertTrade[], userId?: number): Promise<Trade[]> {
+    const created: Trade[] = [];
+    for (const insertTrade of insertTrades) {
+      created.push(await this.createTrade(insertTrade, userId));
+    }
+    return created;
+  }
+
+  async updateTrade(id: number, updateData: Partial<InsertTrade>, userId?: number): Promise<Trade | undefined> {
     const trade = this.trades.get(id);
-    if (!trade) return undefined;
+    if (!trade || !isLive(trade, userId)) return undefined;
 
-    const updatedTrade: Trade = {
-      ...trade,
-      ...updateData,
-    };
+    // A new setup name sent without an id is looked up by name again
+    const renamed = updateData.whichSetup !== undefined && updateData.strategyId === undefined;
+    const changed = this.linkStrategy({ ...trade, ...updateData, ...(renamed ? { strategyId: null } : {}) }, userId);
+    const updatedTrade: Trade = this.withDerivedFields({
+      ...changed,
+      // Moving a trade to another strategy or date binds it to the version in force there
+      strategyVersion: changed.strategyId === trade.strategyId && changed.tradeDate === trade.tradeDate
+        ? trade.strategyVersion
+        : this.strategyVersionOn(changed),
+      tags: normalizeTags(changed.tags),
+      customFields: normalizeCustomFieldValues(changed.customFields),
+      mistakes: normalizeMistakes(changed.mistakes),
+      entryTime: toISTDateTime(changed.entryTime),
+      exitTime: toISTDateTime(changed.exitTime),
+      updatedAt: new Date(),
+    });
     this.trades.set(id, updatedTrade);
+    await this.persistChange('trade', 'put', id, updatedTrade);
+    await this.recordAudit('trade', 'update', trade, updatedTrade, userId);
     
-    // Sync to Google Sheets
-    await this.syncToGoogleSheets();
+    // Queue the Google Sheets write
+    sheetSyncQueue.enqueue('trade', 'update', id, updatedTrade);
     
     return updatedTrade;
   }
 
-  async deleteTrade(id: number): Promise<boolean> {
-    const deleted = this.trades.delete(id);
+  async deleteTrade(id: number, userId?: number): Promise<boolean> {
+    return this.moveToTrash('trade', id, userId);
+  }
+
+  private strategyVersionOn(trade: Pick<Trade, 'strategyId' | 'tradeDate'>): number | null {
+    const strategy = trade.strategyId ? this.strategies.get(trade.strategyId) : undefined;
+    return strategy ? getVersionOn(strategy, trade.tradeDate) : null;
+  }
+
+  // Point a trade at its strategy by ID and keep whichSetup showing that strategy's current name.
+  // An ID that no longer resolves falls back to the name, and a name with no strategy behind it
+  // stays as free text with no ID
+  private linkStrategy<T extends Pick<InsertTrade, 'strategyId' | 'whichSetup'>>(trade: T, userId?: number): T {
+    const byId = trade.strategyId ? this.strategies.get(trade.strategyId) : undefined;
+    const strategy = isLive(byId, userId)
+      ? byId
+      : trade.whichSetup
+        ? Array.from(this.strategies.values()).find(strategy => isLive(strategy, userId) && strategy.name === trade.whichSetup)
+        : undefined;
+    return { ...trade, strategyId: strategy?.id ?? null, whichSetup: strategy?.name ?? (trade.whichSetup || null) };
+  }
+
+  async getDailyRulesStatus(date: string, userId?: number): Promise<DailyRulesStatus> {
+    return evaluateDailyRules(this.ownedTrades(userId), date, this.settings?.dailyRules ?? DEFAULT_DAILY_RULES_CONFIG);
+  }
+
+  // Accounts methods
+  async getAccounts(userId?: number): Promise<Account[]> {
+    return Array.from(this.accounts.values()).filter(account => isOwnedBy(account, userId)).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getAccountById(id: number, userId?: number): Promise<Account | undefined> {
+    const account = this.accounts.get(id);
+    return isOwnedBy(account, userId) ? account : undefined;
+  }
+
+  async createAccount(insertAccount: InsertAccount, userId?: number): Promise<Account> {
+    const id = this.currentAccountId++;
+    const account: Account = {
+      ...insertAccount,
+      id,
+      createdAt: new Date(),
+      broker: insertAccount.broker || null,
+      description: insertAccount.description || null,
+      userId: userId ?? null,
+    };
+    this.accounts.set(id, account);
+    await this.persistChange('account', 'put', id, account);
+    return account;
+  }
+
+  async updateAccount(id: number, updateData: Partial<InsertAccount>, userId?: number): Promise<Account | undefined> {
+    const account = this.accounts.get(id);
+    if (!account || !isOwnedBy(account, userId)) return undefined;
+
+    const updatedAccount: Account = {
+      ...account,
+      ...updateData,
+      updatedAt: new Date(),
+    };
+    this.accounts.set(id, updatedAccount);
+    await this.persistChange('account', 'put', id, updatedAccount);
+    return updatedAccount;
+  }
+
+  async deleteAccount(id: number, userId?: number): Promise<boolean> {
+    const deleted = isOwnedBy(this.accounts.get(id), userId) && this.accounts.delete(id);
     if (deleted) {
-      await this.syncToGoogleSheets();
+      await this.persistChange('account', 'delete', id);
     }
     return deleted;
   }
 
   // Strategies methods
-  async getStrategies(): Promise<Strategy[]> {
-    return Array.from(this.strategies.values()).sort((a, b) => a.name.localeCompare(b.name));
+  async getStrategies(userId?: number): Promise<Strategy[]> {
+    return Array.from(this.strategies.values()).filter(strategy => isLive(strategy, userId)).sort((a, b) => a.name.localeCompare(b.name));
   }
 
-  async getStrategyById(id: number): Promise<Strategy | undefined> {
-    return this.strategies.get(id);
+  async getStrategyById(id: number, userId?: number): Promise<Strategy | undefined> {
+    const strategy = this.strategies.get(id);
+    return isLive(strategy, userId) ? strategy : undefined;
   }
 
-  async createStrategy(insertStrategy: InsertStrategy): Promise<Strategy> {
+  async createStrategy(insertStrategy: InsertStrategy, userId?: number): Promise<Strategy> {
     const id = this.currentStrategyId++;
-    const strategy: Strategy = {
+    const strategy: Strategy = withCurrentVersion({
       ...insertStrategy,
       id,
       createdAt: new Date(),
       description: insertStrategy.description || null,
       screenshotUrl: insertStrategy.screenshotUrl || null,
       tags: insertStrategy.tags || null,
-    };
+      rules: insertStrategy.rules?.length ? insertStrategy.rules : null,
+      userId: userId ?? null,
+    }, today());
     this.strategies.set(id, strategy);
+    await this.persistChange('strategy', 'put', id, strategy);
+    await this.recordAudit('strategy', 'create', null, strategy, userId);
     
-    // Sync to Google Sheets
-    await this.syncToGoogleSheets();
+    // Queue the Google Sheets write
+    sheetSyncQueue.enqueue('strategy', 'add', id, strategy);
     
     return strategy;
   }
 
-  async updateStrategy(id: number, updateData: Partial<InsertStrategy>): Promise<Strategy | undefined> {
+  async updateStrategy(id: number, updateData: Partial<InsertStrategy>, userId?: number): Promise<Strategy | undefined> {
     const strategy = this.strategies.get(id);
-    if (!strategy) return undefined;
+    if (!strategy || !isLive(strategy, userId)) return undefined;
 
-    const updatedStrategy: Strategy = {
+    // Version history only grows; a revert that restores an old description starts another version
+    const { version, versions, ...changes } = updateData as Partial<Strategy>;
+    const merged: Strategy = {
       ...strategy,
-      ...updateData,
+      ...changes,
+      updatedAt: new Date(),
     };
+    const updatedStrategy = withCurrentVersion(merged, today());
     this.strategies.set(id, updatedStrategy);
+    await this.persistChange('strategy', 'put', id, updatedStrategy);
+    await this.recordAudit('strategy', 'update', strategy, updatedStrategy, userId);
     
-    // Sync to Google Sheets
-    await this.syncToGoogleSheets();
+    // Queue the Google Sheets write
+    sheetSyncQueue.enqueue('strategy', 'update', id, updatedStrategy);
+
+    if (updatedStrategy.name !== strategy.name) {
+      await this.renameStrategyOnTrades(updatedStrategy, userId);
+    }
     
     return updatedStrategy;
   }
 
-  async deleteStrategy(id: number): Promise<boolean> {
-    const deleted = this.strategies.delete(id);
-    if (deleted) {
-      await this.syncToGoogleSheets();
+  // Trades keep the strategy's ID, so deleting one they point at is refused rather than orphaning them
+  async deleteStrategy(id: number, userId?: number): Promise<boolean> {
+    const strategy = this.strategies.get(id);
+    if (!strategy || !isLive(strategy, userId)) return false;
+
+    const trades = await this.getStrategyTrades(id, userId);
+    if (trades.length > 0) {
+      throw new StrategyReferenceError(`${strategy.name} is used by ${trades.length} trade${trades.length === 1 ? '' : 's'}`, trades);
     }
-    return deleted;
+    return this.moveToTrash('strategy', id, userId);
+  }
+
+  // Every trade on the strategy, including the trash, since a trashed trade can be restored
+  async getStrategyTrades(id: number, userId?: number): Promise<Trade[]> {
+    return Array.from(this.trades.values())
+      .filter(trade => isOwnedBy(trade, userId) && trade.strategyId === id)
+      .sort((a, b) => a.tradeDate.localeCompare(b.tradeDate) || a.id - b.id);
+  }
+
+  // Carry a strategy's new name onto its trades, in the trash too, so whichSetup never goes stale
+  private async renameStrategyOnTrades(strategy: Strategy, userId?: number): Promise<void> {
+    for (const trade of await this.getStrategyTrades(strategy.id)) {
+      const renamed: Trade = { ...trade, whichSetup: strategy.name, updatedAt: new Date() };
+      this.trades.set(trade.id, renamed);
+      await this.persistChange('trade', 'put', trade.id, renamed);
+      await this.recordAudit('trade', 'update', trade, renamed, userId);
+      sheetSyncQueue.enqueue('trade', 'update', trade.id, renamed);
+    }
+  }
+
+  // Migration for trades saved before strategyId existed: link each one to its owner's live
+  // strategy of the same name. Safe to run on every start; already linked trades are left alone
+  async linkTradesToStrategies(): Promise<number> {
+    let linked = 0;
+    for (const trade of Array.from(this.trades.values())) {
+      if (trade.strategyId || !trade.whichSetup) continue;
+      const { strategyId } = this.linkStrategy(trade, trade.userId ?? undefined);
+      if (!strategyId) continue;
+
+      const migrated: Trade = { ...trade, strategyId };
+      this.trades.set(trade.id, migrated);
+      await this.persistChange('trade', 'put', trade.id, migrated);
+      sheetSyncQueue.enqueue('trade', 'update', trade.id, migrated);
+      linked++;
+    }
+    return linked;
   }
 
   // Psychology entries methods
-  async getPsychologyEntries(): Promise<PsychologyEntry[]> {
-    return Array.from(this.psychologyEntries.values()).sort((a, b) => 
+  async getPsychologyEntries(userId?: number): Promise<PsychologyEntry[]> {
+    return Array.from(this.psychologyEntries.values()).filter(entry => isLive(entry, userId)).sort((a, b) => 
       b.year - a.year || a.month.localeCompare(b.month)
     );
   }
 
-  async getPsychologyEntryById(id: number): Promise<PsychologyEntry | undefined> {
-    return this.psychologyEntries.get(id);
+  async getPsychologyEntryById(id: number, userId?: number): Promise<PsychologyEntry | undefined> {
+    const entry = this.psychologyEntries.get(id);
+    return isLive(entry, userId) ? entry : undefined;
   }
 
-  async createPsychologyEntry(insertEntry: InsertPsychologyEntry): Promise<PsychologyEntry> {
+  async createPsychologyEntry(insertEntry: InsertPsychologyEntry, userId?: number): Promise<PsychologyEntry> {
     const id = this.currentPsychologyId++;
     const entry: PsychologyEntry = {
       ...insertEntry,
@@ -419,50 +741,383 @@ export class GoogleSheetsStorage implements IStorage {
       worstTradeId: insertEntry.worstTradeId || null,
       mentalReflections: insertEntry.mentalReflections || null,
       improvementAreas: insertEntry.improvementAreas || null,
+      userId: userId ?? null,
     };
     this.psychologyEntries.set(id, entry);
+    await this.persistChange('psychologyEntry', 'put', id, entry);
+    await this.recordAudit('psychologyEntry', 'create', null, entry, userId);
     
-    // Sync to Google Sheets
-    await this.syncToGoogleSheets();
+    // Queue the Google Sheets write
+    sheetSyncQueue.enqueue('psychologyEntry', 'add', id, entry);
     
     return entry;
   }
 
-  async updatePsychologyEntry(id: number, updateData: Partial<InsertPsychologyEntry>): Promise<PsychologyEntry | undefined> {
+  async updatePsychologyEntry(id: number, updateData: Partial<InsertPsychologyEntry>, userId?: number): Promise<PsychologyEntry | undefined> {
     const entry = this.psychologyEntries.get(id);
-    if (!entry) return undefined;
+    if (!entry || !isLive(entry, userId)) return undefined;
 
     const updatedEntry: PsychologyEntry = {
       ...entry,
       ...updateData,
+      updatedAt: new Date(),
     };
     this.psychologyEntries.set(id, updatedEntry);
+    await this.persistChange('psychologyEntry', 'put', id, updatedEntry);
+    await this.recordAudit('psychologyEntry', 'update', entry, updatedEntry, userId);
     
-    // Sync to Google Sheets
-    await this.syncToGoogleSheets();
+    // Queue the Google Sheets write
+    sheetSyncQueue.enqueue('psychologyEntry', 'update', id, updatedEntry);
     
     return updatedEntry;
   }
 
+  async deletePsychologyEntry(id: number, userId?: number): Promise<boolean> {
+    return this.moveToTrash('psychologyEntry', id, userId);
+  }
+
+  // Audit log methods
+  async getAuditEvents(entity: AuditEntity, entityId: number, userId?: number): Promise<AuditEvent[]> {
+    return Array.from(this.auditEvents.values())
+      .filter(event => event.entity === entity && event.entityId === entityId)
+      .filter(event => userId === undefined || event.ownerId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getAuditEvent(id: number, userId?: number): Promise<AuditEvent | undefined> {
+    const event = this.auditEvents.get(id);
+    return event && (userId === undefined || event.ownerId === userId) ? event : undefined;
+  }
+
+  // Undo a deletion: take the record out of the trash, or re-create it from the snapshot when it
+  // was deleted before the trash existed. Undefined when it is live again or has been purged.
+  async restoreRecord(event: AuditEvent, userId?: number): Promise<Trade | Strategy | PsychologyEntry | undefined> {
+    const map = this.mapFor(event.entity) as Map<number, Trade | Strategy | PsychologyEntry>;
+    if (map.has(event.entityId)) return this.restoreFromTrash(event.entity, event.entityId, userId);
+
+    const purged = Array.from(this.auditEvents.values()).some(other =>
+      other.entity === event.entity && other.entityId === event.entityId && other.action === 'purge'
+    );
+    if (!event.before || purged) return undefined;
+
+    // Snapshots read back from the journal hold dates as strings
+    const snapshot = event.before as unknown as Trade | Strategy | PsychologyEntry;
+    const restored = {
+      ...snapshot,
+      id: event.entityId,
+      createdAt: new Date(snapshot.createdAt),
+      updatedAt: new Date(),
+      deletedAt: null,
+    };
+    // The snapshot may name a strategy that has since been renamed
+    const record = event.entity === 'trade'
+      ? this.withDerivedFields(this.linkStrategy(restored as Trade, snapshot.userId ?? undefined))
+      : restored;
+
+    map.set(record.id, record);
+    await this.persistChange(event.entity, 'put', record.id, record);
+    await this.recordAudit(event.entity, 'restore', null, record, userId);
+    sheetSyncQueue.enqueue(event.entity, 'add', record.id, record);
+    return record;
+  }
+
+  // Trash methods
+  private get trashRetentionDays(): number {
+    return this.settings?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+  }
+
+  // Deleting only stamps deletedAt; the sheet row is marked the same way rather than removed
+  private async moveToTrash(entity: AuditEntity, id: number, userId?: number): Promise<boolean> {
+    const map = this.mapFor(entity) as Map<number, Trade | Strategy | PsychologyEntry>;
+    const record = map.get(id);
+    if (!record || !isLive(record, userId)) return false;
+
+    const now = new Date();
+    const trashed = { ...record, deletedAt: now, updatedAt: now };
+    map.set(id, trashed);
+    await this.persistChange(entity, 'put', id, trashed);
+    await this.recordAudit(entity, 'delete', record, trashed, userId);
+    sheetSyncQueue.enqueue(entity, 'update', id, trashed);
+    return true;
+  }
+
+  async getTrash(userId?: number): Promise<TrashContents> {
+    const trashed = <T extends Trade | Strategy | PsychologyEntry>(map: Map<number, T>) =>
+      Array.from(map.values())
+        .filter(record => isOwnedBy(record, userId) && isTrashed(record))
+        .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+
+    return {
+      retentionDays: this.trashRetentionDays,
+      trades: trashed(this.trades),
+      strategies: trashed(this.strategies),
+      psychologyEntries: trashed(this.psychologyEntries),
+    };
+  }
+
+  async restoreFromTrash(entity: AuditEntity, id: number, userId?: number): Promise<Trade | Strategy | PsychologyEntry | undefined> {
+    const map = this.mapFor(entity) as Map<number, Trade | Strategy | PsychologyEntry>;
+    const record = map.get(id);
+    if (!record || !isOwnedBy(record, userId) || !isTrashed(record)) return undefined;
+
+    const untrashed = { ...record, deletedAt: null, updatedAt: new Date() };
+    // Charges settings may have changed while the trade was in the trash
+    const restored = entity === 'trade' ? this.withDerivedFields(untrashed as Trade) : untrashed;
+    map.set(id, restored);
+    await this.persistChange(entity, 'put', id, restored);
+    await this.recordAudit(entity, 'restore', record, restored, userId);
+    sheetSyncQueue.enqueue(entity, 'update', id, restored);
+    return restored;
+  }
+
+  // Only trashed records can be purged; this is the one path that removes a sheet row
+  async purgeFromTrash(entity: AuditEntity, id: number, userId?: number): Promise<boolean> {
+    const map = this.mapFor(entity) as Map<number, Trade | Strategy | PsychologyEntry>;
+    const record = map.get(id);
+    if (!record || !isOwnedBy(record, userId) || !isTrashed(record)) return false;
+
+    map.delete(id);
+    await this.persistChange(entity, 'delete', id);
+    await this.recordAudit(entity, 'purge', record, null, userId);
+    sheetSyncQueue.enqueue(entity, 'delete', id);
+    return true;
+  }
+
+  // Purge everything that has outlived the retention window, across all users
+  async purgeExpiredTrash(now = new Date()): Promise<number> {
+    const { trades, strategies, psychologyEntries } = await this.getTrash();
+    const expired = (records: Array<Trade | Strategy | PsychologyEntry>) =>
+      records.filter(record => getPurgeDate(record.deletedAt!, this.trashRetentionDays) <= now);
+
+    let purged = 0;
+    for (const trade of expired(trades)) {
+      if (await this.purgeFromTrash('trade', trade.id)) purged++;
+    }
+    for (const strategy of expired(strategies)) {
+      if (await this.purgeFromTrash('strategy', strategy.id)) purged++;
+    }
+    for (const entry of expired(psychologyEntries)) {
+      if (await this.purgeFromTrash('psychologyEntry', entry.id)) purged++;
+    }
+    return purged;
+  }
+
   // Settings methods
   async getSettings(): Promise<Settings | undefined> {
     return this.settings;
   }
 
-  async updateSettings(settingsData: InsertSettings): Promise<Settings> {
+  async updateSettings(settingsData: InsertSettings, userId?: number): Promise<Settings> {
+    // Fields left out of the request keep their current value
+    const previousCharges = JSON.stringify(this.settings?.charges ?? null);
     this.settings = {
       id: this.settings?.id || 1,
-      googleSheetId: settingsData.googleSheetId || null,
-      googleScriptUrl: settingsData.googleScriptUrl || null,
+      googleSheetId: settingsData.googleSheetId !== undefined
+        ? settingsData.googleSheetId || null
+        : this.settings?.googleSheetId ?? null,
+      googleScriptUrl: settingsData.googleScriptUrl !== undefined
+        ? settingsData.googleScriptUrl || null
+        : this.settings?.googleScriptUrl ?? null,
+      charges: settingsData.charges !== undefined ? settingsData.charges : this.settings?.charges ?? null,
+      risk: settingsData.risk !== undefined ? settingsData.risk : this.settings?.risk ?? null,
+      dailyRules: settingsData.dailyRules !== undefined ? settingsData.dailyRules : this.settings?.dailyRules ?? null,
+      trashRetentionDays: settingsData.trashRetentionDays !== undefined
+        ? settingsData.trashRetentionDays
+        : this.settings?.trashRetentionDays ?? null,
+      customFields: settingsData.customFields !== undefined ? settingsData.customFields : this.settings?.customFields ?? null,
+      mistakeCategories: settingsData.mistakeCategories !== undefined
+        ? settingsData.mistakeCategories
+        : this.settings?.mistakeCategories ?? null,
       updatedAt: new Date(),
     };
     
     // Save to file system for persistence
     await this.saveSettings();
+
+    if (JSON.stringify(this.settings.charges ?? null) !== previousCharges) {
+      await this.recalculateCharges(userId);
+    }
+    // A shorter retention window applies to what is already in the trash
+    await this.purgeExpiredTrash();
     
     return this.settings;
   }
 
+  // Benchmark methods
+  async getBenchmarks(): Promise<Benchmark[]> {
+    return Array.from(this.benchmarks.values()).sort((a, b) => a.symbol.localeCompare(b.symbol));
+  }
+
+  // Adds to the symbol's series, creating it on the first import
+  async importBenchmarkCloses(symbol: string, closes: BenchmarkClose[]): Promise<Benchmark> {
+    const benchmark: Benchmark = {
+      symbol,
+      closes: mergeBenchmarkCloses(this.benchmarks.get(symbol)?.closes ?? [], closes),
+      updatedAt: new Date(),
+    };
+    this.benchmarks.set(symbol, benchmark);
+    await this.saveBenchmarks();
+    return benchmark;
+  }
+
+  async deleteBenchmark(symbol: string): Promise<boolean> {
+    if (!this.benchmarks.delete(symbol)) return false;
+    await this.saveBenchmarks();
+    return true;
+  }
+
+  // Fill-derived prices and P&L first, then charges on top of them; status is filled in for older trades.
+  // A trade checked against its strategy's rules followed the setup only if every rule was followed
+  protected withDerivedFields(trade: Trade): Trade {
+    const derived = withFillTimes(deriveTradeFromFills(trade));
+    const complianceScore = getComplianceScore(derived.ruleChecks);
+    return {
+      ...derived,
+      status: getTradeStatus(derived),
+      complianceScore,
+      setupFollowed: complianceScore === null ? derived.setupFollowed : complianceScore === 100,
+      ...calculateTradeCharges(derived, this.settings?.charges ?? DEFAULT_CHARGES_CONFIG),
+    };
+  }
+
+  // Re-run the charges engine over every trade after the charges settings change; each
+  // changed trade gets an audit event from whoever changed the settings
+  async recalculateCharges(userId?: number): Promise<number> {
+    let updated = 0;
+    for (const trade of Array.from(this.trades.values())) {
+      const recalculated = this.withDerivedFields(trade);
+      if (recalculated.charges === trade.charges && recalculated.netPnL === trade.netPnL) continue;
+
+      this.trades.set(trade.id, recalculated);
+      await this.persistChange('trade', 'put', trade.id, recalculated);
+      await this.recordAudit('trade', 'update', trade, recalculated, userId);
+      sheetSyncQueue.enqueue('trade', 'update', trade.id, recalculated);
+      updated++;
+    }
+    return updated;
+  }
+
+  // Import records from another source (Google Sheets, a previous in-memory run),
+  // keeping their IDs where possible and skipping IDs that already exist.
+  // Imported records belong to userId.
+  async importRecords(data: {
+    trades?: Trade[];
+    strategies?: Strategy[];
+    psychologyEntries?: PsychologyEntry[];
+  }, userId?: number) {
+    const userStrategies = await this.getStrategies(userId);
+    const result = { trades: 0, strategies: 0, psychologyEntries: 0, skipped: 0 };
+
+    for (const trade of data.trades || []) {
+      if (this.trades.has(trade.id)) {
+        result.skipped++;
+        continue;
+      }
+      const id = Number.isInteger(trade.id) && trade.id > 0 ? trade.id : this.currentTradeId;
+      const imported: Trade = this.withDerivedFields({ ...trade, id, userId: userId ?? trade.userId ?? null });
+      this.trades.set(id, imported);
+      this.currentTradeId = Math.max(this.currentTradeId, id + 1);
+      await this.persistChange('trade', 'put', id, imported);
+      await this.recordAudit('trade', 'create', null, imported, userId);
+      result.trades++;
+    }
+
+    for (const strategy of data.strategies || []) {
+      if (this.strategies.has(strategy.id) || userStrategies.some(s => s.name === strategy.name)) {
+        result.skipped++;
+        continue;
+      }
+      const id = Number.isInteger(strategy.id) && strategy.id > 0 ? strategy.id : this.currentStrategyId;
+      const imported: Strategy = { ...strategy, id, userId: userId ?? strategy.userId ?? null };
+      this.strategies.set(id, imported);
+      this.currentStrategyId = Math.max(this.currentStrategyId, id + 1);
+      await this.persistChange('strategy', 'put', id, imported);
+      await this.recordAudit('strategy', 'create', null, imported, userId);
+      result.strategies++;
+    }
+
+    for (const entry of data.psychologyEntries || []) {
+      if (this.psychologyEntries.has(entry.id)) {
+        result.skipped++;
+        continue;
+      }
+      const id = Number.isInteger(entry.id) && entry.id > 0 ? entry.id : this.currentPsychologyId;
+      const imported: PsychologyEntry = { ...entry, id, userId: userId ?? entry.userId ?? null };
+      this.psychologyEntries.set(id, imported);
+      this.currentPsychologyId = Math.max(this.currentPsychologyId, id + 1);
+      await this.persistChange('psychologyEntry', 'put', id, imported);
+      await this.recordAudit('psychologyEntry', 'create', null, imported, userId);
+      result.psychologyEntries++;
+    }
+
+    // Imported trades come before their strategies, so they are linked once both are in
+    await this.linkTradesToStrategies();
+
+    return result;
+  }
+
+  // Overwrite a local row with what the sheet holds, or trash it when record is
+  // null. Used by reconciliation, so only the trashed row is queued back to the sheet.
+  // The sheet has no owner column, so a row keeps its local owner and rows new
+  // to local storage go to userId.
+  async applySheetRecord(entity: SyncEntity, id: number, record: Trade | Strategy | PsychologyEntry | null, userId?: number): Promise<void> {
+    const map = this.mapFor(entity) as Map<number, Trade | Strategy | PsychologyEntry>;
+    const existing = map.get(id) ?? null;
+
+    // Audited with no user: the change came from whoever edited the sheet
+    if (record === null) {
+      if (!existing) return;
+      // A row removed from the sheet sends the record to the trash, where it can still be restored
+      let trashed = existing;
+      if (!isTrashed(existing)) {
+        const now = new Date();
+        trashed = { ...existing, deletedAt: now, updatedAt: now };
+        map.set(id, trashed);
+        await this.persistChange(entity, 'put', id, trashed);
+        await this.recordAudit(entity, 'delete', existing, trashed);
+      }
+      // Trashed rows stay in the sheet marked with Deleted At, like a delete made in the app
+      sheetSyncQueue.enqueue(entity, 'add', id, trashed);
+      return;
+    }
+
+    const owner = map.get(id)?.userId ?? userId ?? null;
+    // A description or rules edited in the sheet starts a new version like an edit in the app would
+    const applied = entity === 'trade'
+      ? this.withDerivedFields(this.linkStrategy({ ...(record as Trade), id, userId: owner }, owner ?? undefined))
+      : entity === 'strategy'
+        ? withCurrentVersion({ ...(record as Strategy), id, userId: owner }, today())
+        : { ...record, id, userId: owner };
+    map.set(id, applied);
+    if (entity === 'trade') this.currentTradeId = Math.max(this.currentTradeId, id + 1);
+    if (entity === 'strategy') this.currentStrategyId = Math.max(this.currentStrategyId, id + 1);
+    if (entity === 'psychologyEntry') this.currentPsychologyId = Math.max(this.currentPsychologyId, id + 1);
+    await this.persistChange(entity, 'put', id, applied);
+    await this.recordAudit(entity, existing ? 'update' : 'create', existing, applied);
+
+    // A strategy renamed in the sheet renames its trades there too
+    if (entity === 'strategy' && existing && (existing as Strategy).name !== (applied as Strategy).name) {
+      await this.renameStrategyOnTrades(applied as Strategy);
+    }
+  }
+
+  protected mapFor(entity: StorageEntity) {
+    switch (entity) {
+      case 'trade':
+        return this.trades;
+      case 'strategy':
+        return this.strategies;
+      case 'psychologyEntry':
+        return this.psychologyEntries;
+      case 'account':
+        return this.accounts;
+      case 'user':
+        return this.users;
+      case 'audit':
+        return this.auditEvents;
+    }
+  }
+
   // Force sync to Google Sheets (for testing)
   async forceSyncToGoogleSheets() {
     if (!this.settings?.googleScriptUrl) {
@@ -519,4 +1174,122 @@ export class GoogleSheetsStorage implements IStorage {
   }
 }
 
-export const storage = new GoogleSheetsStorage();
\ No newline at end of file
+interface JournalEntry {
+  entity: StorageEntity;
+  change: StorageChange;
+  id: number;
+  record?: any;
+  at: string;
+}
+
+// Durable storage backed by an append-only JSON journal (data/journal.jsonl).
+// Every mutation is appended as one line and replayed into the in-memory maps on
+// startup, so Google Sheets is only a mirror instead of the only durable copy.
+export class JournalStorage extends GoogleSheetsStorage {
+  private journalPath: string;
+  private pendingWrite: Promise<void>;
+
+  constructor(journalPath = path.join(process.cwd(), 'data', 'journal.jsonl')) {
+    super();
+    this.journalPath = journalPath;
+    this.pendingWrite = Promise.resolve();
+
+    if (existsSync(this.journalPath)) {
+      this.replayJournal();
+    } else {
+      // First start on the journal: keep whatever the in-memory store already holds
+      console.log('No journal found, importing current in-memory data');
+    }
+    this.compactJournal();
+  }
+
+  private replayJournal() {
+    this.trades.clear();
+    this.strategies.clear();
+    this.psychologyEntries.clear();
+    this.accounts.clear();
+    this.users.clear();
+    this.auditEvents.clear();
+
+    const lines = readFileSync(this.journalPath, 'utf-8').split('\n').filter(line => line.trim());
+    let skipped = 0;
+
+    for (const line of lines) {
+      let entry: JournalEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // A crash mid-append can leave a truncated last line behind
+        skipped++;
+        continue;
+      }
+
+      const map = this.mapFor(entry.entity) as Map<number, any>;
+      if (entry.change === 'delete') {
+        map.delete(entry.id);
+      } else if (entry.entity === 'audit') {
+        // Snapshots stay as journaled; only the event time is revived
+        map.set(entry.id, { ...entry.record, at: new Date(entry.record.at) });
+      } else {
+        map.set(entry.id, {
+          ...entry.record,
+          // Trades journaled before shorts or statuses were supported have neither
+          ...(entry.entity === 'trade' ? { side: getTradeSide(entry.record.side), status: getTradeStatus(entry.record) } : {}),
+          createdAt: new Date(entry.record.createdAt),
+          updatedAt: entry.record.updatedAt ? new Date(entry.record.updatedAt) : null,
+          ...(entry.record.deletedAt ? { deletedAt: new Date(entry.record.deletedAt) } : {}),
+        });
+      }
+    }
+
+    this.currentTradeId = Math.max(0, ...Array.from(this.trades.keys())) + 1;
+    this.currentStrategyId = Math.max(0, ...Array.from(this.strategies.keys())) + 1;
+    this.currentPsychologyId = Math.max(0, ...Array.from(this.psychologyEntries.keys())) + 1;
+    this.currentAccountId = Math.max(0, ...Array.from(this.accounts.keys())) + 1;
+    this.currentUserId = Math.max(0, ...Array.from(this.users.keys())) + 1;
+    this.currentAuditId = Math.max(0, ...Array.from(this.auditEvents.keys())) + 1;
+
+    console.log(`Journal loaded: ${this.trades.size} trades, ${this.strategies.size} strategies, ${this.psychologyEntries.size} psychology entries, ${this.accounts.size} accounts, ${this.users.size} users, ${this.auditEvents.size} audit events${skipped ? ` (${skipped} corrupt lines skipped)` : ''}`);
+  }
+
+  // Rewrite the journal as one 'put' per live record so it doesn't grow forever
+  private compactJournal() {
+    const at = new Date().toISOString();
+    const entries: JournalEntry[] = [
+      ...Array.from(this.trades.values()).map(record => ({ entity: 'trade' as const, change: 'put' as const, id: record.id, record, at })),
+      ...Array.from(this.strategies.values()).map(record => ({ entity: 'strategy' as const, change: 'put' as const, id: record.id, record, at })),
+      ...Array.from(this.psychologyEntries.values()).map(record => ({ entity: 'psychologyEntry' as const, change: 'put' as const, id: record.id, record, at })),
+      ...Array.from(this.accounts.values()).map(record => ({ entity: 'account' as const, change: 'put' as const, id: record.id, record, at })),
+      ...Array.from(this.users.values()).map(record => ({ entity: 'user' as const, change: 'put' as const, id: record.id, record, at })),
+      // The audit log is append-only, so compaction keeps every event
+      ...Array.from(this.auditEvents.values()).map(record => ({ entity: 'audit' as const, change: 'put' as const, id: record.id, record, at })),
+    ];
+
+    const tmpPath = `${this.journalPath}.tmp`;
+    mkdirSync(path.dirname(this.journalPath), { recursive: true });
+    writeFileSync(tmpPath, entries.map(entry => JSON.stringify(entry) + '\n').join(''));
+    renameSync(tmpPath, this.journalPath);
+  }
+
+  protected async persistChange(entity: StorageEntity, change: StorageChange, id: number, record?: unknown): Promise<void> {
+    const entry: JournalEntry = { entity, change, id, record, at: new Date().toISOString() };
+    const line = JSON.stringify(entry) + '\n';
+
+    // Serialize appends so concurrent requests can't interleave lines
+    const write = this.pendingWrite.then(() => fs.appendFile(this.journalPath, line));
+    this.pendingWrite = write.catch(() => undefined);
+    await write;
+  }
+}
+
+// Select the storage driver at startup: STORAGE_DRIVER=memory keeps the old
+// in-memory behaviour, anything else uses the durable journal
+function createStorage(): GoogleSheetsStorage {
+  if (process.env.STORAGE_DRIVER === 'memory') {
+    console.log('Using in-memory storage (data is lost on restart)');
+    return new GoogleSheetsStorage();
+  }
+  return new JournalStorage(process.env.JOURNAL_PATH);
+}
+
+export const storage = createStorage();
\ No newline at end of file
@@ -0,0 +1,264 @@
+/**
+ * Persistent outbox for Google Sheets writes
+ * Storage mutations enqueue one job per entity; a background loop drains the
+ * queue with exponential backoff so a flaky Apps Script never drops rows.
+ */
+
+import { existsSync, readFileSync, promises as fs } from 'fs';
+import path from 'path';
+import { GoogleSheetsClient } from './googleSheetsClient';
+
+export type SyncEntity = 'trade' | 'strategy' | 'psychologyEntry';
+export type SyncOperation = 'add' | 'update' | 'delete';
+
+export interface SyncJob {
+  key: string;
+  entity: SyncEntity;
+  entityId: number;
+  operation: SyncOperation;
+  data: unknown;
+  status: 'pending' | 'failed';
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SyncStatus {
+  running: boolean;
+  configured: boolean;
+  pending: number;
+  failed: number;
+  lastError: string | null;
+  lastSuccessAt: string | null;
+  jobs: SyncJob[];
+}
+
+const ACTIONS: Record<SyncEntity, Record<SyncOperation, string>> = {
+  trade: { add: 'addTrade', update: 'updateTrade', delete: 'deleteTrade' },
+  strategy: { add: 'addStrategy', update: 'updateStrategy', delete: 'deleteStrategy' },
+  psychologyEntry: { add: 'addPsychologyEntry', update: 'updatePsychologyEntry', delete: 'deletePsychologyEntry' },
+};
+
+export class SheetSyncQueue {
+  private jobs: Map<string, SyncJob>;
+  private outboxPath: string;
+  private client: GoogleSheetsClient;
+  private getScriptUrl: (() => Promise<string | null | undefined>) | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private draining = false;
+  private configured = false;
+  private lastError: string | null = null;
+  private lastSuccessAt: string | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  private readonly pollInterval = 5000;
+  private readonly baseDelay = 5000; // First retry after 5s, doubling each time
+  private readonly maxDelay = 30 * 60 * 1000;
+  private readonly maxAttempts = 10;
+
+  constructor(outboxPath = path.join(process.cwd(), 'data', 'sync-outbox.json')) {
+    this.outboxPath = outboxPath;
+    this.client = new GoogleSheetsClient();
+    this.jobs = new Map();
+    this.load();
+  }
+
+  private load() {
+    if (!existsSync(this.outboxPath)) return;
+
+    try {
+      const jobs: SyncJob[] = JSON.parse(readFileSync(this.outboxPath, 'utf-8'));
+      jobs.forEach(job => this.jobs.set(job.key, job));
+      console.log(`Sync outbox loaded: ${this.jobs.size} pending operations`);
+    } catch (error) {
+      console.warn('Failed to load sync outbox, starting empty:', error);
+    }
+  }
+
+  private async save() {
+    const contents = JSON.stringify(Array.from(this.jobs.values()), null, 2);
+    const write = this.pendingWrite.then(async () => {
+      await fs.mkdir(path.dirname(this.outboxPath), { recursive: true });
+      await fs.writeFile(this.outboxPath, contents);
+    });
+    this.pendingWrite = write.catch(error => console.warn('Failed to save sync outbox:', error));
+    await this.pendingWrite;
+  }
+
+  /**
+   * Queue a sheet write. Jobs are keyed by entity id, so repeated edits to the
+   * same row collapse into one operation carrying the latest data.
+   */
+  enqueue(entity: SyncEntity, operation: SyncOperation, entityId: number, data?: unknown) {
+    if (process.env.DISABLE_SHEETS_MIRROR) return;
+
+    const key = `${entity}:${entityId}`;
+    const existing = this.jobs.get(key);
+    const now = new Date().toISOString();
+
+    let nextOperation = operation;
+    if (existing) {
+      if (existing.operation === 'add' && operation === 'update') {
+        // The row was never written, so it still needs an add - just with fresh data
+        nextOperation = 'add';
+      } else if (existing.operation === 'add' && operation === 'delete' && existing.attempts === 0) {
+        // Never attempted, so the sheet has never seen this row
+        this.jobs.delete(key);
+        void this.save();
+        return;
+      }
+    }
+
+    this.jobs.set(key, {
+      key,
+      entity,
+      entityId,
+      operation: nextOperation,
+      // Moving to the trash is sent as an update; the backend only deletes rows to purge them
+      data: operation === 'delete' ? { id: entityId, purge: true } : data,
+      status: 'pending',
+      attempts: 0,
+      lastError: null,
+      nextAttemptAt: now,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    });
+    void this.save();
+    this.schedule(0);
+  }
+
+  /**
+   * Start draining in the background. The script URL is read on every pass so
+   * settings changes take effect without a restart.
+   */
+  start(getScriptUrl: () => Promise<string | null | undefined>) {
+    this.getScriptUrl = getScriptUrl;
+    this.schedule(0);
+  }
+
+  stop() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.getScriptUrl = null;
+  }
+
+  // Move failed jobs back to pending and drain immediately
+  retryFailed() {
+    const now = new Date().toISOString();
+    let retried = 0;
+    this.jobs.forEach(job => {
+      if (job.status === 'failed') {
+        job.status = 'pending';
+        job.attempts = 0;
+        job.nextAttemptAt = now;
+        retried++;
+      }
+    });
+    if (retried > 0) {
+      void this.save();
+      this.schedule(0);
+    }
+    return retried;
+  }
+
+  // True while a local change to this row is still waiting to reach the sheet
+  hasJob(entity: SyncEntity, entityId: number) {
+    return this.jobs.has(`${entity}:${entityId}`);
+  }
+
+  getStatus(): SyncStatus {
+    const jobs = Array.from(this.jobs.values()).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    return {
+      running: this.getScriptUrl !== null,
+      configured: this.configured,
+      pending: jobs.filter(job => job.status === 'pending').length,
+      failed: jobs.filter(job => job.status === 'failed').length,
+      lastError: this.lastError,
+      lastSuccessAt: this.lastSuccessAt,
+      jobs,
+    };
+  }
+
+  private schedule(delay: number) {
+    if (!this.getScriptUrl) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.drain(), delay);
+  }
+
+  private async drain() {
+    if (this.draining || !this.getScriptUrl) return;
+    this.draining = true;
+
+    try {
+      const scriptUrl = await this.getScriptUrl();
+      this.configured = !!scriptUrl;
+      if (!scriptUrl) return;
+      this.client.setScriptUrl(scriptUrl);
+
+      const now = Date.now();
+      const due = Array.from(this.jobs.values())
+        .filter(job => job.status === 'pending' && new Date(job.nextAttemptAt).getTime() <= now)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+      for (const job of due) {
+        await this.processJob(job);
+      }
+    } finally {
+      this.draining = false;
+      this.schedule(this.pollInterval);
+    }
+  }
+
+  private async processJob(job: SyncJob) {
+    try {
+      await this.send(job);
+
+      // Only clear the job if it wasn't replaced by a newer edit while in flight
+      if (this.jobs.get(job.key) === job) {
+        this.jobs.delete(job.key);
+      }
+      this.lastSuccessAt = new Date().toISOString();
+    } catch (error) {
+      const current = this.jobs.get(job.key);
+      if (current !== job) return;
+
+      current.attempts++;
+      current.lastError = error instanceof Error ? error.message : String(error);
+      this.lastError = `${job.entity} #${job.entityId}: ${current.lastError}`;
+
+      if (current.attempts >= this.maxAttempts) {
+        current.status = 'failed';
+        console.warn(`Sheet sync gave up on ${job.key} after ${current.attempts} attempts:`, current.lastError);
+      } else {
+        const delay = Math.min(this.baseDelay * Math.pow(2, current.attempts - 1), this.maxDelay);
+        current.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+        console.warn(`Sheet sync failed for ${job.key}, retrying in ${Math.round(delay / 1000)}s:`, current.lastError);
+      }
+    }
+
+    await this.save();
+  }
+
+  private async send(job: SyncJob) {
+    const action = ACTIONS[job.entity][job.operation];
+
+    try {
+      await this.client.performAction(action, job.data);
+    } catch (error) {
+      // The row may have been removed from the sheet by hand - recreate it
+      if (job.operation === 'update' && error instanceof Error && /not found/i.test(error.message)) {
+        await this.client.performAction(ACTIONS[job.entity].add, job.data);
+        return;
+      }
+      // Deleting a row that's already gone is a success
+      if (job.operation === 'delete' && error instanceof Error && /not found/i.test(error.message)) {
+        return;
+      }
+      throw error;
+    }
+  }
+}
+
+export const sheetSyncQueue = new SheetSyncQueue(process.env.SYNC_OUTBOX_PATH);
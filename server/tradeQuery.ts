@@ -0,0 +1,99 @@
+import type { Trade, TradePage, TradeQuery } from "@shared/schema";
+import { getTradeStatus } from "@shared/lifecycle";
+import { getTradePnL } from "@shared/pnl";
+import { hasTag, matchesCustomField } from "@shared/custom-fields";
+
+type SortValue = string | number;
+
+function sortValue(trade: Trade, { sort, pnlMode }: TradeQuery): SortValue {
+  switch (sort) {
+    case "stockName":
+      return trade.stockName.toUpperCase();
+    case "quantity":
+      return trade.quantity;
+    case "profitLoss":
+      return getTradePnL(trade, pnlMode);
+    case "createdAt":
+      return new Date(trade.createdAt).getTime();
+    default:
+      return trade.tradeDate;
+  }
+}
+
+// Ties on the sort field fall back to the ID so every position in the order is unique
+function compareKeys(a: [SortValue, number], b: [SortValue, number]): number {
+  if (a[0] < b[0]) return -1;
+  if (a[0] > b[0]) return 1;
+  return a[1] - b[1];
+}
+
+/**
+ * Cursors are the sort value and ID of the last trade on the previous page, so
+ * pages stay stable when trades are added or removed elsewhere in the list.
+ */
+export function encodeCursor(value: SortValue, id: number): string {
+  return Buffer.from(JSON.stringify([value, id])).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): [SortValue, number] | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (
+      Array.isArray(decoded) && decoded.length === 2 &&
+      (typeof decoded[0] === "string" || typeof decoded[0] === "number") &&
+      typeof decoded[1] === "number"
+    ) {
+      return [decoded[0], decoded[1]];
+    }
+  } catch {
+    // Fall through to null
+  }
+  return null;
+}
+
+function matches(trade: Trade, query: TradeQuery): boolean {
+  if (query.from && trade.tradeDate < query.from) return false;
+  if (query.to && trade.tradeDate > query.to) return false;
+  if (query.symbol && trade.stockName.toUpperCase() !== query.symbol.toUpperCase()) return false;
+  if (query.strategy && trade.whichSetup !== query.strategy) return false;
+  if (query.emotion && trade.emotion !== query.emotion) return false;
+  if (query.status && getTradeStatus(trade) !== query.status) return false;
+  if (query.setupFollowed !== undefined && trade.setupFollowed !== query.setupFollowed) return false;
+  if (query.accountId !== undefined && trade.accountId !== query.accountId) return false;
+  if (query.tag && !hasTag(trade, query.tag)) return false;
+  if (query.field && query.fieldValue !== undefined && !matchesCustomField(trade.customFields, query.field, query.fieldValue)) return false;
+
+  if (query.outcome) {
+    if (getTradeStatus(trade) !== "closed") return false;
+    const pnl = getTradePnL(trade, query.pnlMode);
+    if (query.outcome === "profit" ? pnl <= 0 : pnl >= 0) return false;
+  }
+
+  if (query.q) {
+    const needle = query.q.toLowerCase();
+    const haystack = [trade.stockName, trade.whichSetup, trade.notes, ...(trade.tags ?? [])].filter(Boolean).join(" ").toLowerCase();
+    if (!haystack.includes(needle)) return false;
+  }
+
+  return true;
+}
+
+export function queryTrades(trades: Trade[], query: TradeQuery): TradePage {
+  const direction = query.order === "asc" ? 1 : -1;
+  const keyed = trades
+    .filter(trade => matches(trade, query))
+    .map(trade => ({ trade, key: [sortValue(trade, query), trade.id] as [SortValue, number] }))
+    .sort((a, b) => compareKeys(a.key, b.key) * direction);
+
+  const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+  const start = cursor ? keyed.findIndex(item => compareKeys(item.key, cursor) * direction > 0) : 0;
+  const page = start < 0 ? [] : keyed.slice(start, start + query.limit);
+  const last = page[page.length - 1];
+  const hasMore = start >= 0 && start + query.limit < keyed.length;
+
+  return {
+    trades: page.map(item => item.trade),
+    nextCursor: hasMore && last ? encodeCursor(last.key[0], last.key[1]) : null,
+    total: keyed.length,
+  };
+}
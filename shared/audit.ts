@@ -0,0 +1,38 @@
+// Field-level diffs for the audit log, shared by the server (which records them)
+// and the client (which labels them in the history timeline)
+
+import type { AuditChange } from "./schema";
+
+// Bookkeeping that changes on every write, or never changes, isn't worth showing
+const IGNORED_FIELDS = new Set(["id", "createdAt", "updatedAt", "userId"]);
+
+// Missing and null mean the same thing to a reader; dates compare by instant
+function normalize(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  return value;
+}
+
+export function diffRecords(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null,
+): AuditChange[] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  const changes: AuditChange[] = [];
+
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.has(field)) return;
+    const previous = normalize(before?.[field]);
+    const next = normalize(after?.[field]);
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes.push({ field, before: previous, after: next });
+    }
+  });
+
+  return changes;
+}
+
+// The values an edit replaced, ready to write back to undo just that edit
+export function getRevertPatch(changes: AuditChange[]): Record<string, unknown> {
+  return Object.fromEntries(changes.map(change => [change.field, change.before]));
+}
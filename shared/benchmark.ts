@@ -0,0 +1,180 @@
+// Benchmark comparison: daily index closes imported from CSV (NSE's historical
+// index data export works as is), measured against the journal's closed trades
+
+import type { BenchmarkClose, Trade } from "./schema";
+import { getTradeStatus } from "./lifecycle";
+import { getTradePnL, type PnLMode } from "./pnl";
+import { parseCsv, parseTradebookDate } from "./tradebook";
+
+type BenchmarkTrade = Pick<
+  Trade,
+  "tradeDate" | "status" | "side" | "quantity" | "entryPrice" | "exitPrice" | "fills" | "profitLoss" | "netPnL"
+>;
+
+export interface ParsedBenchmark {
+  closes: BenchmarkClose[];
+  errors: string[];
+}
+
+export interface BenchmarkComparison {
+  days: number; // Benchmark sessions from the first trade to the last
+  trades: number; // Closed trades those sessions cover
+  uncoveredTrades: number; // Closed trades dated outside the imported closes
+  correlation: number | null; // Of daily P&L with the benchmark's daily returns
+  beta: number | null; // Needs account capital to turn P&L into returns
+  portfolioReturn: number | null; // % of account capital
+  benchmarkReturn: number | null; // %
+  excessReturn: number | null; // Percentage points over the benchmark
+}
+
+const DATE_HEADERS = ["date", "trade date", "index date"];
+const CLOSE_HEADERS = ["close", "closing price", "close price", "closing index value", "adj close", "price"];
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s._]+/g, " ");
+
+/**
+ * Daily closes from a CSV with a Date and a Close column, oldest first. Rows
+ * that don't parse are reported and skipped; a repeated date keeps its last row.
+ */
+export function parseBenchmarkCsv(csv: string): ParsedBenchmark {
+  const [headerRow, ...dataRows] = parseCsv(csv);
+  if (!headerRow) throw new Error("The file is empty");
+
+  const headers = headerRow.map(normalizeHeader);
+  const dateIndex = headers.findIndex(header => DATE_HEADERS.includes(header));
+  const closeIndex = CLOSE_HEADERS.map(name => headers.indexOf(name)).find(index => index >= 0) ?? -1;
+  if (dateIndex < 0 || closeIndex < 0) throw new Error("The file needs a Date and a Close column");
+
+  const closes = new Map<string, number>();
+  const errors: string[] = [];
+  dataRows.forEach((cells, row) => {
+    const date = parseTradebookDate(cells[dateIndex] || "");
+    // Index levels are often exported with thousands separators, e.g. "21,731.40"
+    const close = parseFloat((cells[closeIndex] || "").replace(/,/g, ""));
+    if (!date || isNaN(close) || close <= 0) {
+      errors.push(`Row ${row + 2}: couldn't read a date and a close`);
+      return;
+    }
+    closes.set(date, close);
+  });
+
+  return {
+    closes: Array.from(closes.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, close]) => ({ date, close })),
+    errors,
+  };
+}
+
+// Imported closes replace stored ones for the same date, so a corrected file can be re-imported
+export function mergeBenchmarkCloses(existing: BenchmarkClose[], imported: BenchmarkClose[]): BenchmarkClose[] {
+  const closes = new Map(existing.map(({ date, close }) => [date, close]));
+  imported.forEach(({ date, close }) => closes.set(date, close));
+  return Array.from(closes.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, close]) => ({ date, close }));
+}
+
+// Index of the last close on or before the date, -1 when every close is after it
+function findCloseIndex(closes: BenchmarkClose[], date: string): number {
+  let low = 0;
+  let high = closes.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const middle = Math.floor((low + high) / 2);
+    if (closes[middle].date <= date) {
+      found = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found;
+}
+
+/**
+ * The benchmark's % return from the close before `from` (so that day's move
+ * counts) to the close on or before `to`. Falls back to the first close when
+ * the series starts on or after `from`; null when the series doesn't reach `to`.
+ */
+export function getBenchmarkReturn(closes: BenchmarkClose[], from: string, to: string): number | null {
+  const end = findCloseIndex(closes, to);
+  if (end < 0 || to < from || (end === closes.length - 1 && closes[end].date < to)) return null;
+  const start = findCloseIndex(closes, from);
+  const base = start < 0 ? 0 : closes[start].date === from ? Math.max(0, start - 1) : start;
+  return closes[base].date > to ? null : ((closes[end].close - closes[base].close) / closes[base].close) * 100;
+}
+
+function covariance(a: number[], b: number[]): number {
+  const meanA = a.reduce((sum, value) => sum + value, 0) / a.length;
+  const meanB = b.reduce((sum, value) => sum + value, 0) / b.length;
+  return a.reduce((sum, value, index) => sum + (value - meanA) * (b[index] - meanB), 0) / (a.length - 1);
+}
+
+/**
+ * Closed trades against the benchmark over the sessions from the first trade to
+ * the last. Each trade's P&L counts on its trade date, or the next session when
+ * the index was shut that day; days without trades count as flat. Returns are
+ * simple P&L over a fixed capital, so they aren't compounded.
+ */
+export function compareToBenchmark<T extends BenchmarkTrade>(
+  trades: T[],
+  closes: BenchmarkClose[],
+  accountCapital: number,
+  mode: PnLMode,
+): BenchmarkComparison {
+  const closed = trades.filter(trade => getTradeStatus(trade) === "closed");
+  const empty: BenchmarkComparison = {
+    days: 0,
+    trades: 0,
+    uncoveredTrades: closed.length,
+    correlation: null,
+    beta: null,
+    portfolioReturn: null,
+    benchmarkReturn: null,
+    excessReturn: null,
+  };
+  if (closed.length === 0 || closes.length < 2) return empty;
+
+  const dates = closed.map(trade => trade.tradeDate).sort();
+  const from = dates[0];
+  const to = dates[dates.length - 1];
+
+  // Sessions in range that have a previous close to measure their move from
+  const sessions = closes
+    .map((close, index) => ({ ...close, index }))
+    .filter(({ date, index }) => index > 0 && date >= from && (date <= to || closes[index - 1].date < to));
+  if (sessions.length === 0) return empty;
+
+  const pnlBySession = new Map<string, number>();
+  let covered = 0;
+  closed.forEach(trade => {
+    const session = sessions.find(({ date }) => date >= trade.tradeDate);
+    if (!session || trade.tradeDate <= closes[session.index - 1].date) return;
+    covered++;
+    pnlBySession.set(session.date, (pnlBySession.get(session.date) ?? 0) + getTradePnL(trade, mode));
+  });
+
+  const benchmarkReturns = sessions.map(({ close, index }) => (close - closes[index - 1].close) / closes[index - 1].close);
+  const dailyPnL = sessions.map(({ date }) => pnlBySession.get(date) ?? 0);
+  const totalPnL = dailyPnL.reduce((sum, pnl) => sum + pnl, 0);
+
+  const benchmarkVariance = sessions.length > 1 ? covariance(benchmarkReturns, benchmarkReturns) : 0;
+  const pnlVariance = sessions.length > 1 ? covariance(dailyPnL, dailyPnL) : 0;
+  const pnlCovariance = sessions.length > 1 ? covariance(dailyPnL, benchmarkReturns) : 0;
+
+  const lastSession = sessions[sessions.length - 1];
+  const benchmarkReturn = ((lastSession.close - closes[sessions[0].index - 1].close) / closes[sessions[0].index - 1].close) * 100;
+  const portfolioReturn = accountCapital > 0 ? (totalPnL / accountCapital) * 100 : null;
+
+  return {
+    days: sessions.length,
+    trades: covered,
+    uncoveredTrades: closed.length - covered,
+    correlation: benchmarkVariance > 0 && pnlVariance > 0 ? pnlCovariance / Math.sqrt(benchmarkVariance * pnlVariance) : null,
+    beta: accountCapital > 0 && benchmarkVariance > 0 ? pnlCovariance / accountCapital / benchmarkVariance : null,
+    portfolioReturn,
+    benchmarkReturn,
+    excessReturn: portfolioReturn !== null ? portfolioReturn - benchmarkReturn : null,
+  };
+}
@@ -0,0 +1,141 @@
+// Brokerage and statutory charges for Indian intraday equity trades
+
+import { chargesConfigSchema, type ChargesConfig, type Fill } from "./schema";
+import { computePnL, getTradeSide } from "./pnl";
+import { summarizeFills } from "./fills";
+
+export interface ChargesBreakdown {
+  brokerage: number;
+  stt: number;
+  exchange: number;
+  sebi: number;
+  stampDuty: number;
+  gst: number;
+  total: number;
+}
+
+export const DEFAULT_CHARGES_CONFIG: ChargesConfig = chargesConfigSchema.parse({});
+
+export const BROKER_PRESETS: Record<"discount" | "percentage", { label: string; description: string; config: Partial<ChargesConfig> }> = {
+  discount: {
+    label: "Discount broker",
+    description: "₹20 or 0.03% per executed order, whichever is lower",
+    config: { brokerageType: "flat", brokerageFlat: 20, brokeragePercent: 0.03 },
+  },
+  percentage: {
+    label: "Percentage broker",
+    description: "0.05% of order value per executed order",
+    config: { brokerageType: "percentage", brokerageFlat: 0, brokeragePercent: 0.05 },
+  },
+};
+
+export function applyBrokerPreset(preset: ChargesConfig["preset"], current: ChargesConfig = DEFAULT_CHARGES_CONFIG): ChargesConfig {
+  if (preset === "custom") return { ...current, preset };
+  return { ...current, ...BROKER_PRESETS[preset].config, preset };
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function brokerageFor(orderValue: number, config: ChargesConfig): number {
+  if (orderValue <= 0) return 0;
+  const percentFee = (orderValue * config.brokeragePercent) / 100;
+  if (config.brokerageType === "percentage") return percentFee;
+  // Flat-fee brokers charge the lower of the flat fee and the percentage
+  return config.brokeragePercent > 0 ? Math.min(config.brokerageFlat, percentFee) : config.brokerageFlat;
+}
+
+// One executed order; brokerage is charged per order
+interface Order {
+  value: number;
+  isBuy: boolean;
+}
+
+function chargesForOrders(orders: Order[], config: ChargesConfig): ChargesBreakdown {
+  const buyValue = orders.filter(order => order.isBuy).reduce((sum, order) => sum + order.value, 0);
+  const sellValue = orders.filter(order => !order.isBuy).reduce((sum, order) => sum + order.value, 0);
+  const turnover = buyValue + sellValue;
+
+  const brokerage = round2(orders.reduce((sum, order) => sum + brokerageFor(order.value, config), 0));
+  const stt = round2((sellValue * config.sttPercent) / 100);
+  const exchange = round2((turnover * config.exchangePercent) / 100);
+  const sebi = round2((turnover * config.sebiPerCrore) / 10000000);
+  const stampDuty = round2((buyValue * config.stampDutyPercent) / 100);
+  const gst = round2(((brokerage + exchange + sebi) * config.gstPercent) / 100);
+
+  return {
+    brokerage,
+    stt,
+    exchange,
+    sebi,
+    stampDuty,
+    gst,
+    total: round2(brokerage + stt + exchange + sebi + stampDuty + gst),
+  };
+}
+
+/**
+ * Charges for the executed legs of a trade. A trade without an exit price only
+ * pays for its entry order.
+ */
+export function calculateCharges(
+  trade: { side?: string | null; entryPrice: number; exitPrice?: number | null; quantity: number },
+  config: ChargesConfig = DEFAULT_CHARGES_CONFIG,
+): ChargesBreakdown {
+  // Longs buy on entry and sell on exit; shorts do the reverse
+  const isShort = getTradeSide(trade.side) === "short";
+  const orders: Order[] = [{ value: trade.entryPrice * trade.quantity, isBuy: !isShort }];
+  if (trade.exitPrice) {
+    orders.push({ value: trade.exitPrice * trade.quantity, isBuy: isShort });
+  }
+  return chargesForOrders(orders, config);
+}
+
+// Every fill is its own order, so scaling out in pieces pays brokerage per piece
+export function calculateFillCharges(
+  fills: Fill[],
+  side?: string | null,
+  config: ChargesConfig = DEFAULT_CHARGES_CONFIG,
+): ChargesBreakdown {
+  const isShort = getTradeSide(side) === "short";
+  const orders = fills.map(fill => ({
+    value: parseFloat(fill.price) * fill.quantity,
+    isBuy: fill.type === "entry" ? !isShort : isShort,
+  }));
+  return chargesForOrders(orders, config);
+}
+
+/**
+ * Total charges and net P&L in the string form trades store them in. Net P&L is
+ * null until the trade has an exit.
+ */
+export function calculateTradeCharges(
+  trade: { side?: string | null; entryPrice: string; exitPrice?: string | null; quantity: number; profitLoss?: string | null; fills?: Fill[] | null },
+  config: ChargesConfig = DEFAULT_CHARGES_CONFIG,
+): { charges: string | null; netPnL: string | null } {
+  if (trade.fills && trade.fills.length > 0) {
+    const summary = summarizeFills(trade.fills, trade.side);
+    const { total } = calculateFillCharges(trade.fills, trade.side, config);
+    // Net covers what's been realized so far, after everything paid to get there
+    return {
+      charges: total.toFixed(2),
+      netPnL: summary.exitQuantity > 0 ? (summary.realizedPnL - total).toFixed(2) : null,
+    };
+  }
+
+  const entryPrice = parseFloat(trade.entryPrice);
+  const exitPrice = trade.exitPrice ? parseFloat(trade.exitPrice) : NaN;
+  if (isNaN(entryPrice) || entryPrice <= 0 || !trade.quantity) {
+    return { charges: null, netPnL: null };
+  }
+
+  const hasExit = !isNaN(exitPrice) && exitPrice > 0;
+  const { total } = calculateCharges(
+    { side: trade.side, entryPrice, exitPrice: hasExit ? exitPrice : null, quantity: trade.quantity },
+    config,
+  );
+  if (!hasExit) return { charges: total.toFixed(2), netPnL: null };
+
+  const storedGross = trade.profitLoss ? parseFloat(trade.profitLoss) : NaN;
+  const gross = isNaN(storedGross) ? computePnL(trade.side, entryPrice, exitPrice, trade.quantity) : storedGross;
+  return { charges: total.toFixed(2), netPnL: (gross - total).toFixed(2) };
+}
@@ -0,0 +1,127 @@
+// Strategy rule compliance: how much of a strategy's checklist each trade followed,
+// and what following (or breaking) the rules was worth
+
+import type { RuleCheck, StrategyRule, StrategyRulePhase, Trade } from "./schema";
+import { getTradeStatus } from "./lifecycle";
+import { getTradePnL, type PnLMode } from "./pnl";
+
+export type ComplianceLevel = "full" | "partial" | "low";
+
+export const COMPLIANCE_LEVELS: { level: ComplianceLevel; label: string; min: number }[] = [
+  { level: "full", label: "All rules followed", min: 100 },
+  { level: "partial", label: "Mostly followed (50–99%)", min: 50 },
+  { level: "low", label: "Mostly broken (under 50%)", min: 0 },
+];
+
+export const RULE_PHASE_LABELS: Record<StrategyRulePhase, string> = {
+  entry: "Entry",
+  management: "Management",
+  exit: "Exit",
+};
+
+type ComplianceTrade = Pick<
+  Trade,
+  "whichSetup" | "ruleChecks" | "status" | "side" | "quantity" | "entryPrice" | "exitPrice" | "fills" | "profitLoss" | "netPnL"
+>;
+
+export interface ComplianceBucket {
+  level: ComplianceLevel;
+  label: string;
+  trades: number;
+  wins: number;
+  winRate: number;
+  totalPnL: number;
+  avgPnL: number;
+}
+
+export interface BrokenRule {
+  ruleId: string;
+  rule: string;
+  strategy: string | null;
+  broken: number;
+  checked: number; // Trades that answered the rule at all
+  brokenPnL: number; // Combined P&L of the trades that broke it
+}
+
+// Whole percent of checks followed; null when the trade wasn't checked against any rules
+export function getComplianceScore(checks: RuleCheck[] | null | undefined): number | null {
+  if (!checks || checks.length === 0) return null;
+  return Math.round((checks.filter(check => check.followed).length / checks.length) * 100);
+}
+
+export function getComplianceLevel(score: number | null | undefined): ComplianceLevel | null {
+  if (score === null || score === undefined) return null;
+  return COMPLIANCE_LEVELS.find(bucket => score >= bucket.min)!.level;
+}
+
+export function createRuleId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// One check per rule, in checklist order, snapshotting the rule text as it reads today
+export function buildRuleChecks(rules: StrategyRule[], followedIds: string[]): RuleCheck[] {
+  return rules.map(rule => ({ ruleId: rule.id, rule: rule.text, followed: followedIds.includes(rule.id) }));
+}
+
+/**
+ * P&L of closed trades grouped by how closely they followed their strategy's
+ * checklist, in the given gross/net mode. Trades never checked against rules
+ * are left out.
+ */
+export function summarizeByCompliance<T extends ComplianceTrade>(
+  trades: T[],
+  mode: PnLMode,
+): ComplianceBucket[] {
+  const scored = trades.filter(trade => getTradeStatus(trade) === "closed" && getComplianceScore(trade.ruleChecks) !== null);
+
+  return COMPLIANCE_LEVELS.map(({ level, label }) => {
+    const inLevel = scored.filter(trade => getComplianceLevel(getComplianceScore(trade.ruleChecks)) === level);
+    const pnls = inLevel.map(trade => getTradePnL(trade, mode));
+    const totalPnL = pnls.reduce((sum, pnl) => sum + pnl, 0);
+    const wins = pnls.filter(pnl => pnl > 0).length;
+    return {
+      level,
+      label,
+      trades: inLevel.length,
+      wins,
+      winRate: inLevel.length > 0 ? (wins / inLevel.length) * 100 : 0,
+      totalPnL,
+      avgPnL: inLevel.length > 0 ? totalPnL / inLevel.length : 0,
+    };
+  });
+}
+
+// Rules broken most often on trades actually taken, by count then by what breaking them cost
+export function getMostBrokenRules<T extends ComplianceTrade>(
+  trades: T[],
+  mode: PnLMode,
+  limit = 5,
+): BrokenRule[] {
+  const byRule = new Map<string, BrokenRule>();
+  const taken = trades.filter(trade => ["open", "closed"].includes(getTradeStatus(trade)));
+
+  taken.forEach(trade => {
+    (trade.ruleChecks ?? []).forEach(check => {
+      const key = `${trade.whichSetup ?? ""}:${check.ruleId}`;
+      const entry = byRule.get(key) ?? {
+        ruleId: check.ruleId,
+        rule: check.rule,
+        strategy: trade.whichSetup ?? null,
+        broken: 0,
+        checked: 0,
+        brokenPnL: 0,
+      };
+      entry.checked++;
+      if (!check.followed) {
+        entry.broken++;
+        entry.brokenPnL += getTradePnL(trade, mode);
+      }
+      byRule.set(key, entry);
+    });
+  });
+
+  return Array.from(byRule.values())
+    .filter(entry => entry.broken > 0)
+    .sort((a, b) => b.broken - a.broken || a.brokenPnL - b.brokenPnL)
+    .slice(0, limit);
+}
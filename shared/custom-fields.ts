@@ -0,0 +1,175 @@
+// Trade tags and the custom fields configured in Settings: keeping values tidy,
+// checking them against their field definitions and grouping trades by them
+
+import type { CustomField, CustomFieldType, CustomFieldValue, Trade } from "./schema";
+import { getTradeStatus } from "./lifecycle";
+import { getTradePnL, type PnLMode } from "./pnl";
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: "Text",
+  number: "Number",
+  select: "Select",
+  boolean: "Yes / No",
+};
+
+type GroupTrade = Pick<
+  Trade,
+  "tags" | "customFields" | "status" | "side" | "quantity" | "entryPrice" | "exitPrice" | "fills" | "profitLoss" | "netPnL"
+>;
+
+// "tags" groups by tag; anything else is a custom field ID
+export type TradeGrouping = "tags" | string;
+
+export interface GroupStats {
+  label: string;
+  trades: number;
+  wins: number;
+  winRate: number;
+  totalPnL: number;
+  avgPnL: number;
+}
+
+// Trimmed, without blanks, and without repeats that differ only in case; the first spelling wins
+export function normalizeTags(tags: string[] | null | undefined): string[] | null {
+  const seen = new Set<string>();
+  const normalized = (tags ?? [])
+    .map(tag => tag.trim())
+    .filter(tag => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  return normalized.length > 0 ? normalized : null;
+}
+
+// Tags as typed into a form, separated by commas
+export function parseTags(text: string | null | undefined): string[] | null {
+  return normalizeTags((text ?? "").split(","));
+}
+
+export function hasTag(trade: Pick<Trade, "tags">, tag: string): boolean {
+  return (trade.tags ?? []).some(own => own.toLowerCase() === tag.trim().toLowerCase());
+}
+
+// Every tag in use, sorted, for filter and suggestion lists
+export function collectTags(trades: Pick<Trade, "tags">[]): string[] {
+  return normalizeTags(trades.flatMap(trade => trade.tags ?? []))?.sort((a, b) => a.localeCompare(b)) ?? [];
+}
+
+// A readable ID from the label, e.g. "Market condition" -> "market_condition", unique among the fields
+export function createCustomFieldId(label: string, fields: Pick<CustomField, "id">[]): string {
+  const base = label.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "field";
+  let id = base;
+  for (let n = 2; fields.some(field => field.id === id); n++) id = `${base}_${n}`;
+  return id;
+}
+
+// Blank values are dropped, so a cleared input removes the field from the trade
+export function normalizeCustomFieldValues(
+  values: Record<string, CustomFieldValue> | null | undefined,
+): Record<string, CustomFieldValue> | null {
+  const entries = Object.entries(values ?? {})
+    .map(([id, value]) => [id, typeof value === "string" ? value.trim() : value] as const)
+    .filter(([, value]) => value !== "" && value !== null && value !== undefined);
+  return entries.length > 0 ? Object.fromEntries(entries) : null;
+}
+
+/**
+ * Check values against their field definitions. Values the trade already has
+ * pass unchanged, so removing a field or changing its type in Settings doesn't
+ * stop older trades from being edited.
+ */
+export function validateCustomFieldValues(
+  values: Record<string, CustomFieldValue> | null | undefined,
+  fields: CustomField[],
+  current?: Record<string, CustomFieldValue> | null,
+): string | null {
+  for (const [id, value] of Object.entries(values ?? {})) {
+    if (current?.[id] === value || value === "") continue;
+
+    const field = fields.find(field => field.id === id);
+    if (!field) return `Unknown custom field "${id}"`;
+
+    switch (field.type) {
+      case "number":
+        if (typeof value !== "number" || !Number.isFinite(value)) return `${field.label} must be a number`;
+        break;
+      case "boolean":
+        if (typeof value !== "boolean") return `${field.label} must be yes or no`;
+        break;
+      case "select":
+        if (typeof value !== "string" || !(field.options ?? []).includes(value)) {
+          return `${field.label} must be one of: ${(field.options ?? []).join(", ")}`;
+        }
+        break;
+      case "text":
+        if (typeof value !== "string") return `${field.label} must be text`;
+        break;
+    }
+  }
+  return null;
+}
+
+export function formatCustomFieldValue(value: CustomFieldValue | null | undefined): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
+
+// Loose match for the Trade Log filter: "true" matches a ticked yes/no field and text ignores case
+export function matchesCustomField(
+  values: Record<string, CustomFieldValue> | null | undefined,
+  fieldId: string,
+  wanted: string,
+): boolean {
+  const value = values?.[fieldId];
+  if (value === undefined || value === null || value === "") return false;
+  return String(value).toLowerCase() === wanted.trim().toLowerCase();
+}
+
+function groupLabels(trade: GroupTrade, groupBy: TradeGrouping): string[] {
+  if (groupBy === "tags") return trade.tags?.length ? trade.tags : ["Untagged"];
+  const value = trade.customFields?.[groupBy];
+  return [value === undefined || value === null || value === "" ? "Not set" : formatCustomFieldValue(value)];
+}
+
+/**
+ * P&L of closed trades grouped by tag or by one custom field's value, best
+ * group first. A trade with several tags counts towards each of them.
+ */
+export function summarizeByGroup<T extends GroupTrade>(
+  trades: T[],
+  groupBy: TradeGrouping,
+  mode: PnLMode,
+): GroupStats[] {
+  const groups = new Map<string, { label: string; pnls: number[] }>();
+
+  trades
+    .filter(trade => getTradeStatus(trade) === "closed")
+    .forEach(trade => {
+      const pnl = getTradePnL(trade, mode);
+      groupLabels(trade, groupBy).forEach(label => {
+        // Tags differing only in case belong together
+        const key = label.toLowerCase();
+        const group = groups.get(key) ?? { label, pnls: [] };
+        group.pnls.push(pnl);
+        groups.set(key, group);
+      });
+    });
+
+  return Array.from(groups.values())
+    .map(({ label, pnls }) => {
+      const totalPnL = pnls.reduce((sum, pnl) => sum + pnl, 0);
+      const wins = pnls.filter(pnl => pnl > 0).length;
+      return {
+        label,
+        trades: pnls.length,
+        wins,
+        winRate: (wins / pnls.length) * 100,
+        totalPnL,
+        avgPnL: totalPnL / pnls.length,
+      };
+    })
+    .sort((a, b) => b.totalPnL - a.totalPnL);
+}
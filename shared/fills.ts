@@ -0,0 +1,82 @@
+// Position math for trades that scale in and out through multiple fills
+
+import type { Fill } from "./schema";
+import { computePnL } from "./pnl";
+
+export interface FillSummary {
+  entryQuantity: number;
+  exitQuantity: number;
+  openQuantity: number;
+  avgEntryPrice: number | null;
+  avgExitPrice: number | null;
+  realizedPnL: number;
+}
+
+function weightedAverage(fills: Fill[]): number | null {
+  const quantity = fills.reduce((sum, fill) => sum + fill.quantity, 0);
+  if (quantity === 0) return null;
+  return fills.reduce((sum, fill) => sum + parseFloat(fill.price) * fill.quantity, 0) / quantity;
+}
+
+/**
+ * Realized P&L uses the average entry price as the cost basis for every exit,
+ * so it doesn't depend on the order the exits happened in.
+ */
+export function summarizeFills(fills: Fill[], side?: string | null): FillSummary {
+  const entries = fills.filter(fill => fill.type === "entry");
+  const exits = fills.filter(fill => fill.type === "exit");
+
+  const entryQuantity = entries.reduce((sum, fill) => sum + fill.quantity, 0);
+  const exitQuantity = exits.reduce((sum, fill) => sum + fill.quantity, 0);
+  const avgEntryPrice = weightedAverage(entries);
+  const avgExitPrice = weightedAverage(exits);
+
+  const realizedPnL = avgEntryPrice !== null && avgExitPrice !== null
+    ? computePnL(side, avgEntryPrice, avgExitPrice, exitQuantity)
+    : 0;
+
+  return {
+    entryQuantity,
+    exitQuantity,
+    openQuantity: Math.max(entryQuantity - exitQuantity, 0),
+    avgEntryPrice,
+    avgExitPrice,
+    realizedPnL,
+  };
+}
+
+// Exits can't exceed what was entered
+export function validateFills(fills: Fill[]): string | null {
+  const { entryQuantity, exitQuantity } = summarizeFills(fills);
+  if (fills.length > 0 && entryQuantity === 0) return "A trade needs at least one entry fill";
+  if (exitQuantity > entryQuantity) return `Exit quantity (${exitQuantity}) is more than entry quantity (${entryQuantity})`;
+  return null;
+}
+
+/**
+ * Overwrite the flat trade fields with values derived from the fills, so code
+ * that only knows quantity/entryPrice/exitPrice/profitLoss keeps working.
+ */
+export function deriveTradeFromFills<T extends {
+  side?: string | null;
+  quantity: number;
+  entryPrice: string;
+  exitPrice?: string | null;
+  profitLoss?: string | null;
+  fills?: Fill[] | null;
+}>(trade: T): T {
+  if (!trade.fills || trade.fills.length === 0) return trade;
+
+  const summary = summarizeFills(trade.fills, trade.side);
+  return {
+    ...trade,
+    quantity: summary.entryQuantity,
+    entryPrice: summary.avgEntryPrice !== null ? summary.avgEntryPrice.toFixed(2) : trade.entryPrice,
+    exitPrice: summary.avgExitPrice !== null ? summary.avgExitPrice.toFixed(2) : null,
+    profitLoss: summary.realizedPnL.toFixed(2),
+  };
+}
+
+export function createFillId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
@@ -0,0 +1,88 @@
+// Daily guardrails against revenge trading: a loss limit, a trade count and a losing streak per day
+
+import { dailyRulesConfigSchema, type DailyRule, type DailyRulesConfig, type Trade } from "./schema";
+import { getTradeStatus } from "./lifecycle";
+
+export const DEFAULT_DAILY_RULES_CONFIG: DailyRulesConfig = dailyRulesConfigSchema.parse({});
+
+export const DAILY_RULE_LABELS: Record<DailyRule, string> = {
+  dailyLoss: "Daily loss limit",
+  tradesPerDay: "Max trades per day",
+  consecutiveLosses: "Max consecutive losses",
+};
+
+// Only the fields the rules read, so the client can pass trades parsed from JSON
+type GuardrailTrade = Pick<
+  Trade,
+  "id" | "tradeDate" | "status" | "side" | "quantity" | "entryPrice" | "exitPrice" | "fills" | "profitLoss" | "netPnL"
+> & { createdAt: Date | string };
+
+export interface DailyRuleStatus {
+  rule: DailyRule;
+  limit: number;
+  current: number;
+  breached: boolean;
+}
+
+export interface DailyRulesStatus {
+  date: string;
+  tradesTaken: number;
+  netPnL: number;
+  consecutiveLosses: number;
+  rules: DailyRuleStatus[]; // Enabled rules only
+  breaches: DailyRule[];
+}
+
+const realizedPnL = (trade: GuardrailTrade) => {
+  const pnl = parseFloat(trade.netPnL || trade.profitLoss || "0");
+  return isNaN(pnl) ? 0 : pnl;
+};
+
+/**
+ * Where the day stands against each enabled rule. A rule counts as breached once
+ * its limit is reached, so any trade taken after that point is outside the rules.
+ * Planned and cancelled trades never reached the market and don't count.
+ */
+export function evaluateDailyRules(trades: GuardrailTrade[], date: string, config: DailyRulesConfig): DailyRulesStatus {
+  const taken = trades
+    .filter(trade => trade.tradeDate === date)
+    .filter(trade => ["open", "closed"].includes(getTradeStatus(trade)))
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() || a.id - b.id);
+  const closed = taken.filter(trade => getTradeStatus(trade) === "closed");
+
+  const netPnL = Math.round(closed.reduce((sum, trade) => sum + realizedPnL(trade), 0) * 100) / 100;
+  let consecutiveLosses = 0;
+  closed.forEach(trade => {
+    consecutiveLosses = realizedPnL(trade) < 0 ? consecutiveLosses + 1 : 0;
+  });
+
+  const rules: DailyRuleStatus[] = [];
+  if (config.maxDailyLoss > 0) {
+    const loss = Math.max(0, -netPnL);
+    rules.push({ rule: "dailyLoss", limit: config.maxDailyLoss, current: loss, breached: loss >= config.maxDailyLoss });
+  }
+  if (config.maxTradesPerDay > 0) {
+    rules.push({ rule: "tradesPerDay", limit: config.maxTradesPerDay, current: taken.length, breached: taken.length >= config.maxTradesPerDay });
+  }
+  if (config.maxConsecutiveLosses > 0) {
+    rules.push({
+      rule: "consecutiveLosses",
+      limit: config.maxConsecutiveLosses,
+      current: consecutiveLosses,
+      breached: consecutiveLosses >= config.maxConsecutiveLosses,
+    });
+  }
+
+  return {
+    date,
+    tradesTaken: taken.length,
+    netPnL,
+    consecutiveLosses,
+    rules,
+    breaches: rules.filter(status => status.breached).map(status => status.rule),
+  };
+}
+
+export function isOutsideRules(trade: { ruleBreaches?: DailyRule[] | null }): boolean {
+  return !!trade.ruleBreaches && trade.ruleBreaches.length > 0;
+}
@@ -0,0 +1,104 @@
+// Weekday heatmaps: closed trades bucketed by the weekday they were taken on
+// against either the IST hour they were entered in or the calendar month
+
+import type { Trade } from "./schema";
+import { getTradeStatus } from "./lifecycle";
+import { getTradePnL, type PnLMode } from "./pnl";
+import { toISTDateTime } from "./timing";
+
+export type HeatmapColumns = "hour" | "month";
+
+type HeatmapTrade = Pick<
+  Trade,
+  "tradeDate" | "entryTime" | "exitTime" | "status" | "side" | "quantity" | "entryPrice" | "exitPrice" | "fills" | "profitLoss" | "netPnL"
+>;
+
+export interface HeatmapCell {
+  trades: number;
+  wins: number;
+  winRate: number;
+  totalPnL: number;
+}
+
+export interface Heatmap {
+  rows: string[]; // Weekdays, Monday first
+  columns: string[]; // "09:00" hours or "Jan 2024" months, earliest first
+  cells: (HeatmapCell | null)[][]; // cells[row][column]; null where nothing was traded
+}
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// 0 for Monday through 6 for Sunday, from a "YYYY-MM-DD" date
+function getWeekday(date: string): number | null {
+  const day = new Date(`${date.slice(0, 10)}T00:00:00Z`).getUTCDay();
+  return isNaN(day) ? null : (day + 6) % 7;
+}
+
+// Hour columns use the IST entry time, so its date rather than tradeDate picks the weekday
+function getPosition(trade: HeatmapTrade, columns: HeatmapColumns): { weekday: number; column: number } | null {
+  if (columns === "hour") {
+    const entry = toISTDateTime(trade.entryTime);
+    const weekday = entry ? getWeekday(entry) : null;
+    return entry && weekday !== null ? { weekday, column: Number(entry.slice(11, 13)) } : null;
+  }
+
+  const weekday = getWeekday(trade.tradeDate);
+  const [year, month] = trade.tradeDate.split("-").map(Number);
+  return weekday !== null && year && month ? { weekday, column: year * 12 + month - 1 } : null;
+}
+
+/**
+ * Closed trades as a weekday × hour or weekday × month grid. Saturday and
+ * Sunday only get a row when something was traded on them, and hour or month
+ * columns run from the first to the last one traded with no gaps.
+ */
+export function buildHeatmap<T extends HeatmapTrade>(
+  trades: T[],
+  columns: HeatmapColumns,
+  mode: PnLMode,
+): Heatmap {
+  const pnls = new Map<string, number[]>();
+  const weekdays = new Set<number>();
+  let first = Infinity;
+  let last = -Infinity;
+
+  trades
+    .filter(trade => getTradeStatus(trade) === "closed")
+    .forEach(trade => {
+      const position = getPosition(trade, columns);
+      if (!position) return;
+      const key = `${position.weekday}:${position.column}`;
+      pnls.set(key, [...(pnls.get(key) ?? []), getTradePnL(trade, mode)]);
+      weekdays.add(position.weekday);
+      first = Math.min(first, position.column);
+      last = Math.max(last, position.column);
+    });
+
+  if (pnls.size === 0) return { rows: [], columns: [], cells: [] };
+
+  const rowIndexes = [0, 1, 2, 3, 4, 5, 6].filter(weekday => weekday < 5 || weekdays.has(weekday));
+  const columnIndexes = Array.from({ length: last - first + 1 }, (_, index) => first + index);
+
+  return {
+    rows: rowIndexes.map(weekday => WEEKDAYS[weekday]),
+    columns: columnIndexes.map(column =>
+      columns === "hour"
+        ? `${String(column).padStart(2, "0")}:00`
+        : `${MONTHS[column % 12]} ${Math.floor(column / 12)}`,
+    ),
+    cells: rowIndexes.map(weekday =>
+      columnIndexes.map(column => {
+        const cellPnLs = pnls.get(`${weekday}:${column}`);
+        if (!cellPnLs) return null;
+        const wins = cellPnLs.filter(pnl => pnl > 0).length;
+        return {
+          trades: cellPnLs.length,
+          wins,
+          winRate: (wins / cellPnLs.length) * 100,
+          totalPnL: cellPnLs.reduce((sum, pnl) => sum + pnl, 0),
+        };
+      }),
+    ),
+  };
+}
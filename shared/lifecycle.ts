@@ -0,0 +1,96 @@
+// Trade status lifecycle: planned -> open -> closed, with cancelled as the way out of a plan
+
+import type { Fill, TradeStatus } from "./schema";
+import { sideMultiplier } from "./pnl";
+import { summarizeFills } from "./fills";
+
+export const TRADE_STATUS_LABELS: Record<TradeStatus, string> = {
+  planned: "Planned",
+  open: "Open",
+  closed: "Closed",
+  cancelled: "Cancelled",
+};
+
+// Closed trades can be reopened to correct an exit; cancelled plans can be revived
+export const STATUS_TRANSITIONS: Record<TradeStatus, TradeStatus[]> = {
+  planned: ["open", "cancelled"],
+  open: ["closed"],
+  closed: ["open"],
+  cancelled: ["planned"],
+};
+
+interface LifecycleTrade {
+  status?: TradeStatus | null;
+  side?: string | null;
+  quantity: number;
+  entryPrice: string;
+  exitPrice?: string | null;
+  stopLoss?: string | null;
+  fills?: Fill[] | null;
+}
+
+// Forms send "0" for an empty exit price
+function hasExitPrice(trade: LifecycleTrade): boolean {
+  return !!trade.exitPrice && parseFloat(trade.exitPrice) > 0;
+}
+
+function hasFullExit(trade: LifecycleTrade): boolean {
+  if (trade.fills && trade.fills.length > 0) {
+    const summary = summarizeFills(trade.fills, trade.side);
+    return summary.exitQuantity > 0 && summary.openQuantity === 0;
+  }
+  return hasExitPrice(trade);
+}
+
+// Trades saved before statuses existed are closed if they have an exit, open otherwise
+export function getTradeStatus(trade: LifecycleTrade): TradeStatus {
+  if (trade.status) return trade.status;
+  return hasFullExit(trade) ? "closed" : "open";
+}
+
+export function isClosedTrade(trade: LifecycleTrade): boolean {
+  return getTradeStatus(trade) === "closed";
+}
+
+export function canTransition(from: TradeStatus, to: TradeStatus): boolean {
+  return from === to || STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function validateStatusTransition(from: TradeStatus, to: TradeStatus): string | null {
+  if (canTransition(from, to)) return null;
+  return `A ${TRADE_STATUS_LABELS[from].toLowerCase()} trade can't be moved to ${TRADE_STATUS_LABELS[to].toLowerCase()}`;
+}
+
+// The status has to agree with the prices and fills it's recorded with
+export function validateTradeStatus(trade: LifecycleTrade): string | null {
+  const status = getTradeStatus(trade);
+  if (status === "closed" && !hasFullExit(trade)) {
+    return "A closed trade needs an exit price covering the full quantity";
+  }
+  if ((status === "planned" || status === "cancelled") && (hasExitPrice(trade) || trade.fills?.some(fill => fill.type === "exit"))) {
+    return `A ${status} trade can't have an exit`;
+  }
+  return null;
+}
+
+export interface OpenExposure {
+  openQuantity: number;
+  positionValue: number;
+  // Loss if the stop is hit now; null when there's no stop loss
+  riskToStop: number | null;
+}
+
+export function getOpenExposure(trade: LifecycleTrade): OpenExposure {
+  const summary = trade.fills && trade.fills.length > 0 ? summarizeFills(trade.fills, trade.side) : null;
+  const openQuantity = summary ? summary.openQuantity : trade.quantity;
+  const entryPrice = summary?.avgEntryPrice ?? parseFloat(trade.entryPrice);
+  const stopLoss = trade.stopLoss ? parseFloat(trade.stopLoss) : NaN;
+
+  return {
+    openQuantity,
+    positionValue: isNaN(entryPrice) ? 0 : entryPrice * openQuantity,
+    riskToStop: isNaN(stopLoss) || isNaN(entryPrice)
+      ? null
+      : (entryPrice - stopLoss) * openQuantity * sideMultiplier(trade.side),
+  };
+}
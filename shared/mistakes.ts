@@ -0,0 +1,46 @@
+// Mistake categories: the managed list of recurring errors a trade can be tagged
+// with, so their frequency and cost can be counted instead of buried in notes
+
+import type { MistakeCategory, Settings } from "./schema";
+import { createCustomFieldId } from "./custom-fields";
+
+export const DEFAULT_MISTAKE_CATEGORIES: MistakeCategory[] = [
+  { id: "early_exit", label: "Early exit" },
+  { id: "moved_stop", label: "Moved stop" },
+  { id: "chased_entry", label: "Chased entry" },
+  { id: "oversized", label: "Oversized" },
+  { id: "no_setup", label: "No setup" },
+];
+
+export function getMistakeCategories(settings: Pick<Settings, "mistakeCategories"> | null | undefined): MistakeCategory[] {
+  return settings?.mistakeCategories ?? DEFAULT_MISTAKE_CATEGORIES;
+}
+
+// Readable and unique, the same way custom field IDs are made
+export function createMistakeId(label: string, categories: Pick<MistakeCategory, "id">[]): string {
+  return createCustomFieldId(label, categories);
+}
+
+// Without blanks or repeats; null when nothing is left
+export function normalizeMistakes(mistakes: string[] | null | undefined): string[] | null {
+  const normalized = Array.from(new Set((mistakes ?? []).map(id => id.trim()).filter(Boolean)));
+  return normalized.length > 0 ? normalized : null;
+}
+
+/**
+ * Every mistake must be a category from Settings. Ones the trade already has
+ * pass, so removing a category doesn't stop older trades from being edited.
+ */
+export function validateMistakes(
+  mistakes: string[] | null | undefined,
+  categories: MistakeCategory[],
+  current?: string[] | null,
+): string | null {
+  const unknown = normalizeMistakes(mistakes)?.find(id => !current?.includes(id) && !categories.some(category => category.id === id));
+  return unknown ? `Unknown mistake "${unknown}"` : null;
+}
+
+// Categories since removed from Settings are shown by their ID
+export function getMistakeLabel(categories: MistakeCategory[], id: string): string {
+  return categories.find(category => category.id === id)?.label ?? id;
+}
@@ -0,0 +1,54 @@
+// Direction-aware P&L shared by the server and the client
+
+import type { Trade } from "./schema";
+
+export type TradeSide = "long" | "short";
+export type PnLMode = "gross" | "net"; // Follows the gross/net toggle in the header
+
+// Trades saved before shorts were supported have no side; treat them as long
+export function getTradeSide(side: string | null | undefined): TradeSide {
+  return side === "short" ? "short" : "long";
+}
+
+// +1 when profit comes from the price rising, -1 when it comes from it falling
+export function sideMultiplier(side: string | null | undefined): number {
+  return getTradeSide(side) === "short" ? -1 : 1;
+}
+
+export function computePnL(
+  side: string | null | undefined,
+  entryPrice: number,
+  exitPrice: number,
+  quantity: number,
+): number {
+  return (exitPrice - entryPrice) * quantity * sideMultiplier(side);
+}
+
+export function computeReturnPercent(side: string | null | undefined, entryPrice: number, exitPrice: number): number {
+  if (!entryPrice) return 0;
+  return ((exitPrice - entryPrice) / entryPrice) * 100 * sideMultiplier(side);
+}
+
+// Gross P&L from the stored field, falling back to the prices; net subtracts charges
+export function getTradePnL(
+  trade: Pick<Trade, "side" | "quantity" | "entryPrice" | "exitPrice" | "profitLoss" | "netPnL">,
+  mode: PnLMode = "gross",
+): number {
+  if (mode === "net" && trade.netPnL) {
+    const net = parseFloat(trade.netPnL);
+    if (!isNaN(net)) return net;
+  }
+
+  if (trade.profitLoss) {
+    const gross = parseFloat(trade.profitLoss);
+    if (!isNaN(gross)) return gross;
+  }
+
+  const entryPrice = parseFloat(trade.entryPrice || "0");
+  const exitPrice = parseFloat(trade.exitPrice || "0");
+  if (entryPrice && exitPrice && trade.quantity) {
+    return computePnL(trade.side, entryPrice, exitPrice, trade.quantity);
+  }
+
+  return 0;
+}
@@ -0,0 +1,115 @@
+// Risk measured from the stop loss: initial risk, R-multiples and planned reward:risk
+
+import { riskConfigSchema, type RiskConfig } from "./schema";
+import { sideMultiplier } from "./pnl";
+
+interface RiskTrade {
+  side?: string | null;
+  quantity: number;
+  entryPrice: string;
+  stopLoss?: string | null;
+  targetPrice?: string | null;
+  profitLoss?: string | null;
+}
+
+const toPrice = (value: string | null | undefined) => {
+  const price = value ? parseFloat(value) : NaN;
+  return isNaN(price) || price <= 0 ? null : price;
+};
+
+/**
+ * Per-share distance from entry to stop in the losing direction. A stop on the
+ * wrong side of entry (or none at all) means the trade had no defined risk.
+ */
+export function getRiskPerShare(trade: RiskTrade): number | null {
+  const entry = toPrice(trade.entryPrice);
+  const stop = toPrice(trade.stopLoss);
+  if (entry === null || stop === null) return null;
+  const risk = (entry - stop) * sideMultiplier(trade.side);
+  return risk > 0 ? risk : null;
+}
+
+// 1R in rupees: what the trade stood to lose if the stop was hit
+export function getInitialRisk(trade: RiskTrade): number | null {
+  const perShare = getRiskPerShare(trade);
+  return perShare === null || !trade.quantity ? null : perShare * trade.quantity;
+}
+
+export function getPlannedRewardRisk(trade: RiskTrade): number | null {
+  const entry = toPrice(trade.entryPrice);
+  const target = toPrice(trade.targetPrice);
+  const perShare = getRiskPerShare(trade);
+  if (entry === null || target === null || perShare === null) return null;
+  return ((target - entry) * sideMultiplier(trade.side)) / perShare;
+}
+
+// Realized P&L in units of initial risk; pass the P&L to use net instead of the stored gross
+export function getRMultiple(trade: RiskTrade, pnl?: number): number | null {
+  const risk = getInitialRisk(trade);
+  if (risk === null) return null;
+  const realized = pnl ?? (trade.profitLoss ? parseFloat(trade.profitLoss) : NaN);
+  return isNaN(realized) ? null : realized / risk;
+}
+
+export const DEFAULT_RISK_CONFIG: RiskConfig = riskConfigSchema.parse({});
+
+// Rupees a single trade may lose; null until capital (or a fixed amount) is set
+export function getRiskBudget(config: RiskConfig): number | null {
+  const budget = config.riskType === "fixed"
+    ? config.riskAmount
+    : (config.accountCapital * config.riskPercent) / 100;
+  return budget > 0 ? budget : null;
+}
+
+export interface PositionSize {
+  quantity: number;
+  riskPerShare: number;
+  riskAmount: number; // What the suggested quantity loses at the stop
+  positionValue: number;
+  limitedByCapital: boolean;
+}
+
+/**
+ * Largest quantity whose loss at the stop fits the risk budget. With account
+ * capital set, the position is also capped at what the capital can buy.
+ */
+export function suggestPositionSize(trade: Omit<RiskTrade, "quantity">, config: RiskConfig): PositionSize | null {
+  const entry = toPrice(trade.entryPrice);
+  const perShare = getRiskPerShare({ ...trade, quantity: 0 });
+  const budget = getRiskBudget(config);
+  if (entry === null || perShare === null || budget === null) return null;
+
+  const byRisk = Math.floor(budget / perShare);
+  const byCapital = config.accountCapital > 0 ? Math.floor(config.accountCapital / entry) : Infinity;
+  const quantity = Math.min(byRisk, byCapital);
+
+  return {
+    quantity,
+    riskPerShare: perShare,
+    riskAmount: quantity * perShare,
+    positionValue: quantity * entry,
+    limitedByCapital: byCapital < byRisk,
+  };
+}
+
+export interface RiskUsage {
+  risk: number;
+  budget: number;
+  percentOfCapital: number | null;
+  overBudget: boolean;
+}
+
+// Initial risk against the budget; null when either is unknown
+export function getRiskUsage(trade: RiskTrade, config: RiskConfig): RiskUsage | null {
+  const risk = getInitialRisk(trade);
+  const budget = getRiskBudget(config);
+  if (risk === null || budget === null) return null;
+
+  return {
+    risk,
+    budget,
+    percentOfCapital: config.accountCapital > 0 ? (risk / config.accountCapital) * 100 : null,
+    // Ignore floating point noise below a paisa
+    overBudget: risk - budget > 0.01,
+  };
+}
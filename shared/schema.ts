@@ -1,9 +1,33 @@
 import { z } from "zod";
 
+// Fill Schema - one executed order within a trade
+export const fillSchema = z.object({
+  id: z.string(),
+  type: z.enum(["entry", "exit"]),
+  quantity: z.number().positive(),
+  price: z.string(),
+  time: z.string(),
+});
+
+export const tradeStatusSchema = z.enum(["planned", "open", "closed", "cancelled"]);
+
+export const dailyRuleSchema = z.enum(["dailyLoss", "tradesPerDay", "consecutiveLosses"]);
+
+// One strategy rule as answered on a trade; the text is kept so edits to the strategy don't rewrite history
+export const ruleCheckSchema = z.object({
+  ruleId: z.string(),
+  rule: z.string(),
+  followed: z.boolean(),
+});
+
+// A custom field's value on a trade, typed by the field's definition in Settings
+export const customFieldValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
 // Trade Schema
 export const insertTradeSchema = z.object({
   tradeDate: z.string(),
   stockName: z.string(),
+  side: z.enum(["long", "short"]).default("long"),
   quantity: z.number(),
   entryPrice: z.string(),
   exitPrice: z.string().nullable().optional(),
@@ -11,30 +35,133 @@ export const insertTradeSchema = z.object({
   targetPrice: z.string().nullable().optional(),
   profitLoss: z.string().nullable().optional(),
   setupFollowed: z.boolean().default(false),
-  whichSetup: z.string().nullable().optional(),
+  whichSetup: z.string().nullable().optional(), // Name of the strategy, kept in step with strategyId
   emotion: z.string().nullable().optional(),
   notes: z.string().nullable().optional(),
   psychologyReflections: z.string().nullable().optional(),
   screenshotLink: z.string().nullable().optional(),
+  // When present, quantity, prices and P&L are derived from the fills
+  fills: z.array(fillSchema).nullable().optional(),
+  // Inferred from the exit when missing, so trades saved before statuses existed still load
+  status: tradeStatusSchema.optional(),
+  // Demat account the trade was placed in; trades from before accounts existed have none
+  accountId: z.number().int().positive().nullable().optional(),
+  // Strategy the trade was taken on; a whichSetup with no id is resolved by name or kept as free text
+  strategyId: z.number().int().positive().nullable().optional(),
+  // Which of the strategy's rules were followed; setupFollowed is derived from these when present
+  ruleChecks: z.array(ruleCheckSchema).nullable().optional(),
+  tags: z.array(z.string()).nullable().optional(), // Free-form, e.g. "trend day", "earnings"
+  // Values of the custom fields configured in Settings, keyed by field ID
+  customFields: z.record(customFieldValueSchema).nullable().optional(),
+  // IDs of the mistake categories from Settings that this trade made
+  mistakes: z.array(z.string()).nullable().optional(),
+  // ISO datetimes, stored in IST (+05:30); with fills they come from the first entry and last exit
+  entryTime: z.string().datetime({ offset: true }).nullable().optional(),
+  exitTime: z.string().datetime({ offset: true }).nullable().optional(),
 });
 
+// profitLoss is gross P&L; charges and netPnL are computed by the server from the charges settings
 export const tradeSchema = insertTradeSchema.extend({
   id: z.number(),
   createdAt: z.date(),
+  updatedAt: z.date().nullable().optional(),
+  charges: z.string().nullable().optional(),
+  netPnL: z.string().nullable().optional(),
+  // Daily rules already broken when the trade was logged, stamped once by the server
+  ruleBreaches: z.array(dailyRuleSchema).nullable().optional(),
+  complianceScore: z.number().nullable().optional(), // % of rule checks followed, null when unchecked
+  // Version of the linked strategy in force on the trade date, stamped by the server
+  strategyVersion: z.number().int().positive().nullable().optional(),
+  userId: z.number().nullable().optional(), // Owner, stamped from the session
+  deletedAt: z.date().nullable().optional(), // Set while the trade sits in the trash
+});
+
+// Trade Query Schema - GET /api/trades query string, so every value arrives as a string
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+
+export const tradeQuerySchema = z.object({
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  symbol: z.string().trim().min(1).optional(),
+  strategy: z.string().min(1).optional(),
+  emotion: z.string().min(1).optional(),
+  status: tradeStatusSchema.optional(),
+  outcome: z.enum(["profit", "loss"]).optional(), // Closed trades only; breakeven is neither
+  pnlMode: z.enum(["gross", "net"]).default("gross"), // P&L read by outcome and the profitLoss sort
+  setupFollowed: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+  tag: z.string().trim().min(1).optional(), // Case-insensitive
+  field: z.string().min(1).optional(), // Custom field ID, matched against fieldValue
+  fieldValue: z.string().optional(),
+  accountId: z.coerce.number().int().positive().optional(), // Left out for all accounts
+  q: z.string().trim().min(1).optional(),
+  sort: z.enum(["tradeDate", "stockName", "quantity", "profitLoss", "createdAt"]).default("tradeDate"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  cursor: z.string().min(1).optional(),
 });
 
 // Strategy Schema
+export const strategyRulePhaseSchema = z.enum(["entry", "management", "exit"]);
+
+export const strategyRuleSchema = z.object({
+  id: z.string(),
+  phase: strategyRulePhaseSchema,
+  text: z.string().trim().min(1, "Rule text is required"),
+});
+
 export const insertStrategySchema = z.object({
   name: z.string(),
   description: z.string().nullable().optional(),
   screenshotUrl: z.string().nullable().optional(),
   tags: z.array(z.string()).nullable().optional(),
   status: z.enum(["active", "testing", "deprecated"]).default("active"),
+  rules: z.array(strategyRuleSchema).nullable().optional(), // Checklist, in the order it is worked through
+});
+
+// A snapshot of the parts of a strategy that define how it is traded
+export const strategyVersionSchema = z.object({
+  version: z.number().int().positive(),
+  description: z.string().nullable().optional(),
+  rules: z.array(strategyRuleSchema).nullable().optional(),
+  activeFrom: z.string(), // YYYY-MM-DD; trades from this date on belong to it until the next version
 });
 
+// Editing the description or rules starts a new version; strategies saved before versioning are version 1
 export const strategySchema = insertStrategySchema.extend({
   id: z.number(),
   createdAt: z.date(),
+  updatedAt: z.date().nullable().optional(),
+  userId: z.number().nullable().optional(),
+  deletedAt: z.date().nullable().optional(),
+  version: z.number().int().positive().optional(),
+  versions: z.array(strategyVersionSchema).nullable().optional(), // Oldest first, current last
+});
+
+// User Schema - one login; every trade, strategy, account and psychology entry belongs to one user
+export const insertUserSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(50),
+  password: z.string().min(8, "Password must be at least 8 characters").max(200),
+});
+
+export const userSchema = z.object({
+  id: z.number(),
+  username: z.string(),
+  passwordHash: z.string(), // scrypt, as salt:hash hex
+  createdAt: z.date(),
+});
+
+// Account Schema - one demat or trading account
+export const insertAccountSchema = z.object({
+  name: z.string().trim().min(1, "Account name is required"),
+  broker: z.string().nullable().optional(),
+  description: z.string().nullable().optional(),
+});
+
+export const accountSchema = insertAccountSchema.extend({
+  id: z.number(),
+  createdAt: z.date(),
+  updatedAt: z.date().nullable().optional(),
+  userId: z.number().nullable().optional(),
 });
 
 // Psychology Entry Schema
@@ -51,12 +178,111 @@ export const insertPsychologyEntrySchema = z.object({
 export const psychologyEntrySchema = insertPsychologyEntrySchema.extend({
   id: z.number(),
   createdAt: z.date(),
+  updatedAt: z.date().nullable().optional(),
+  userId: z.number().nullable().optional(),
+  deletedAt: z.date().nullable().optional(),
+});
+
+// Audit Schema - one append-only event per create, update, delete (to the trash), restore or purge
+export const auditEntitySchema = z.enum(["trade", "strategy", "psychologyEntry"]);
+export const auditActionSchema = z.enum(["create", "update", "delete", "restore", "purge"]);
+
+export const auditChangeSchema = z.object({
+  field: z.string(),
+  before: z.unknown(),
+  after: z.unknown(),
+});
+
+export const auditEventSchema = z.object({
+  id: z.number(),
+  entity: auditEntitySchema,
+  entityId: z.number(),
+  action: auditActionSchema,
+  userId: z.number().nullable(), // Who made the change; null when the sheet sync did
+  username: z.string().nullable(),
+  ownerId: z.number().nullable(), // Whose record it is, so history stays private to them
+  at: z.date(),
+  changes: z.array(auditChangeSchema),
+  // Whole records either side, so an edit can be reverted and a delete restored
+  before: z.record(z.unknown()).nullable(),
+  after: z.record(z.unknown()).nullable(),
+});
+
+export const auditQuerySchema = z.object({
+  entity: auditEntitySchema,
+  entityId: z.coerce.number().int().positive(),
+});
+
+// Trash Schema - /api/trash/:entity/:id
+export const trashItemParamsSchema = z.object({
+  entity: auditEntitySchema,
+  id: z.coerce.number().int().positive(),
+});
+
+// Charges Schema - rates are percentages of order value unless noted
+export const chargesConfigSchema = z.object({
+  preset: z.enum(["discount", "percentage", "custom"]).default("discount"),
+  brokerageType: z.enum(["flat", "percentage"]).default("flat"),
+  brokerageFlat: z.number().min(0).default(20), // ₹ per executed order
+  brokeragePercent: z.number().min(0).default(0.03),
+  sttPercent: z.number().min(0).default(0.025), // Sell side only
+  exchangePercent: z.number().min(0).default(0.00297),
+  sebiPerCrore: z.number().min(0).default(10),
+  stampDutyPercent: z.number().min(0).default(0.003), // Buy side only
+  gstPercent: z.number().min(0).default(18),
+});
+
+// Risk Schema - the most a single trade may lose if its stop is hit
+export const riskConfigSchema = z.object({
+  accountCapital: z.number().min(0).default(0), // ₹
+  riskType: z.enum(["percent", "fixed"]).default("percent"),
+  riskPercent: z.number().min(0).max(100).default(1), // Of account capital
+  riskAmount: z.number().min(0).default(0), // ₹ per trade
+});
+
+// Daily Rules Schema - limits per trading day; 0 turns a rule off
+export const dailyRulesConfigSchema = z.object({
+  maxDailyLoss: z.number().min(0).default(0), // ₹ of net loss
+  maxTradesPerDay: z.number().int().min(0).default(0),
+  maxConsecutiveLosses: z.number().int().min(0).default(0),
+});
+
+// Custom Fields Schema - extra trade fields the trader defines; select fields list their options
+export const customFieldTypeSchema = z.enum(["text", "number", "select", "boolean"]);
+
+export const customFieldSchema = z.object({
+  id: z.string().min(1), // Fixed once created, so renaming the label keeps every trade's value
+  label: z.string().trim().min(1, "Label is required"),
+  type: customFieldTypeSchema,
+  options: z.array(z.string().trim().min(1)).nullable().optional(),
+}).refine(field => field.type !== "select" || (field.options?.length ?? 0) > 0, {
+  message: "A select field needs at least one option",
+  path: ["options"],
+});
+
+// Mistake Categories Schema - the recurring errors trades can be tagged with
+export const mistakeCategorySchema = z.object({
+  id: z.string().min(1), // Fixed once created, like a custom field's
+  label: z.string().trim().min(1, "Label is required"),
 });
 
 // Settings Schema
 export const insertSettingsSchema = z.object({
   googleSheetId: z.string().nullable().optional(),
   googleScriptUrl: z.string().nullable().optional(),
+  charges: chargesConfigSchema.nullable().optional(),
+  risk: riskConfigSchema.nullable().optional(),
+  dailyRules: dailyRulesConfigSchema.nullable().optional(),
+  trashRetentionDays: z.number().int().min(1).max(365).nullable().optional(), // Then purged for good
+  customFields: z.array(customFieldSchema)
+    .refine(fields => new Set(fields.map(field => field.id)).size === fields.length, "Custom field IDs must be unique")
+    .nullable()
+    .optional(),
+  // Unset until first edited, when the defaults are used
+  mistakeCategories: z.array(mistakeCategorySchema)
+    .refine(categories => new Set(categories.map(category => category.id)).size === categories.length, "Mistake IDs must be unique")
+    .nullable()
+    .optional(),
 });
 
 export const settingsSchema = insertSettingsSchema.extend({
@@ -64,15 +290,76 @@ export const settingsSchema = insertSettingsSchema.extend({
   updatedAt: z.date(),
 });
 
+// Benchmark Schema - daily index closes imported from CSV, one series per symbol (e.g. NIFTY)
+export const benchmarkCloseSchema = z.object({
+  date: isoDate,
+  close: z.number().positive(),
+});
+
+export const benchmarkSchema = z.object({
+  symbol: z.string().min(1),
+  closes: z.array(benchmarkCloseSchema), // Oldest first, one per date
+  updatedAt: z.date(),
+});
+
 // Types
+export type Fill = z.infer<typeof fillSchema>;
+export type TradeStatus = z.infer<typeof tradeStatusSchema>;
+export type DailyRule = z.infer<typeof dailyRuleSchema>;
+export type RuleCheck = z.infer<typeof ruleCheckSchema>;
+
 export type InsertTrade = z.infer<typeof insertTradeSchema>;
 export type Trade = z.infer<typeof tradeSchema>;
+export type TradeQuery = z.infer<typeof tradeQuerySchema>;
+export type TradeQueryParams = z.input<typeof tradeQuerySchema>;
 
+export interface TradePage {
+  trades: Trade[];
+  nextCursor: string | null;
+  total: number; // Matching trades across all pages
+}
+
+export type StrategyRulePhase = z.infer<typeof strategyRulePhaseSchema>;
+export type StrategyRule = z.infer<typeof strategyRuleSchema>;
 export type InsertStrategy = z.infer<typeof insertStrategySchema>;
+export type StrategyVersion = z.infer<typeof strategyVersionSchema>;
 export type Strategy = z.infer<typeof strategySchema>;
 
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = z.infer<typeof userSchema>;
+// isAdmin marks the first user registered, who owns the settings and the Google Sheets mirror
+export type PublicUser = Omit<User, "passwordHash"> & { isAdmin: boolean };
+
+export type InsertAccount = z.infer<typeof insertAccountSchema>;
+export type Account = z.infer<typeof accountSchema>;
+
 export type InsertPsychologyEntry = z.infer<typeof insertPsychologyEntrySchema>;
 export type PsychologyEntry = z.infer<typeof psychologyEntrySchema>;
 
+export type AuditEntity = z.infer<typeof auditEntitySchema>;
+export type AuditAction = z.infer<typeof auditActionSchema>;
+export type AuditChange = z.infer<typeof auditChangeSchema>;
+export type AuditEvent = z.infer<typeof auditEventSchema>;
+
+export interface TrashContents {
+  retentionDays: number;
+  trades: Trade[];
+  strategies: Strategy[];
+  psychologyEntries: PsychologyEntry[];
+}
+
+export type ChargesConfig = z.infer<typeof chargesConfigSchema>;
+export type RiskConfig = z.infer<typeof riskConfigSchema>;
+export type DailyRulesConfig = z.infer<typeof dailyRulesConfigSchema>;
+export type CustomFieldType = z.infer<typeof customFieldTypeSchema>;
+export type CustomField = z.infer<typeof customFieldSchema>;
+export type CustomFieldValue = z.infer<typeof customFieldValueSchema>;
+export type MistakeCategory = z.infer<typeof mistakeCategorySchema>;
+
 export type InsertSettings = z.infer<typeof insertSettingsSchema>;
-export type Settings = z.infer<typeof settingsSchema>;
\ No newline at end of file
+export type Settings = z.infer<typeof settingsSchema>;
+// What the API returns: the Script URL stays on the server, only whether one is saved
+export type PublicSettings = Omit<Settings, "googleScriptUrl"> & { hasGoogleScriptUrl: boolean };
+
+export type BenchmarkClose = z.infer<typeof benchmarkCloseSchema>;
+export type Benchmark = z.infer<typeof benchmarkSchema>;
\ No newline at end of file
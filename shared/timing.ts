@@ -0,0 +1,161 @@
+// Intraday timing: entry and exit times are kept in IST (the exchange's time),
+// so time-of-day stats read the same wherever the journal is opened
+
+import type { Fill, Trade } from "./schema";
+import { getTradeStatus } from "./lifecycle";
+import { getTradePnL, type PnLMode } from "./pnl";
+import { summarizeFills } from "./fills";
+
+const IST_OFFSET_MINUTES = 330;
+
+type TimingTrade = Pick<
+  Trade,
+  "entryTime" | "exitTime" | "status" | "side" | "quantity" | "entryPrice" | "exitPrice" | "fills" | "profitLoss" | "netPnL"
+>;
+
+export interface TimeBucketStats {
+  label: string; // Start of the bucket, HH:mm IST
+  trades: number;
+  wins: number;
+  winRate: number;
+  totalPnL: number;
+  avgPnL: number;
+}
+
+export interface HoldingTimeStats {
+  trades: number;
+  avgMinutes: number | null; // null when none had both times
+}
+
+/**
+ * Any parseable time as "YYYY-MM-DDTHH:mm:ss+05:30". Times without an offset
+ * are taken to already be IST; blanks and junk become null.
+ */
+export function toISTDateTime(value: Date | string | null | undefined): string | null {
+  if (!value) return null;
+  const text = typeof value === "string" ? value.trim() : value;
+  const withOffset = typeof text === "string" && /T\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(text) ? `${text}+05:30` : text;
+  const date = new Date(withOffset);
+  if (isNaN(date.getTime())) return null;
+  return new Date(date.getTime() + IST_OFFSET_MINUTES * 60000).toISOString().slice(0, 19) + "+05:30";
+}
+
+// datetime-local inputs show and return IST regardless of the browser's own timezone
+export function toISTInput(value: string | null | undefined): string {
+  return toISTDateTime(value)?.slice(0, 16) ?? "";
+}
+
+export function fromISTInput(value: string | null | undefined): string | null {
+  return value ? toISTDateTime(value) : null;
+}
+
+// Minutes into the IST day, e.g. 09:20 -> 560
+function getISTMinuteOfDay(value: string): number | null {
+  const ist = toISTDateTime(value);
+  return ist ? Number(ist.slice(11, 13)) * 60 + Number(ist.slice(14, 16)) : null;
+}
+
+function fillTimes(fills: Fill[], type: Fill["type"]): number[] {
+  return fills
+    .filter(fill => fill.type === type)
+    .map(fill => new Date(fill.time).getTime())
+    .filter(time => !isNaN(time))
+    .sort((a, b) => a - b);
+}
+
+/**
+ * With fills, the entry time is the first entry fill's and the exit time the
+ * last exit fill's once every share entered has been exited.
+ */
+export function withFillTimes<T extends Pick<Trade, "fills" | "entryTime" | "exitTime">>(trade: T): T {
+  if (!trade.fills || trade.fills.length === 0) return trade;
+
+  const entries = fillTimes(trade.fills, "entry");
+  const exits = fillTimes(trade.fills, "exit");
+  const closed = exits.length > 0 && summarizeFills(trade.fills).openQuantity === 0;
+  return {
+    ...trade,
+    entryTime: entries.length > 0 ? toISTDateTime(new Date(entries[0])) : trade.entryTime ?? null,
+    exitTime: closed ? toISTDateTime(new Date(exits[exits.length - 1])) : null,
+  };
+}
+
+export function getHoldingMinutes(trade: Pick<Trade, "entryTime" | "exitTime">): number | null {
+  if (!trade.entryTime || !trade.exitTime) return null;
+  const held = (new Date(trade.exitTime).getTime() - new Date(trade.entryTime).getTime()) / 60000;
+  return isNaN(held) || held < 0 ? null : held;
+}
+
+export function validateTradeTimes(entryTime: string | null | undefined, exitTime: string | null | undefined): string | null {
+  if (entryTime && exitTime && new Date(exitTime).getTime() < new Date(entryTime).getTime()) {
+    return "Exit time is before the entry time";
+  }
+  return null;
+}
+
+// e.g. 45 -> "45m", 95 -> "1h 35m", 1500 -> "1d 1h"
+export function formatDuration(minutes: number | null): string {
+  if (minutes === null) return "—";
+  const rounded = Math.round(minutes);
+  if (rounded < 60) return `${rounded}m`;
+  if (rounded < 24 * 60) return `${Math.floor(rounded / 60)}h ${String(rounded % 60).padStart(2, "0")}m`;
+  return `${Math.floor(rounded / (24 * 60))}d ${Math.floor((rounded % (24 * 60)) / 60)}h`;
+}
+
+/**
+ * Closed trades grouped by when they were entered, in buckets of the given
+ * length (15 minutes for the intraday view, 60 for hourly), earliest first.
+ * Trades without an entry time are left out.
+ */
+export function summarizeByTimeOfDay<T extends TimingTrade>(
+  trades: T[],
+  mode: PnLMode,
+  bucketMinutes = 15,
+): TimeBucketStats[] {
+  const buckets = new Map<number, number[]>();
+
+  trades
+    .filter(trade => getTradeStatus(trade) === "closed")
+    .forEach(trade => {
+      const minute = trade.entryTime ? getISTMinuteOfDay(trade.entryTime) : null;
+      if (minute === null) return;
+      const start = Math.floor(minute / bucketMinutes) * bucketMinutes;
+      buckets.set(start, [...(buckets.get(start) ?? []), getTradePnL(trade, mode)]);
+    });
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([start, pnls]) => {
+      const totalPnL = pnls.reduce((sum, pnl) => sum + pnl, 0);
+      const wins = pnls.filter(pnl => pnl > 0).length;
+      return {
+        label: `${String(Math.floor(start / 60)).padStart(2, "0")}:${String(start % 60).padStart(2, "0")}`,
+        trades: pnls.length,
+        wins,
+        winRate: (wins / pnls.length) * 100,
+        totalPnL,
+        avgPnL: totalPnL / pnls.length,
+      };
+    });
+}
+
+// Average time in the trade for closed winners and losers; breakeven trades count as neither
+export function compareHoldingTimes<T extends TimingTrade>(
+  trades: T[],
+  mode: PnLMode,
+): { winners: HoldingTimeStats; losers: HoldingTimeStats } {
+  const held = trades
+    .filter(trade => getTradeStatus(trade) === "closed")
+    .map(trade => ({ minutes: getHoldingMinutes(trade), pnl: getTradePnL(trade, mode) }))
+    .filter((item): item is { minutes: number; pnl: number } => item.minutes !== null);
+
+  const stats = (items: { minutes: number }[]): HoldingTimeStats => ({
+    trades: items.length,
+    avgMinutes: items.length > 0 ? items.reduce((sum, item) => sum + item.minutes, 0) / items.length : null,
+  });
+
+  return {
+    winners: stats(held.filter(item => item.pnl > 0)),
+    losers: stats(held.filter(item => item.pnl < 0)),
+  };
+}
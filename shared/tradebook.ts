@@ -0,0 +1,297 @@
+// Broker tradebook CSV parsing: executions in, round-trip trades out
+
+import type { Fill, InsertTrade, Trade } from "./schema";
+import { deriveTradeFromFills } from "./fills";
+
+export type TradebookBroker = "zerodha" | "upstox" | "angel";
+
+export interface Execution {
+  symbol: string;
+  date: string; // YYYY-MM-DD
+  time: string; // ISO, falls back to the start of the day
+  action: "buy" | "sell";
+  quantity: number;
+  price: number;
+  tradeId: string | null;
+}
+
+interface BrokerLayout {
+  label: string;
+  // Headers that only this broker's export has, used for auto detection
+  signature: string[];
+  columns: Record<"symbol" | "date" | "action" | "quantity" | "price", string[]> & { time?: string[]; tradeId?: string[] };
+}
+
+// Header names are matched lower-cased with spaces, dots and underscores collapsed
+export const BROKER_LAYOUTS: Record<TradebookBroker, BrokerLayout> = {
+  zerodha: {
+    label: "Zerodha",
+    signature: ["trade type", "order execution time"],
+    columns: {
+      symbol: ["symbol", "tradingsymbol"],
+      date: ["trade date"],
+      time: ["order execution time"],
+      action: ["trade type"],
+      quantity: ["quantity"],
+      price: ["price"],
+      tradeId: ["trade id"],
+    },
+  },
+  upstox: {
+    label: "Upstox",
+    signature: ["scrip code", "trade num"],
+    columns: {
+      symbol: ["scrip code", "symbol", "company"],
+      date: ["date", "trade date"],
+      time: ["trade time"],
+      action: ["side", "buy/sell"],
+      quantity: ["quantity", "qty"],
+      price: ["price", "rate"],
+      tradeId: ["trade num", "trade no"],
+    },
+  },
+  angel: {
+    label: "Angel One",
+    signature: ["buy/sell", "trade no"],
+    columns: {
+      symbol: ["symbol", "scrip name", "trading symbol"],
+      date: ["trade date", "date"],
+      time: ["trade time"],
+      action: ["buy/sell", "transaction type"],
+      quantity: ["quantity", "qty", "trade qty"],
+      price: ["trade price", "price", "rate"],
+      tradeId: ["trade no", "trade id"],
+    },
+  },
+};
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s._]+/g, " ");
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes and CRLF line endings
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ""));
+}
+
+export function detectBroker(headers: string[]): TradebookBroker | null {
+  const normalized = headers.map(normalizeHeader);
+  const match = (Object.keys(BROKER_LAYOUTS) as TradebookBroker[]).find(broker =>
+    BROKER_LAYOUTS[broker].signature.every(header => normalized.includes(header))
+  );
+  return match ?? null;
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// Brokers disagree on date formats: 2024-01-15, 15-01-2024, 15/01/2024 and 15-Jan-2024 all turn up
+export function parseTradebookDate(value: string): string | null {
+  const text = value.trim().split(/[ T]/)[0];
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) return `${match[1]}-${match[2].padStart(2, "0")}-${match[3].padStart(2, "0")}`;
+
+  match = text.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{4})$/);
+  if (match) return `${match[3]}-${match[2].padStart(2, "0")}-${match[1].padStart(2, "0")}`;
+
+  match = text.match(/^(\d{1,2})[-/ ]([A-Za-z]{3})[a-z]*[-/ ](\d{4})$/);
+  if (match) {
+    const month = MONTHS.indexOf(match[2].toLowerCase());
+    if (month >= 0) return `${match[3]}-${String(month + 1).padStart(2, "0")}-${match[1].padStart(2, "0")}`;
+  }
+  return null;
+}
+
+// Execution times are exchange (IST) times; a bare HH:mm:ss is taken on the trade date
+function parseTradebookTime(value: string | undefined, date: string): string {
+  const text = value?.trim() || "";
+  const clock = text.match(/(\d{1,2}):(\d{2})(?::(\d{2}))?/);
+  const [hours, minutes, seconds] = clock ? [clock[1].padStart(2, "0"), clock[2], clock[3] || "00"] : ["00", "00", "00"];
+  const parsed = new Date(`${date}T${hours}:${minutes}:${seconds}+05:30`);
+  return isNaN(parsed.getTime()) ? new Date(`${date}T00:00:00+05:30`).toISOString() : parsed.toISOString();
+}
+
+function normalizeSymbol(value: string): string {
+  // Angel appends the series, e.g. RELIANCE-EQ
+  return value.trim().toUpperCase().replace(/-(EQ|BE|BZ)$/, "");
+}
+
+export interface ParsedTradebook {
+  broker: TradebookBroker;
+  executions: Execution[];
+  errors: string[];
+}
+
+export function parseTradebook(csv: string, broker?: TradebookBroker): ParsedTradebook {
+  const [headerRow, ...dataRows] = parseCsv(csv);
+  if (!headerRow) throw new Error("The file is empty");
+
+  const detected = broker ?? detectBroker(headerRow);
+  if (!detected) throw new Error("Couldn't recognise the tradebook layout; choose the broker manually");
+
+  const layout = BROKER_LAYOUTS[detected];
+  const headers = headerRow.map(normalizeHeader);
+  const columnIndex = (aliases?: string[]) =>
+    aliases ? aliases.map(alias => headers.indexOf(alias)).find(index => index >= 0) ?? -1 : -1;
+
+  const index = {
+    symbol: columnIndex(layout.columns.symbol),
+    date: columnIndex(layout.columns.date),
+    time: columnIndex(layout.columns.time),
+    action: columnIndex(layout.columns.action),
+    quantity: columnIndex(layout.columns.quantity),
+    price: columnIndex(layout.columns.price),
+    tradeId: columnIndex(layout.columns.tradeId),
+  };
+  const missing = (["symbol", "date", "action", "quantity", "price"] as const).filter(column => index[column] < 0);
+  if (missing.length > 0) {
+    throw new Error(`${layout.label} tradebook is missing columns: ${missing.join(", ")}`);
+  }
+
+  const executions: Execution[] = [];
+  const errors: string[] = [];
+
+  dataRows.forEach((cells, rowIndex) => {
+    const line = rowIndex + 2;
+    const date = parseTradebookDate(cells[index.date] || "");
+    const actionText = (cells[index.action] || "").trim().toLowerCase();
+    const action = actionText.startsWith("b") ? "buy" : actionText.startsWith("s") ? "sell" : null;
+    const quantity = Math.abs(parseFloat((cells[index.quantity] || "").replace(/,/g, "")));
+    const price = parseFloat((cells[index.price] || "").replace(/,/g, ""));
+    const symbol = normalizeSymbol(cells[index.symbol] || "");
+
+    if (!symbol || !date || !action || !(quantity > 0) || !(price > 0)) {
+      errors.push(`Row ${line}: couldn't read symbol, date, side, quantity or price`);
+      return;
+    }
+
+    executions.push({
+      symbol,
+      date,
+      time: parseTradebookTime(index.time >= 0 ? cells[index.time] : undefined, date),
+      action,
+      quantity,
+      price,
+      tradeId: index.tradeId >= 0 && cells[index.tradeId]?.trim() ? cells[index.tradeId].trim() : null,
+    });
+  });
+
+  return { broker: detected, executions, errors };
+}
+
+/**
+ * Walk each symbol's executions for a day in time order and cut a trade every
+ * time the position returns to flat. An execution that flips the position is
+ * split between the closing trade and the new one. A position still open at the
+ * end of the day becomes an open trade.
+ */
+export function pairExecutions(executions: Execution[], broker: TradebookBroker): InsertTrade[] {
+  const groups = new Map<string, Execution[]>();
+  executions.forEach(execution => {
+    const key = `${execution.date}|${execution.symbol}`;
+    groups.set(key, [...(groups.get(key) || []), execution]);
+  });
+
+  const trades: InsertTrade[] = [];
+
+  groups.forEach(group => {
+    const sorted = [...group].sort((a, b) => a.time.localeCompare(b.time));
+    let fills: Fill[] = [];
+    let openAction: Execution["action"] | null = null;
+    let position = 0;
+
+    const finish = () => {
+      if (fills.length === 0 || !openAction) return;
+      const { date, symbol } = sorted[0];
+      trades.push(deriveTradeFromFills({
+        tradeDate: date,
+        stockName: symbol,
+        side: openAction === "buy" ? "long" : "short",
+        status: position === 0 ? "closed" : "open",
+        quantity: 0,
+        entryPrice: "0",
+        exitPrice: null,
+        setupFollowed: false,
+        notes: `Imported from ${BROKER_LAYOUTS[broker].label} tradebook`,
+        fills,
+      }));
+      fills = [];
+      openAction = null;
+      position = 0;
+    };
+
+    sorted.forEach((execution, executionIndex) => {
+      let remaining = execution.quantity;
+      while (remaining > 0) {
+        if (!openAction) openAction = execution.action;
+        const isEntry = execution.action === openAction;
+        const quantity = isEntry ? remaining : Math.min(remaining, position);
+        fills.push({
+          // Broker trade IDs make re-imports of the same file detectable
+          id: `${broker}-${execution.tradeId ?? `${execution.date}-${execution.symbol}-${executionIndex}`}${quantity < execution.quantity ? `-${remaining}` : ""}`,
+          type: isEntry ? "entry" : "exit",
+          quantity,
+          price: execution.price.toString(),
+          time: execution.time,
+        });
+        position += isEntry ? quantity : -quantity;
+        remaining -= quantity;
+        if (position === 0) finish();
+      }
+    });
+    finish();
+  });
+
+  return trades.sort((a, b) => a.tradeDate.localeCompare(b.tradeDate) || a.stockName.localeCompare(b.stockName));
+}
+
+/**
+ * An existing trade is a duplicate if it shares a broker fill ID, or failing
+ * that has the same day, symbol, side, quantity and average entry.
+ */
+export function findDuplicateTrade(trade: InsertTrade, existing: Trade[]): Trade | null {
+  const fillIds = new Set((trade.fills || []).map(fill => fill.id));
+  const byFill = existing.find(candidate => candidate.fills?.some(fill => fillIds.has(fill.id)));
+  if (byFill) return byFill;
+
+  return existing.find(candidate =>
+    candidate.tradeDate === trade.tradeDate &&
+    candidate.stockName.toUpperCase() === trade.stockName &&
+    (candidate.side || "long") === trade.side &&
+    candidate.quantity === trade.quantity &&
+    Math.abs(parseFloat(candidate.entryPrice) - parseFloat(trade.entryPrice)) < 0.01
+  ) ?? null;
+}
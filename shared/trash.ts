@@ -0,0 +1,15 @@
+// Deleted trades, strategies and psychology entries wait in the trash for a
+// retention window before they are purged for good
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isTrashed(record: { deletedAt?: Date | string | null } | undefined): boolean {
+  return !!record?.deletedAt;
+}
+
+// When a trashed record is due to be purged
+export function getPurgeDate(deletedAt: Date | string, retentionDays: number = DEFAULT_TRASH_RETENTION_DAYS): Date {
+  return new Date(new Date(deletedAt).getTime() + retentionDays * DAY_MS);
+}
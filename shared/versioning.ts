@@ -0,0 +1,112 @@
+// Strategy versions: each edit to a strategy's description or rules starts a new
+// version, and trades are judged against the version in force when they were taken
+
+import type { Strategy, StrategyVersion, Trade } from "./schema";
+import { getTradeStatus } from "./lifecycle";
+import { getTradePnL, type PnLMode } from "./pnl";
+import { getRMultiple } from "./risk";
+
+type VersionedStrategy = Pick<Strategy, "description" | "rules" | "createdAt" | "version" | "versions">;
+
+type VersionTrade = Pick<
+  Trade,
+  "tradeDate" | "strategyVersion" | "status" | "side" | "quantity" | "entryPrice" | "exitPrice" | "stopLoss" | "fills" | "profitLoss" | "netPnL"
+>;
+
+export interface VersionStats {
+  version: number;
+  activeFrom: string;
+  description: string | null;
+  ruleCount: number;
+  trades: number; // Closed trades
+  winRate: number;
+  totalPnL: number;
+  expectancy: number; // Average P&L per closed trade
+  expectancyR: number | null; // Average R over trades with a stop; null when none had one
+  maxDrawdown: number;
+}
+
+const toDay = (date: Date | string) => new Date(date).toISOString().split("T")[0];
+
+// Every version, oldest first. Strategies saved before versioning get their current state as version 1
+export function getStrategyVersions(strategy: VersionedStrategy): StrategyVersion[] {
+  if (strategy.versions && strategy.versions.length > 0) return strategy.versions;
+  return [{
+    version: strategy.version ?? 1,
+    description: strategy.description ?? null,
+    rules: strategy.rules ?? null,
+    activeFrom: toDay(strategy.createdAt),
+  }];
+}
+
+// Trades dated before the first version still belong to it, so back-filled history has a home
+export function getVersionOn(strategy: VersionedStrategy, tradeDate: string): number {
+  const versions = getStrategyVersions(strategy);
+  const active = versions.filter(version => version.activeFrom <= tradeDate);
+  return (active.length > 0 ? active[active.length - 1] : versions[0]).version;
+}
+
+/**
+ * Start a new version when the description or rules have moved on from the
+ * latest one, whether edited in the app or in the sheet. Renames, tags and
+ * status don't change how a strategy is traded, so they stay in the version.
+ */
+export function withCurrentVersion<T extends VersionedStrategy>(strategy: T, activeFrom: string): T {
+  const versions = getStrategyVersions(strategy);
+  const latest = versions[versions.length - 1];
+  const unchanged = (latest.description ?? null) === (strategy.description ?? null)
+    && JSON.stringify(latest.rules ?? []) === JSON.stringify(strategy.rules ?? []);
+  if (unchanged) return { ...strategy, version: latest.version, versions };
+
+  const version = latest.version + 1;
+  return {
+    ...strategy,
+    version,
+    versions: [...versions, { version, description: strategy.description ?? null, rules: strategy.rules ?? null, activeFrom }],
+  };
+}
+
+/**
+ * Closed trades of one strategy split by version, oldest version first. Trades
+ * saved before versioning carry no version and are placed by their trade date.
+ */
+export function compareVersions<T extends VersionTrade>(
+  strategy: VersionedStrategy,
+  trades: T[],
+  mode: PnLMode,
+): VersionStats[] {
+  const closed = trades
+    .filter(trade => getTradeStatus(trade) === "closed")
+    .sort((a, b) => a.tradeDate.localeCompare(b.tradeDate));
+
+  return getStrategyVersions(strategy).map(version => {
+    const inVersion = closed.filter(trade => (trade.strategyVersion ?? getVersionOn(strategy, trade.tradeDate)) === version.version);
+    const pnls = inVersion.map(trade => getTradePnL(trade, mode));
+    const totalPnL = pnls.reduce((sum, pnl) => sum + pnl, 0);
+    const rMultiples = inVersion
+      .map((trade, index) => getRMultiple(trade, pnls[index]))
+      .filter((r): r is number => r !== null);
+
+    let peak = 0;
+    let running = 0;
+    let maxDrawdown = 0;
+    pnls.forEach(pnl => {
+      running += pnl;
+      peak = Math.max(peak, running);
+      maxDrawdown = Math.max(maxDrawdown, peak - running);
+    });
+
+    return {
+      version: version.version,
+      activeFrom: version.activeFrom,
+      description: version.description ?? null,
+      ruleCount: version.rules?.length ?? 0,
+      trades: inVersion.length,
+      winRate: inVersion.length > 0 ? (pnls.filter(pnl => pnl > 0).length / inVersion.length) * 100 : 0,
+      totalPnL,
+      expectancy: inVersion.length > 0 ? totalPnL / inVersion.length : 0,
+      expectancyR: rMultiples.length > 0 ? rMultiples.reduce((sum, r) => sum + r, 0) / rMultiples.length : null,
+      maxDrawdown,
+    };
+  });
+}